@@ -1,18 +1,33 @@
-import { Switch, Route } from "wouter";
+import { useEffect } from "react";
+import { Switch, Route, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { useAuth } from "./hooks/use-auth";
 import { useCleanupFaultyMemories } from "./hooks/use-memories";
+import { getPendingInvite } from "./lib/pending-invite";
 
 import AuthPage from "./pages/auth";
 import HomePage from "./pages/home";
 import TimelinePage from "./pages/timeline";
+import HistoryPage from "./pages/history";
 import DashboardPage from "./pages/dashboard";
+import JoinPage from "./pages/join";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   const { user, loading } = useAuth();
+  const [location, navigate] = useLocation();
+
+  // Sign-in may land somewhere else (e.g. after a redirect); resume a pending invite
+  useEffect(() => {
+    if (!user || location.startsWith("/join/")) return;
+
+    const pendingCode = getPendingInvite();
+    if (pendingCode) {
+      navigate(`/join/${encodeURIComponent(pendingCode)}`);
+    }
+  }, [user, location, navigate]);
 
   if (loading) {
     return (
@@ -27,11 +42,13 @@ function Router() {
 
   return (
     <Switch>
+      <Route path="/join/:code" component={JoinPage} />
       {!user && <Route path="/" component={AuthPage} />}
       {user && <Route path="/" component={HomePage} />}
       {user && <Route path="/home/:relationshipId" component={HomePage} />}
       {user && <Route path="/timeline" component={TimelinePage} />}
       {user && <Route path="/timeline/:relationshipId" component={TimelinePage} />}
+      {user && <Route path="/history/:relationshipId" component={HistoryPage} />}
       {user && <Route path="/dashboard" component={DashboardPage} />}
       <Route component={NotFound} />
     </Switch>
@@ -42,7 +59,8 @@ function Router() {
 function MemoryCleanup() {
   // This hook sets up a cleanup task that runs immediately on mount
   // and then periodically to remove any faulty memory entries
-  useCleanupFaultyMemories();
+  const { user } = useAuth();
+  useCleanupFaultyMemories(user?.uid ?? null);
   
   // This component doesn't render anything
   return null;
@@ -2,7 +2,8 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { signInWithEmail, createUserWithEmail } from "../lib/firebase";
+import { isSessionAuth } from "@/lib/queryClient";
+import { loginWithPassword, registerWithPassword } from "@/lib/session-auth";
 import { useToast } from "@/hooks/use-toast";
 
 const loginSchema = z.object({
@@ -28,10 +29,21 @@ export default function AuthForm() {
   const onSubmit = async (data: LoginFormValues) => {
     try {
       setIsLoading(true);
-      if (isLogin) {
-        await signInWithEmail(data.email, data.password);
+      if (isSessionAuth) {
+        // Self-hosted installs sign in against the server session
+        if (isLogin) {
+          await loginWithPassword(data.email, data.password);
+        } else {
+          await registerWithPassword(data.email, data.password);
+        }
       } else {
-        await createUserWithEmail(data.email, data.password);
+        const { signInWithEmail, createUserWithEmail } = await import("../lib/firebase");
+        
+        if (isLogin) {
+          await signInWithEmail(data.email, data.password);
+        } else {
+          await createUserWithEmail(data.email, data.password);
+        }
       }
       // Auth state change will be handled by the useAuth hook
     } catch (error) {
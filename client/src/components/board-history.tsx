@@ -0,0 +1,108 @@
+import { useEffect, useMemo, useState } from "react";
+import { formatDate } from "../lib/utils";
+import { useBoardHistoryDays, useBoardHistory } from "@/hooks/use-memories";
+import { Calendar } from "@/components/ui/calendar";
+import MemoryCard from "./memory-card";
+
+interface BoardHistoryProps {
+  relationshipId: number;
+}
+
+// The calendar works in local dates, while history is kept as day keys in the
+// relationship's time zone; only the calendar date matters here, so convert
+// field by field instead of through an instant
+function dayKeyToDate(dayKey: string): Date {
+  const [year, month, day] = dayKey.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function dateToDayKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+export default function BoardHistory({ relationshipId }: BoardHistoryProps) {
+  const { data: days = [], isLoading: daysLoading } = useBoardHistoryDays(relationshipId);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const { data: boards = [], isLoading: boardsLoading } = useBoardHistory(relationshipId, selectedDay);
+
+  const boardDays = useMemo(() => new Set(days), [days]);
+  const boardDates = useMemo(() => days.map(dayKeyToDate), [days]);
+
+  // Open on the most recent board
+  useEffect(() => {
+    if (!selectedDay && days.length > 0) {
+      setSelectedDay(days[0]);
+    }
+  }, [days, selectedDay]);
+
+  if (daysLoading) {
+    return (
+      <div className="bg-white/60 backdrop-blur-sm rounded-2xl shadow-md p-8 text-center animate-pulse">
+        <p className="font-script text-xl text-[var(--charcoal)]/60">Looking back...</p>
+      </div>
+    );
+  }
+
+  if (days.length === 0) {
+    return (
+      <div className="bg-white/60 backdrop-blur-sm rounded-2xl shadow-md p-8 text-center">
+        <p className="font-script text-xl mb-2 text-[var(--charcoal)]/80">No past boards yet</p>
+        <p className="text-sm text-[var(--charcoal)]/60">
+          Every day's memory gems will be kept here to look back on.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[auto_1fr] gap-6 items-start">
+      <div className="bg-white rounded-xl shadow-md">
+        <Calendar
+          mode="single"
+          selected={selectedDay ? dayKeyToDate(selectedDay) : undefined}
+          onSelect={(date) => date && setSelectedDay(dateToDayKey(date))}
+          defaultMonth={dayKeyToDate(days[0])}
+          disabled={(date) => !boardDays.has(dateToDayKey(date))}
+          modifiers={{ hasBoard: boardDates }}
+          modifiersClassNames={{ hasBoard: "font-bold text-[var(--primary-dark)]" }}
+        />
+      </div>
+
+      <div className="space-y-8">
+        {boardsLoading ? (
+          <div className="bg-white rounded-xl shadow-md p-5 animate-pulse">
+            <div className="h-24 bg-gray-200 rounded"></div>
+          </div>
+        ) : (
+          boards.map((board) => (
+            <section key={board.reroll}>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-serif text-xl">
+                  {board.reroll === 0 ? "The day's board" : `Reroll ${board.reroll}`}
+                </h3>
+                <span className="font-script text-lg text-[var(--primary-dark)]">
+                  {formatDate(dayKeyToDate(board.date))}
+                </span>
+              </div>
+
+              {board.memories.length === 0 ? (
+                <p className="text-sm text-[var(--charcoal)]/60">These memories are no longer available.</p>
+              ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {board.memories.map((memory, index) => (
+                    <MemoryCard
+                      key={memory.id}
+                      memory={memory}
+                      tapePosition={index % 4}
+                      relationshipId={relationshipId}
+                    />
+                  ))}
+                </div>
+              )}
+            </section>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,48 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { formatDate } from "../lib/utils";
-import { Memory } from "@/lib/firebase-service";
-import { useRerollDailyMemories } from "@/hooks/use-memories";
+import type { Memory } from "@/lib/firebase-service";
+import { useRerollDailyMemories, useRemainingRerolls, useBoardGifts } from "@/hooks/use-memories";
+import { useAuth } from "@/hooks/use-auth";
+import { getDayKey } from "@shared/day-key";
+import { getYearsAgoToday } from "@shared/selection";
 import MemoryCard from "./memory-card";
 
 interface DailyMemoriesProps {
   memories: Memory[];
   isLoading: boolean;
   relationshipId: number;
+  timeZone: string; // The relationship's, so "on this day" matches the board's day
+  boardSize: number;
 }
 
-export default function DailyMemories({ memories, isLoading, relationshipId }: DailyMemoriesProps) {
+export default function DailyMemories({ memories, isLoading, relationshipId, timeZone, boardSize }: DailyMemoriesProps) {
   const today = new Date();
+  const todayKey = getDayKey(today, timeZone);
+  const { user } = useAuth();
   const { mutate: rerollMemories, isPending: isRerolling } = useRerollDailyMemories();
+  const { data: remainingRerolls = 0 } = useRemainingRerolls(user?.uid || null, relationshipId);
+  const { data: gifts = [] } = useBoardGifts(relationshipId);
   
   const handleReroll = () => {
-    rerollMemories({ relationshipId, count: 4 }); // Changed from 3 to 4
+    if (!user?.uid) return;
+    
+    rerollMemories({ relationshipId, userId: user.uid });
   };
   
+  // Only shown while the user has rerolls left today (the owner sets the allowance)
+  const rerollButton = remainingRerolls > 0 && (
+    <button
+      onClick={handleReroll}
+      className="ml-4 p-2 bg-[var(--primary-light)] text-[var(--primary-dark)] rounded-full hover:bg-[var(--primary)] hover:text-white transition-colors"
+      title={`Refresh memory selection (${remainingRerolls} left today)`}
+    >
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+      </svg>
+    </button>
+  );
+  
   if (isLoading || isRerolling) {
     return (
       <section className="mb-12">
@@ -29,7 +54,7 @@ export default function DailyMemories({ memories, isLoading, relationshipId }: D
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          {[1, 2, 3, 4].map((_, index) => ( // Changed from 3 to 4 placeholders
+          {Array.from({ length: boardSize }, (_, index) => (
             <div key={index} className="bg-white rounded-xl shadow-md p-5 animate-pulse">
               <div className="mb-3 flex justify-between items-start">
                 <div className="h-6 bg-gray-200 rounded w-1/3"></div>
@@ -53,17 +78,10 @@ export default function DailyMemories({ memories, isLoading, relationshipId }: D
           <h2 className="font-serif text-2xl">Today's Memory Gems</h2>
           <div className="flex items-center">
             <span className="font-script text-xl text-[var(--primary-dark)]">{formatDate(today)}</span>
-            {/* Reroll button hidden as requested but code kept for future use
-            <button
-              onClick={handleReroll}
-              className="ml-4 p-2 bg-[var(--primary-light)] text-[var(--primary-dark)] rounded-full hover:bg-[var(--primary)] hover:text-white transition-colors"
-              title="Refresh memory selection"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-              </svg>
-            </button>
-            */}
+            {rerollButton}
+            <Link href={`/history/${relationshipId}`} className="ml-4 text-sm text-[var(--primary-dark)] hover:underline">
+              Past boards
+            </Link>
           </div>
         </div>
         
@@ -83,17 +101,10 @@ export default function DailyMemories({ memories, isLoading, relationshipId }: D
         <h2 className="font-serif text-2xl">Today's Memory Gems</h2>
         <div className="flex items-center">
           <span className="font-script text-xl text-[var(--primary-dark)]">{formatDate(today)}</span>
-          {/* Reroll button hidden as requested but code kept for future use
-          <button
-            onClick={handleReroll}
-            className="ml-4 p-2 bg-[var(--primary-light)] text-[var(--primary-dark)] rounded-full hover:bg-[var(--primary)] hover:text-white transition-colors"
-            title="Refresh memory selection"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-            </svg>
-          </button>
-          */}
+          {rerollButton}
+          <Link href={`/history/${relationshipId}`} className="ml-4 text-sm text-[var(--primary-dark)] hover:underline">
+            Past boards
+          </Link>
         </div>
       </div>
       
@@ -104,6 +115,8 @@ export default function DailyMemories({ memories, isLoading, relationshipId }: D
             memory={memory}
             tapePosition={index % 4}
             relationshipId={relationshipId}
+            yearsAgoToday={getYearsAgoToday(getDayKey(new Date(memory.createdAt), timeZone), todayKey)}
+            gift={gifts.find(gift => gift.memoryId === memory.id)}
           />
         ))}
       </div>
@@ -2,12 +2,12 @@ import { useState, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useCreateMemory, useUserDailyUploadStatus } from "../hooks/use-memories";
+import { useCreateMemory, useUserUploadStatus } from "../hooks/use-memories";
 import { useUserRelationship } from "../hooks/use-relationship";
 import { useCreateRelationship } from "../hooks/use-relationship";
-import { Memory } from "@/lib/firebase-service";
+import type { Memory } from "@/lib/firebase-service";
 import { useToast } from "@/hooks/use-toast";
-import { auth } from "@/lib/firebase";
+import { getQuotaExceededMessage } from "@shared/quota";
 import AudioRecorder from "./audio-recorder";
 
 // Form schema with conditional validation
@@ -39,8 +39,9 @@ export default function DailyUpload({ userId, relationshipId, memories }: DailyU
   const { mutate: createMemory, isPending } = useCreateMemory();
   const { mutate: createRelationship, isPending: isCreatingRelationship } = useCreateRelationship();
   
-  // Check if user has already uploaded a memory today for this relationship
-  const { data: dailyUploadStatus } = useUserDailyUploadStatus(userId, relationshipId || null);
+  // Check how much of the relationship's upload quota the user has left
+  const { data: uploadStatus } = useUserUploadStatus(userId, relationshipId || null);
+  const isWeeklyQuota = uploadStatus?.allowance.period === "week";
   
   const form = useForm<MemoryFormValues>({
     resolver: zodResolver(memorySchema),
@@ -247,22 +248,17 @@ export default function DailyUpload({ userId, relationshipId, memories }: DailyU
     
     console.log("SUBMIT DEBUG: Using relationship ID:", relationshipId);
     
-    // TEMPORARILY DISABLED FOR DEBUGGING
-    // Check if the user has already uploaded today
-    // if (dailyUploadStatus?.hasUploaded) {
-    //   toast({
-    //     title: "Already uploaded today",
-    //     description: "You've already shared a memory today. Come back tomorrow!",
-    //     variant: "destructive",
-    //   });
-    //   return;
-    // }
-    console.log("Upload limit temporarily disabled for debugging");
-    
-    // Get user ID from Firebase
-    const firebaseUid = auth.currentUser?.uid;
+    // Quick check so we don't bother uploading; createMemory enforces the limit for real
+    if (uploadStatus?.limitReached) {
+      toast({
+        title: isWeeklyQuota ? "Already shared this week" : "Already shared today",
+        description: getQuotaExceededMessage(uploadStatus.allowance),
+        variant: "destructive",
+      });
+      return;
+    }
     
-    if (!firebaseUid) {
+    if (!userId) {
       console.log("SUBMIT DEBUG: User not logged in");
       toast({
         title: "Authentication Error",
@@ -272,7 +268,7 @@ export default function DailyUpload({ userId, relationshipId, memories }: DailyU
       return;
     }
     
-    console.log("SUBMIT DEBUG: User authenticated with ID:", firebaseUid);
+    console.log("SUBMIT DEBUG: User authenticated with ID:", userId);
     
     // Determine the correct memory type based on the current memory type and whether a file is selected
     const actualMemoryType = file ? memoryType : "text";
@@ -288,7 +284,7 @@ export default function DailyUpload({ userId, relationshipId, memories }: DailyU
     
     // Prepare memory data with correct file handling
     const memoryData = {
-      userId: firebaseUid,
+      userId: userId,
       relationshipId,
       type: actualMemoryType,
       content: contentValue,
@@ -297,7 +293,7 @@ export default function DailyUpload({ userId, relationshipId, memories }: DailyU
     };
     
     console.log("SUBMIT DEBUG: Prepared memory data:", {
-      userId: firebaseUid,
+      userId: userId,
       relationshipId,
       type: actualMemoryType,
       contentLength: data.content?.length || 0,
@@ -334,32 +330,44 @@ export default function DailyUpload({ userId, relationshipId, memories }: DailyU
         ) : (
           <>
             <h2 className="font-serif text-2xl mb-4 text-center">Today's Memory</h2>
-            {!dailyUploadStatus?.hasUploaded && (
+            {!uploadStatus?.limitReached && (
               <p className="font-script text-xl text-center mb-6 text-[var(--charcoal)]/80">
                 What's your special moment today?
               </p>
             )}
-            {dailyUploadStatus?.hasUploaded && dailyUploadStatus.todaysMemory && (
+            {uploadStatus && !uploadStatus.limitReached && uploadStatus.remaining === null && (
+              <p className="text-sm text-center -mt-4 mb-5 text-[var(--charcoal)]/70">
+                No limit today. Share as many memories as you like!
+              </p>
+            )}
+            {uploadStatus && !uploadStatus.limitReached && uploadStatus.allowance.limit !== null && uploadStatus.allowance.limit > 1 && (
+              <p className="text-sm text-center -mt-4 mb-5 text-[var(--charcoal)]/70">
+                {uploadStatus.remaining} of {uploadStatus.allowance.limit} left {isWeeklyQuota ? "this week" : "today"}
+              </p>
+            )}
+            {uploadStatus?.limitReached && uploadStatus.latestMemory && (
               <p className="text-sm text-center mb-5 text-[var(--charcoal)]/70">
-                <span className="font-medium">Today's shared memory:</span> "{dailyUploadStatus.todaysMemory.content}"
+                <span className="font-medium">Your latest memory:</span> "{uploadStatus.latestMemory.content}"
               </p>
             )}
           </>
         )}
         
-        {/* Show confirmation card if user already uploaded, or the form if not */}
-        {dailyUploadStatus?.hasUploaded ? (
-          // If the user has already uploaded today, show a simple card instead of the form
+        {/* Show confirmation card if the quota is used up, or the form if not */}
+        {uploadStatus?.limitReached ? (
+          // If the user has no uploads left, show a simple card instead of the form
           <div className="flex flex-col items-center justify-center mt-4">
             <div className="bg-white/80 rounded-lg p-4 w-full max-w-xs shadow-sm border border-[var(--primary)]/10">
               <div className="flex items-center space-x-3 justify-center">
                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor" className="w-6 h-6 text-[var(--primary)]">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M9 12.75L11.25 15 15 9.75M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                <span className="font-medium">Memory shared today!</span>
+                <span className="font-medium">{isWeeklyQuota ? "Memories shared this week!" : "Memory shared today!"}</span>
               </div>
             </div>
-            <p className="text-sm text-gray-500 mt-3">You can upload a new memory tomorrow</p>
+            <p className="text-sm text-gray-500 mt-3">
+              {isWeeklyQuota ? "You can upload new memories on Monday" : "You can upload a new memory tomorrow"}
+            </p>
           </div>
         ) : (
           <form onSubmit={handleFormSubmit} className="space-y-4">
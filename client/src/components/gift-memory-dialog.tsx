@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { MAX_GIFT_NOTE_LENGTH } from "@shared/schema";
+import type { Memory } from "@/lib/firebase-service";
+import { useGiftMemory } from "@/hooks/use-memories";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+
+interface GiftMemoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  memory: Memory;
+  relationshipId: number;
+}
+
+export default function GiftMemoryDialog({ isOpen, onClose, memory, relationshipId }: GiftMemoryDialogProps) {
+  const [note, setNote] = useState("");
+  const { user } = useAuth();
+  const giftMemory = useGiftMemory();
+  
+  const handleGift = () => {
+    if (!user?.uid) return;
+    
+    giftMemory.mutate({
+      memoryId: String(memory.id),
+      relationshipId,
+      userId: user.uid,
+      note: note.trim() || null,
+    }, {
+      onSuccess: () => {
+        setNote("");
+        onClose();
+      },
+    });
+  };
+  
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Gift this memory</DialogTitle>
+          <DialogDescription>
+            It gets a guaranteed place on tomorrow's board. You can gift one memory a day.
+          </DialogDescription>
+        </DialogHeader>
+        
+        <div className="space-y-2 pt-2">
+          <Textarea
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Add a note (optional)"
+            maxLength={MAX_GIFT_NOTE_LENGTH}
+          />
+          <p className="text-xs text-right text-[var(--charcoal)]/60">
+            {note.length}/{MAX_GIFT_NOTE_LENGTH}
+          </p>
+        </div>
+        
+        <DialogFooter>
+          <Button onClick={handleGift} disabled={giftMemory.isPending}>
+            {giftMemory.isPending ? "Gifting..." : "Gift for tomorrow"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,10 @@
 import { useState } from "react";
-import { logOut } from "../lib/firebase";
+import { logOutCurrentUser } from "@/lib/session-auth";
 import { useToast } from "@/hooks/use-toast";
 import { Relationship } from "@shared/schema";
-import { useMarkMemoriesAsViewed } from "@/hooks/use-memories";
-import { queryClient } from "@/lib/queryClient";
 import UserSettingsModal from "./user-settings-modal";
+import RelationshipSettingsModal from "./relationship-settings-modal";
+import NotificationMenu from "./notification-menu";
 import SouvellaLogo from "../components/logo";
 import { useLocation } from "wouter";
 import {
@@ -17,29 +17,25 @@ import {
 
 interface HeaderProps {
   userName: string;
-  notifications: number;
   photoURL?: string;
   relationship?: Relationship | null;
   onShowInvite?: () => void;
-  onViewNotifications?: () => void;
 }
 
 export default function Header({ 
   userName, 
-  notifications, 
   photoURL, 
   relationship, 
-  onShowInvite,
-  onViewNotifications
+  onShowInvite
 }: HeaderProps) {
   const { toast } = useToast();
   const [showSettings, setShowSettings] = useState(false);
-  const markAsViewed = useMarkMemoriesAsViewed(relationship?.id || null);
+  const [showRelationshipSettings, setShowRelationshipSettings] = useState(false);
   const [, navigate] = useLocation();
   
   const handleLogout = async () => {
     try {
-      await logOut();
+      await logOutCurrentUser();
       // Navigate to login screen after logout
       navigate("/");
       toast({
@@ -55,28 +51,6 @@ export default function Header({
     }
   };
 
-  const handleNotificationClick = () => {
-    // Mark memories as viewed when notifications are clicked
-    if (relationship?.id && notifications > 0) {
-      markAsViewed.mutate(undefined, {
-        onSuccess: () => {
-          // Immediately invalidate the query to update the badge count
-          queryClient.invalidateQueries({ queryKey: ["newMemories", relationship.id] });
-          
-          // Call the parent callback if provided
-          if (onViewNotifications) {
-            onViewNotifications();
-          }
-          
-          toast({
-            title: "Notifications Cleared",
-            description: "All new memories have been marked as read",
-          });
-        }
-      });
-    }
-  };
-
   return (
     <header className="bg-white/80 backdrop-blur-sm shadow-sm sticky top-0 z-40">
       <div className="container mx-auto px-4 py-3 flex items-center justify-between">
@@ -102,6 +76,10 @@ export default function Header({
                       Profile Settings
                     </DropdownMenuItem>
                     
+                    <DropdownMenuItem onClick={() => setShowRelationshipSettings(true)}>
+                      Relationship Settings
+                    </DropdownMenuItem>
+                    
                     {onShowInvite && (
                       <DropdownMenuItem onClick={onShowInvite}>
                         Share Invite Code
@@ -123,21 +101,7 @@ export default function Header({
             </DropdownMenu>
           </div>
           
-          <button 
-            className="daily-reminder p-2 bg-[var(--secondary)]/40 rounded-full hover:bg-[var(--secondary)]/70 transition-all relative"
-            onClick={handleNotificationClick}
-            aria-label={notifications > 0 ? `${notifications} new memories` : "No new notifications"}
-            title={notifications > 0 ? `${notifications} new memories` : "No new notifications"}
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor" className="w-6 h-6">
-              <path strokeLinecap="round" strokeLinejoin="round" d="M14.857 17.082a23.848 23.848 0 005.454-1.31A8.967 8.967 0 0118 9.75v-.7V9A6 6 0 006 9v.75a8.967 8.967 0 01-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 01-5.714 0m5.714 0a3 3 0 11-5.714 0" />
-            </svg>
-            {notifications > 0 && (
-              <span className="absolute -top-1 -right-1 bg-[var(--primary)] w-5 h-5 rounded-full text-xs flex items-center justify-center text-white animate-pulse">
-                {notifications}
-              </span>
-            )}
-          </button>
+          <NotificationMenu />
           
           <button 
             onClick={() => relationship && setShowSettings(true)}
@@ -155,11 +119,18 @@ export default function Header({
       </div>
       
       {relationship && (
-        <UserSettingsModal 
-          isOpen={showSettings} 
-          onClose={() => setShowSettings(false)} 
-          relationshipId={relationship.id} 
-        />
+        <>
+          <UserSettingsModal 
+            isOpen={showSettings} 
+            onClose={() => setShowSettings(false)} 
+            relationshipId={relationship.id} 
+          />
+          <RelationshipSettingsModal
+            isOpen={showRelationshipSettings}
+            onClose={() => setShowRelationshipSettings(false)}
+            relationship={relationship}
+          />
+        </>
       )}
     </header>
   );
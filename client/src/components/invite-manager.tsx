@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useCreateInvite, useRevokeInvite } from "@/hooks/use-relationship";
+import type { InviteInfo } from "@/lib/relationship-service";
+import { InviteStatus } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface InviteManagerProps {
+  relationshipId: number;
+  invites: InviteInfo[];
+}
+
+// Select values are strings; "never"/"unlimited" map to null
+const EXPIRY_OPTIONS = [
+  { value: "24", label: "Expires in 24 hours" },
+  { value: "72", label: "Expires in 3 days" },
+  { value: "168", label: "Expires in 7 days" },
+  { value: "never", label: "Never expires" },
+];
+
+const USES_OPTIONS = [
+  { value: "1", label: "Single use" },
+  { value: "5", label: "Up to 5 uses" },
+  { value: "unlimited", label: "Unlimited uses" },
+];
+
+const STATUS_LABELS: Record<InviteStatus, string> = {
+  valid: "Active",
+  expired: "Expired",
+  revoked: "Revoked",
+  used_up: "Used",
+};
+
+// Owner-only controls to issue fresh invites and revoke old ones
+export default function InviteManager({ relationshipId, invites }: InviteManagerProps) {
+  const { user } = useAuth();
+  const [expiry, setExpiry] = useState("72");
+  const [uses, setUses] = useState("1");
+
+  const { mutate: createInvite, isPending: isCreating } = useCreateInvite();
+  const { mutate: revokeInvite, isPending: isRevoking } = useRevokeInvite();
+
+  const handleCreate = () => {
+    if (!user) return;
+
+    createInvite({
+      relationshipId,
+      uid: user.uid,
+      inviterName: user.displayName,
+      options: {
+        expiresInHours: expiry === "never" ? null : Number(expiry),
+        maxUses: uses === "unlimited" ? null : Number(uses),
+      },
+    });
+  };
+
+  const describeInvite = (invite: InviteInfo) => {
+    if (invite.status !== "valid") {
+      return STATUS_LABELS[invite.status];
+    }
+
+    const parts = [STATUS_LABELS.valid];
+    if (invite.expiresAt) {
+      parts.push(`until ${invite.expiresAt.toLocaleString()}`);
+    }
+    if (invite.maxUses !== null) {
+      parts.push(`${invite.maxUses - invite.useCount} use(s) left`);
+    }
+    return parts.join(" · ");
+  };
+
+  return (
+    <div className="space-y-3 border-t border-gray-100 pt-4">
+      <h4 className="font-medium text-sm">Issue a new invite</h4>
+      <div className="flex gap-2">
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger className="flex-1 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPIRY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={uses} onValueChange={setUses}>
+          <SelectTrigger className="flex-1 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {USES_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <button
+        onClick={handleCreate}
+        disabled={isCreating}
+        className="w-full py-2 rounded-xl border border-[var(--primary)] text-[var(--primary-dark)] text-sm font-medium hover:bg-[var(--primary-light)]/30 transition"
+      >
+        {isCreating ? "Creating..." : "Create invite"}
+      </button>
+
+      {invites.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto divide-y divide-gray-100 text-sm">
+          {invites.map((invite) => (
+            <li key={invite.code} className="flex items-center justify-between py-2">
+              <div>
+                <span className="font-mono">{invite.code}</span>
+                <span className="block text-xs text-[var(--charcoal)]/60">{describeInvite(invite)}</span>
+              </div>
+              {invite.status === "valid" && (
+                <button
+                  onClick={() => user && revokeInvite({ code: invite.code, uid: user.uid, relationshipId })}
+                  disabled={isRevoking}
+                  className="text-xs text-red-600 hover:underline"
+                >
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,15 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "../hooks/use-auth";
-import { useCreateRelationship, useJoinRelationship, useUserRelationship } from "../hooks/use-relationship";
+import { 
+  useCreateRelationship, 
+  useJoinRelationship, 
+  useUserRelationship,
+  useRelationshipRole,
+  useRelationshipInvites
+} from "../hooks/use-relationship";
+import InviteManager from "./invite-manager";
+import { QRCodeSVG } from "qrcode.react";
+import { getInviteLink } from "@/lib/pending-invite";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -10,6 +19,8 @@ interface InvitePartnerModalProps {
   isOpen: boolean;
   onClose: () => void;
   inviteCode: string;
+  // Relationship the code belongs to; defaults to the user's primary relationship
+  relationshipId?: number;
 }
 
 const inviteSchema = z.object({
@@ -18,8 +29,14 @@ const inviteSchema = z.object({
 
 type InviteFormValues = z.infer<typeof inviteSchema>;
 
-export default function InvitePartnerModal({ isOpen, onClose, inviteCode: propInviteCode }: InvitePartnerModalProps) {
+export default function InvitePartnerModal({ 
+  isOpen, 
+  onClose, 
+  inviteCode: propInviteCode,
+  relationshipId: propRelationshipId
+}: InvitePartnerModalProps) {
   const [copied, setCopied] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
   const [viewMode, setViewMode] = useState<"share" | "join">(propInviteCode ? "share" : "join");
   const { user } = useAuth();
   
@@ -34,7 +51,17 @@ export default function InvitePartnerModal({ isOpen, onClose, inviteCode: propIn
     }
   }, [isOpen, user?.uid, refetch]);
   
-  const inviteCode = relationship?.inviteCode || propInviteCode;
+  const relationshipId = propRelationshipId ?? relationship?.id ?? null;
+  
+  // Only the owner can issue and revoke invites
+  const { data: role } = useRelationshipRole(user?.uid || null, relationshipId);
+  const { data: invites = [] } = useRelationshipInvites(relationshipId, isOpen);
+  
+  // Share the newest active invite; the legacy relationship code only
+  // works until the first invite has been issued
+  const legacyCode = propRelationshipId ? propInviteCode : relationship?.inviteCode || propInviteCode;
+  const activeInvite = invites.find(invite => invite.status === "valid");
+  const inviteCode = activeInvite?.code || (invites.length === 0 ? legacyCode : "");
   
   // Update viewMode when relationship/inviteCode changes
   useEffect(() => {
@@ -54,6 +81,14 @@ export default function InvitePartnerModal({ isOpen, onClose, inviteCode: propIn
     },
   });
 
+  const copyLinkToClipboard = () => {
+    if (inviteCode) {
+      navigator.clipboard.writeText(getInviteLink(inviteCode));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    }
+  };
+
   const copyToClipboard = () => {
     if (inviteCode) {
       navigator.clipboard.writeText(inviteCode);
@@ -65,7 +100,7 @@ export default function InvitePartnerModal({ isOpen, onClose, inviteCode: propIn
   const handleCreateRelationship = async () => {
     if (user) {
       try {
-        const result = await createRelationship(user.uid);
+        const result = await createRelationship({ uid: user.uid });
         // Force a refetch after creation to ensure we have the latest data
         queryClient.invalidateQueries({ queryKey: ["relationships/user", user.uid] });
       } catch (error) {
@@ -108,12 +143,16 @@ export default function InvitePartnerModal({ isOpen, onClose, inviteCode: propIn
         <div className="text-center mb-6">
           <h3 className="font-serif text-2xl mb-2">
             {viewMode === "share" 
-              ? (inviteCode ? "Invite Your Partner" : "Create Relationship") 
+              ? (inviteCode || relationshipId ? "Invite Your Partner" : "Create Relationship") 
               : "Join a Relationship"}
           </h3>
           <p className="text-[var(--charcoal)]/70">
             {viewMode === "share" 
-              ? (inviteCode ? "Share this code with your partner to start your memory journey together!" : "Create a relationship to start sharing memories")
+              ? (inviteCode 
+                ? "Share this code with your partner to start your memory journey together!" 
+                : relationshipId 
+                  ? (role === "owner" ? "Create an invite to share with your partner" : "Ask the relationship owner for a new invite")
+                  : "Create a relationship to start sharing memories")
               : "Enter the invite code from your partner"}
           </p>
         </div>
@@ -137,13 +176,26 @@ export default function InvitePartnerModal({ isOpen, onClose, inviteCode: propIn
                   </button>
                 </div>
                 
+                {/* Scan in person, or send the link */}
+                <div className="flex flex-col items-center mb-6">
+                  <div className="bg-white p-3 rounded-lg shadow-sm">
+                    <QRCodeSVG value={getInviteLink(inviteCode)} size={160} />
+                  </div>
+                  <button 
+                    onClick={copyLinkToClipboard}
+                    className="mt-2 text-sm text-[var(--primary-dark)] font-medium hover:underline"
+                  >
+                    {linkCopied ? "Link copied!" : "Copy invite link"}
+                  </button>
+                </div>
+                
                 <div className="space-y-3">
                   <div className="mb-4 bg-[var(--primary-light)]/30 p-4 rounded-lg text-sm">
                     <h4 className="font-medium mb-1">How to invite your partner:</h4>
                     <ol className="list-decimal pl-5 space-y-1 text-[var(--charcoal)]/80">
-                      <li>Copy the invite code above</li>
-                      <li>Share it with your partner via any method you prefer</li>
-                      <li>Ask them to sign up and enter this code to join your relationship</li>
+                      <li>Let your partner scan the QR code, or send them the invite link</li>
+                      <li>They'll see who invited them and can sign in or sign up</li>
+                      <li>Once signed in, they join your relationship automatically</li>
                     </ol>
                   </div>
                   
@@ -167,8 +219,14 @@ export default function InvitePartnerModal({ isOpen, onClose, inviteCode: propIn
                       </>
                     )}
                   </button>
+                  
+                  {role === "owner" && relationshipId && (
+                    <InviteManager relationshipId={relationshipId} invites={invites} />
+                  )}
                 </div>
               </>
+            ) : relationshipId ? (
+              role === "owner" && <InviteManager relationshipId={relationshipId} invites={invites} />
             ) : (
               <button 
                 onClick={handleCreateRelationship}
@@ -1,33 +1,104 @@
 import { useState } from "react";
 import { formatDate, getTapePosition } from "../lib/utils";
-import { Memory } from "@/lib/firebase-service";
-import { useReactToMemory, useRemainingThumbsUp } from "../hooks/use-memories";
+import type { Memory, MemoryGift } from "@/lib/firebase-service";
+import { useReactToMemory, useRemoveReaction, useTodaysReactionTypes, useRemainingReactions, useSetMemoryRetired, useGiftedToday, useMemoryReactors, useReadReceipts } from "../hooks/use-memories";
 import { useAuth } from "../hooks/use-auth";
 import { useUserNickname } from "@/hooks/use-relationship-settings";
+import { SELECTION_REASON_LABELS } from "@shared/selection";
+import { ReactionType, REACTION_EMOJI, REACTION_LABELS } from "@shared/reactions";
+import { Popover, PopoverTrigger, PopoverContent } from "@/components/ui/popover";
 import AudioPlayer from "./audio-player";
+import GiftMemoryDialog from "./gift-memory-dialog";
+import MemoryComments from "./memory-comments";
 
 interface MemoryCardProps {
   memory: Memory;
   tapePosition: number;
   relationshipId: number;
+  yearsAgoToday?: number | null; // Set on the daily board for "on this day" memories
+  gift?: MemoryGift | null; // Set on the daily board when a member hand-picked the memory
+  commentCount?: number; // Set on the timeline
 }
 
-export default function MemoryCard({ memory, tapePosition, relationshipId }: MemoryCardProps) {
+// A member's nickname; each needs its own lookup, hence the component
+function MemberName({ userId, relationshipId }: { userId: string; relationshipId: number }) {
+  const { user } = useAuth();
+  const { data: nickname } = useUserNickname(userId, relationshipId);
+
+  if (userId === user?.uid) {
+    return <>you</>;
+  }
+
+  return <>{nickname || `Partner ${userId.substring(0, 4)}`}</>;
+}
+
+// "you, Sam and Alex"
+function MemberNames({ userIds, relationshipId }: { userIds: string[]; relationshipId: number }) {
+  return (
+    <>
+      {userIds.map((userId, index) => (
+        <span key={userId}>
+          {index > 0 && (index === userIds.length - 1 ? " and " : ", ")}
+          <MemberName userId={userId} relationshipId={relationshipId} />
+        </span>
+      ))}
+    </>
+  );
+}
+
+export default function MemoryCard({ memory, tapePosition, relationshipId, yearsAgoToday = null, gift = null, commentCount }: MemoryCardProps) {
   const [isPlaying, setIsPlaying] = useState(false);
-  const { mutate: reactToMemory, isPending } = useReactToMemory();
+  const [isGiftDialogOpen, setIsGiftDialogOpen] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const { mutate: reactToMemory, isPending: isReacting } = useReactToMemory();
+  const { mutate: removeReaction, isPending: isRemovingReaction } = useRemoveReaction();
+  const { mutate: setMemoryRetired, isPending: isRetiring } = useSetMemoryRetired();
   const { user } = useAuth();
-  const { data: remainingThumbsUp = 0 } = useRemainingThumbsUp(user?.uid || null, relationshipId);
+  const { data: remainingReactions } = useRemainingReactions(user?.uid || null, relationshipId);
+  const { data: giftedToday = true } = useGiftedToday(user?.uid || null, relationshipId);
+  const { data: reactors = [] } = useMemoryReactors(String(memory.id), relationshipId);
+  const { data: todaysReactionTypes = [] } = useTodaysReactionTypes(String(memory.id), user?.uid || null, relationshipId);
+  const { data: readReceipts = {} } = useReadReceipts(relationshipId);
   
   // Get the author's nickname if available
   const { data: authorNickname } = useUserNickname(memory.userId, relationshipId);
+  const { data: retiredByNickname } = useUserNickname(memory.retiredBy, relationshipId);
+  const { data: giftedByNickname } = useUserNickname(gift?.fromUserId || null, relationshipId);
+  const isRetired = memory.retiredAt !== null;
+  const reactedTypes = ReactionType.options.filter(type => memory.reactionCounts[type] > 0);
+  // Read receipts are only shown to the author
+  const seenBy = memory.userId === user?.uid
+    ? Object.keys(readReceipts).filter(userId =>
+        userId !== memory.userId && readReceipts[userId] >= memory.createdAt
+      )
+    : [];
+
+  // A type already left today is taken back; any other is added
+  const handleReact = (type: ReactionType) => {
+    if (!user?.uid) return;
+    
+    const reaction = {
+      memoryId: String(memory.id),
+      relationshipId,
+      userId: user.uid,
+      type
+    };
+    
+    if (todaysReactionTypes.includes(type)) {
+      removeReaction(reaction);
+    } else {
+      reactToMemory(reaction);
+    }
+  };
 
-  const handleThumbsUp = () => {
+  const handleToggleRetired = () => {
     if (!user?.uid) return;
     
-    reactToMemory({ 
+    setMemoryRetired({
       memoryId: String(memory.id),
       relationshipId,
-      userId: user.uid
+      userId: user.uid,
+      retired: !isRetired
     });
   };
 
@@ -85,59 +156,160 @@ export default function MemoryCard({ memory, tapePosition, relationshipId }: Mem
 
   const tapeClass = getTapePosition(tapePosition);
 
+  // Daily board memories carry the draw's reasoning
+  const selectionInfo = memory.selection && (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="text-xs text-[var(--charcoal)]/50 hover:text-[var(--charcoal)] transition-colors"
+          title="Why am I seeing this?"
+        >
+          Why this?
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 text-sm">
+        <p className="font-medium mb-2">Why am I seeing this?</p>
+        <p className="text-[var(--charcoal)]/80 mb-3">{SELECTION_REASON_LABELS[memory.selection.reason]}</p>
+        <dl className="grid grid-cols-2 gap-y-1 text-xs text-[var(--charcoal)]/70">
+          <dt>Weight</dt>
+          <dd className="text-right">{memory.selection.weight.toFixed(2)}</dd>
+          <dt>Chance when drawn</dt>
+          <dd className="text-right">{Math.round(memory.selection.probability * 100)}%</dd>
+        </dl>
+      </PopoverContent>
+    </Popover>
+  );
+
   return (
-    <div className="memory-card relative bg-white rounded-xl shadow-md p-5 overflow-hidden">
+    <div className={`memory-card relative bg-white rounded-xl shadow-md p-5 overflow-hidden ${isRetired ? "opacity-75" : ""}`}>
       <div className={`tape w-24 ${tapeClass}`}></div>
       
+      {gift && (
+        <div className="-mx-5 -mt-5 mb-4 px-5 py-2 bg-[var(--primary-light)] text-[var(--primary-dark)] text-sm">
+          <span className="font-medium">
+            Picked by {giftedByNickname || `Partner ${gift.fromUserId.substring(0, 4)}`}
+          </span>
+          {gift.note && (
+            <p className="font-script text-base mt-0.5">"{gift.note}"</p>
+          )}
+        </div>
+      )}
+      
       <div className="mb-3 flex justify-between items-start">
         <div className="flex flex-col">
           <span className="font-script text-lg text-[var(--primary-dark)]">
             {formatDate(new Date(memory.createdAt))}
           </span>
+          {yearsAgoToday !== null && (
+            <span className="self-start text-xs font-medium bg-[var(--accent)]/30 text-[var(--charcoal)] py-0.5 px-2 rounded-full mt-1">
+              {yearsAgoToday === 1 ? "1 year ago today" : `${yearsAgoToday} years ago today`}
+            </span>
+          )}
+          {isRetired && (
+            <span
+              className="self-start text-xs text-[var(--charcoal)]/60 border border-dashed border-[var(--charcoal)]/30 py-0.5 px-2 rounded-full mt-1"
+              title={`Retired ${formatDate(new Date(memory.retiredAt!))}`}
+            >
+              Out of rotation{retiredByNickname ? ` · retired by ${retiredByNickname}` : ""}
+            </span>
+          )}
           {/* Display author nickname or user ID */}
           <span className="text-xs text-[var(--charcoal)]/70 mt-1">
             From: {authorNickname || `Partner ${memory.userId.substring(0, 4)}`}
           </span>
         </div>
-        <span className="like-badge flex items-center space-x-1 text-sm bg-[var(--secondary)]/40 py-1 px-2 rounded-full">
-          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor" className="w-4 h-4">
-            <path strokeLinecap="round" strokeLinejoin="round" d="M6.633 10.5c.806 0 1.533-.446 2.031-1.08a9.041 9.041 0 012.861-2.4c.723-.384 1.35-.956 1.653-1.715a4.498 4.498 0 00.322-1.672V3a.75.75 0 01.75-.75A2.25 2.25 0 0116.5 4.5c0 1.152-.26 2.243-.723 3.218-.266.558.107 1.282.725 1.282h3.126c1.026 0 1.945.694 2.054 1.715.045.422.068.85.068 1.285a11.95 11.95 0 01-2.649 7.521c-.388.482-.987.729-1.605.729H13.48c-.483 0-.964-.078-1.423-.23l-3.114-1.04a4.501 4.501 0 00-1.423-.23H5.904M14.25 9h2.25M5.904 18.75c.083.205.173.405.27.602.197.4-.078.898-.523.898h-.908c-.889 0-1.713-.518-1.972-1.368a12 12 0 01-.521-3.507c0-1.553.295-3.036.831-4.398C3.387 10.203 4.167 9.75 5 9.75h1.053c.472 0 .745.556.5.96a8.958 8.958 0 00-1.302 4.665c0 1.194.232 2.333.654 3.375z" />
-          </svg>
-          <span>{memory.thumbsUpCount}</span>
-        </span>
+        {reactedTypes.length > 0 && (
+          <span className="like-badge flex items-center space-x-2 text-sm bg-[var(--secondary)]/40 py-1 px-2 rounded-full">
+            {reactedTypes.map((type) => (
+              <span key={type} title={REACTION_LABELS[type]}>
+                {REACTION_EMOJI[type]} {memory.reactionCounts[type]}
+              </span>
+            ))}
+          </span>
+        )}
       </div>
       
       {renderMemoryContent()}
       
+      {reactors.length > 0 && (
+        <p className="text-xs text-[var(--charcoal)]/60 mb-3">
+          Reactions from <MemberNames userIds={reactors} relationshipId={relationshipId} />
+        </p>
+      )}
+      
+      {seenBy.length > 0 && (
+        <p className="text-xs text-[var(--charcoal)]/60 mb-3">
+          Seen by <MemberNames userIds={seenBy} relationshipId={relationshipId} />
+        </p>
+      )}
+      
       <div className="flex justify-end space-x-2 items-center">
-        {remainingThumbsUp > 0 && (
-          <span className="text-xs text-[var(--accent-dark)] font-medium">
-            {remainingThumbsUp} {remainingThumbsUp === 1 ? 'thumb up' : 'thumbs up'} left today
-          </span>
-        )}
-        <button
-          onClick={handleThumbsUp}
-          disabled={isPending || remainingThumbsUp <= 0}
-          className={`react-btn flex items-center space-x-1 py-1 px-3 rounded-full transition-colors ${
-            remainingThumbsUp > 0 
-              ? 'text-[var(--primary-dark)] hover:text-[var(--primary)]' 
-              : 'text-gray-400 cursor-not-allowed'
-          }`}
-          title={remainingThumbsUp <= 0 ? "You've used all your thumbs up for today" : "Love this memory"}
-        >
-          <svg 
-            xmlns="http://www.w3.org/2000/svg" 
-            fill={remainingThumbsUp > 0 ? "none" : "currentColor"} 
-            viewBox="0 0 24 24" 
-            strokeWidth="1.5" 
-            stroke="currentColor" 
-            className="w-5 h-5"
+        <div className="mr-auto flex items-center space-x-3">
+          <button
+            onClick={handleToggleRetired}
+            disabled={isRetiring}
+            className="text-xs text-[var(--charcoal)]/50 hover:text-[var(--charcoal)] transition-colors"
+            title={isRetired ? "Let this memory come up on the daily board again" : "Keep this memory off the daily board"}
           >
-            <path strokeLinecap="round" strokeLinejoin="round" d="M21 8.25c0-2.485-2.099-4.5-4.688-4.5-1.935 0-3.597 1.126-4.312 2.733-.715-1.607-2.377-2.733-4.313-2.733C5.1 3.75 3 5.765 3 8.25c0 7.22 9 12 9 12s9-4.78 9-12z" />
-          </svg>
-          <span>Love this</span>
-        </button>
+            {isRetired ? "Bring back" : "Retire"}
+          </button>
+          {selectionInfo}
+          <button
+            onClick={() => setShowComments(!showComments)}
+            className="text-xs text-[var(--charcoal)]/50 hover:text-[var(--charcoal)] transition-colors"
+          >
+            {commentCount ? `Comments (${commentCount})` : "Comments"}
+          </button>
+        </div>
+        {!isRetired && !giftedToday && (
+          <button
+            onClick={() => setIsGiftDialogOpen(true)}
+            className="text-xs text-[var(--primary-dark)] hover:text-[var(--primary)] transition-colors"
+            title="Give this memory a place on tomorrow's board"
+          >
+            Gift
+          </button>
+        )}
+        <div className="flex items-center">
+          {ReactionType.options.map((type) => {
+            const remaining = remainingReactions?.[type] ?? 0;
+            const reacted = todaysReactionTypes.includes(type);
+            
+            return (
+              <button
+                key={type}
+                onClick={() => handleReact(type)}
+                disabled={isReacting || isRemovingReaction || (!reacted && remaining <= 0)}
+                aria-pressed={reacted}
+                className={`react-btn py-1 px-2 rounded-full text-lg transition ${
+                  reacted ? 'bg-[var(--primary-light)] hover:bg-[var(--secondary)]/40'
+                    : remaining > 0 ? 'hover:bg-[var(--primary-light)]' : 'opacity-40 cursor-not-allowed'
+                }`}
+                title={reacted
+                  ? `Take back your ${REACTION_LABELS[type].toLowerCase()}`
+                  : remaining > 0
+                    ? `${REACTION_LABELS[type]} (${remaining} left today)`
+                    : `You've used all your ${REACTION_LABELS[type].toLowerCase()} reactions for today`}
+              >
+                {REACTION_EMOJI[type]}
+              </button>
+            );
+          })}
+        </div>
       </div>
+      
+      {showComments && (
+        <MemoryComments memoryId={String(memory.id)} relationshipId={relationshipId} />
+      )}
+      
+      {isGiftDialogOpen && (
+        <GiftMemoryDialog
+          isOpen={isGiftDialogOpen}
+          onClose={() => setIsGiftDialogOpen(false)}
+          memory={memory}
+          relationshipId={relationshipId}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { MAX_COMMENT_LENGTH } from "@shared/schema";
+import type { MemoryComment } from "@/lib/comment-service";
+import { useMemoryComments, useAddComment } from "@/hooks/use-comments";
+import { useAuth } from "@/hooks/use-auth";
+import { useUserNickname } from "@/hooks/use-relationship-settings";
+import { formatDate } from "../lib/utils";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Mic, X } from "lucide-react";
+import AudioPlayer from "./audio-player";
+import AudioRecorder from "./audio-recorder";
+
+interface MemoryCommentsProps {
+  memoryId: string;
+  relationshipId: number;
+}
+
+function CommentItem({ comment, relationshipId }: { comment: MemoryComment; relationshipId: number }) {
+  const { data: authorNickname } = useUserNickname(comment.userId, relationshipId);
+
+  return (
+    <li className="text-sm">
+      <div className="flex items-baseline justify-between">
+        <span className="font-medium">{authorNickname || `Partner ${comment.userId.substring(0, 4)}`}</span>
+        <span className="text-xs text-[var(--charcoal)]/50">{formatDate(comment.createdAt)}</span>
+      </div>
+      {comment.content && (
+        <p className="text-[var(--charcoal)]/90 whitespace-pre-wrap">{comment.content}</p>
+      )}
+      {comment.audioUrl && (
+        <div className="mt-1">
+          <AudioPlayer audioUrl={comment.audioUrl} />
+        </div>
+      )}
+    </li>
+  );
+}
+
+// A memory's comment thread, with a box to add to it
+export default function MemoryComments({ memoryId, relationshipId }: MemoryCommentsProps) {
+  const [content, setContent] = useState("");
+  const [voiceNote, setVoiceNote] = useState<File | null>(null);
+  const [showRecorder, setShowRecorder] = useState(false);
+  const { user } = useAuth();
+  const { data: comments = [], isLoading } = useMemoryComments(memoryId, user?.uid || null, relationshipId);
+  const addComment = useAddComment();
+
+  const handleAudioCaptured = (audioFile: File) => {
+    setVoiceNote(audioFile);
+    setShowRecorder(false);
+  };
+
+  const handleSubmit = () => {
+    if (!user?.uid) return;
+
+    addComment.mutate({
+      memoryId,
+      userId: user.uid,
+      relationshipId,
+      content,
+      audioFile: voiceNote,
+    }, {
+      onSuccess: () => {
+        setContent("");
+        setVoiceNote(null);
+      },
+    });
+  };
+
+  return (
+    <div className="border-t border-dashed border-gray-200 mt-4 pt-4 space-y-4">
+      {isLoading ? (
+        <p className="text-xs text-[var(--charcoal)]/60">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-xs text-[var(--charcoal)]/60">No comments yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {comments.map((comment) => (
+            <CommentItem key={comment.id} comment={comment} relationshipId={relationshipId} />
+          ))}
+        </ul>
+      )}
+
+      {showRecorder ? (
+        <AudioRecorder
+          onAudioCaptured={handleAudioCaptured}
+          onCancel={() => setShowRecorder(false)}
+        />
+      ) : (
+        <div className="space-y-2">
+          <Textarea
+            value={content}
+            onChange={(event) => setContent(event.target.value)}
+            placeholder="Write a comment"
+            maxLength={MAX_COMMENT_LENGTH}
+            rows={2}
+          />
+          {voiceNote && (
+            <div className="flex items-center justify-between text-xs bg-[var(--accent)]/20 rounded-md px-2 py-1">
+              <span>Voice note attached ({Math.round(voiceNote.size / 1024)}KB)</span>
+              <button onClick={() => setVoiceNote(null)} title="Remove voice note">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+          <div className="flex justify-between items-center">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowRecorder(true)}
+              disabled={addComment.isPending}
+            >
+              <Mic className="w-4 h-4 mr-1" />
+              {voiceNote ? "Record again" : "Voice note"}
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleSubmit}
+              disabled={addComment.isPending || (!content.trim() && !voiceNote)}
+            >
+              {addComment.isPending ? "Posting..." : "Post"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useSearch } from "wouter";
 import { getLastNMonths, formatDate, getTapePosition } from "../lib/utils";
-import { Memory } from "@/lib/firebase-service";
+import type { Memory } from "@/lib/firebase-service";
+import { useAuth } from "@/hooks/use-auth";
+import { useCommentCounts } from "@/hooks/use-comments";
 import MemoryCard from "./memory-card";
 
 interface MemoryTimelineProps {
@@ -20,6 +23,11 @@ export default function MemoryTimeline({
 }: MemoryTimelineProps) {
   const [activeMonth, setActiveMonth] = useState<Date>(new Date());
   const months = getLastNMonths(12);
+  const { user } = useAuth();
+  const { data: commentCounts = {} } = useCommentCounts(user?.uid || null, relationshipId);
+  // Set when a notification links to a memory
+  const focusedMemoryId = new URLSearchParams(useSearch()).get("memory");
+  const shownMemoryId = useRef<string | null>(null);
 
   // Filter memories by month
   const filteredMemories = memories.filter(memory => {
@@ -30,6 +38,28 @@ export default function MemoryTimeline({
     );
   });
 
+  // Show the linked memory's month (clearing a filter that hides it), once
+  // per link so browsing other months afterwards isn't undone
+  useEffect(() => {
+    if (!focusedMemoryId || isLoading || shownMemoryId.current === focusedMemoryId) return;
+
+    const focusedMemory = memories.find(memory => String(memory.id) === focusedMemoryId);
+
+    if (focusedMemory) {
+      shownMemoryId.current = focusedMemoryId;
+      setActiveMonth(new Date(focusedMemory.createdAt));
+    } else if (activeFilter !== "all") {
+      onFilterChange("all");
+    }
+  }, [focusedMemoryId, isLoading, memories, activeFilter, onFilterChange]);
+
+  // Then bring it into view once its month is showing
+  useEffect(() => {
+    if (!focusedMemoryId || shownMemoryId.current !== focusedMemoryId) return;
+
+    document.getElementById(`memory-${focusedMemoryId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [focusedMemoryId, activeMonth]);
+
   if (isLoading) {
     return (
       <section>
@@ -119,7 +149,7 @@ export default function MemoryTimeline({
       ) : (
         <div className="relative pb-12 before:content-[''] before:absolute before:top-0 before:bottom-0 before:left-4 sm:before:left-1/2 before:w-0.5 before:bg-[var(--primary)]/30">
           {filteredMemories.map((memory, index) => (
-            <div key={memory.id} className="relative mb-10">
+            <div key={memory.id} id={`memory-${memory.id}`} className="relative mb-10">
               <div className="absolute left-4 sm:left-1/2 -ml-3 sm:-ml-3 w-6 h-6 rounded-full bg-[var(--primary)] shadow-sm z-10"></div>
               
               <div className={`relative ml-12 sm:ml-0 ${index % 2 === 0 ? 'sm:mr-1/2 sm:pr-8' : 'sm:ml-1/2 sm:pl-8'}`}>
@@ -127,6 +157,7 @@ export default function MemoryTimeline({
                   memory={memory}
                   tapePosition={index}
                   relationshipId={relationshipId}
+                  commentCount={commentCounts[memory.id] ?? 0}
                 />
               </div>
             </div>
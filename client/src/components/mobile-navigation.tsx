@@ -1,6 +1,6 @@
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
-import { logOut } from "../lib/firebase";
+import { logOutCurrentUser } from "@/lib/session-auth";
 import { useToast } from "@/hooks/use-toast";
 import { 
   DropdownMenu,
@@ -41,7 +41,7 @@ export default function MobileNavigation({
   
   const handleLogout = async () => {
     try {
-      await logOut();
+      await logOutCurrentUser();
       navigate("/");
       toast({
         title: "Logged Out",
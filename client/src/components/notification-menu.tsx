@@ -0,0 +1,112 @@
+import { useLocation } from "wouter";
+import { getNotificationLink } from "@shared/schema";
+import { REACTION_EMOJI } from "@shared/reactions";
+import type { UserNotification } from "@/lib/notification-service";
+import { useNotifications, useMarkNotificationRead, useMarkAllNotificationsRead } from "@/hooks/use-notifications";
+import { useAuth } from "@/hooks/use-auth";
+import { useUserNickname } from "@/hooks/use-relationship-settings";
+import { formatDate } from "../lib/utils";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+// One line per notification; the actor's nickname needs its own lookup
+function NotificationText({ notification }: { notification: UserNotification }) {
+  const { data: nickname } = useUserNickname(notification.actorId, notification.relationshipId);
+  const actor = nickname || notification.actorName || "Your partner";
+
+  switch (notification.type) {
+    case "memory_uploaded":
+      return <>{actor} shared a new memory</>;
+    case "memory_reacted":
+      return (
+        <>
+          {actor} reacted {notification.reactionType ? REACTION_EMOJI[notification.reactionType] : ""} to your memory
+        </>
+      );
+    case "memory_commented":
+      return <>{actor} commented on a memory</>;
+    case "board_ready":
+      return <>Today's board is ready</>;
+    case "member_joined":
+      return <>{actor} joined your relationship</>;
+  }
+}
+
+// The header bell: unread count, and the feed behind it
+export default function NotificationMenu() {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const { data: notifications = [] } = useNotifications(user?.uid || null);
+  const markRead = useMarkNotificationRead(user?.uid || null);
+  const markAllRead = useMarkAllNotificationsRead(user?.uid || null);
+  const unreadCount = notifications.filter(notification => !notification.read).length;
+
+  const handleOpen = (notification: UserNotification) => {
+    markRead.mutate(notification);
+    navigate(getNotificationLink(notification));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        className="daily-reminder p-2 bg-[var(--secondary)]/40 rounded-full hover:bg-[var(--secondary)]/70 transition-all relative"
+        aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : "No new notifications"}
+        title={unreadCount > 0 ? `${unreadCount} unread notifications` : "No new notifications"}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor" className="w-6 h-6">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M14.857 17.082a23.848 23.848 0 005.454-1.31A8.967 8.967 0 0118 9.75v-.7V9A6 6 0 006 9v.75a8.967 8.967 0 01-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 01-5.714 0m5.714 0a3 3 0 11-5.714 0" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 bg-[var(--primary)] w-5 h-5 rounded-full text-xs flex items-center justify-center text-white animate-pulse">
+            {unreadCount}
+          </span>
+        )}
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent align="end" className="w-80 max-h-96 overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => markAllRead.mutate()}
+              disabled={markAllRead.isPending}
+              className="text-xs text-[var(--primary-dark)] hover:text-[var(--primary)] transition-colors px-2"
+            >
+              Mark all read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+
+        {notifications.length === 0 ? (
+          <p className="text-xs text-[var(--charcoal)]/60 px-2 py-3">Nothing new yet.</p>
+        ) : (
+          notifications.map((notification) => (
+            <DropdownMenuItem
+              key={`${notification.source}-${notification.id}`}
+              onClick={() => handleOpen(notification)}
+              className="flex items-start space-x-2 cursor-pointer"
+            >
+              <span
+                className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${notification.read ? "bg-transparent" : "bg-[var(--primary)]"}`}
+                aria-label={notification.read ? undefined : "Unread"}
+              />
+              <div className="flex-1">
+                <p className={`text-sm ${notification.read ? "text-[var(--charcoal)]/70" : "font-medium"}`}>
+                  <NotificationText notification={notification} />
+                </p>
+                <p className="text-xs text-[var(--charcoal)]/50">{formatDate(notification.createdAt)}</p>
+              </div>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -19,7 +19,7 @@ export default function RelationshipDashboard({ userId, onRelationshipCreated }:
   const handleCreateRelationship = async () => {
     try {
       // Wait for the relationship to be created
-      const newRelationship = await createRelationship(userId);
+      const newRelationship = await createRelationship({ uid: userId });
       
       // Call the callback right away with the invite code now in the queryCache
       if (onRelationshipCreated) {
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { DepartureMemoryPolicy, Relationship } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  useRelationshipMembers,
+  useRelationshipRole,
+  useLeaveRelationship,
+  useRemoveMember,
+  DEPARTURE_POLICY_DESCRIPTIONS
+} from "@/hooks/use-relationship";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+
+interface RelationshipMembersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  relationship: Relationship;
+}
+
+// Who is leaving: the current user, or a member the owner is removing
+type Departure = { kind: "leave" } | { kind: "remove"; memberId: string; label: string };
+
+export default function RelationshipMembersModal({ isOpen, onClose, relationship }: RelationshipMembersModalProps) {
+  const { user } = useAuth();
+  const [departure, setDeparture] = useState<Departure | null>(null);
+  const [memoryPolicy, setMemoryPolicy] = useState<DepartureMemoryPolicy>("kept");
+
+  const { data: members = [], isLoading } = useRelationshipMembers(isOpen ? relationship.id : null);
+  const { data: role } = useRelationshipRole(user?.uid || null, relationship.id);
+  const { mutate: leave, isPending: isLeaving } = useLeaveRelationship();
+  const { mutate: remove, isPending: isRemoving } = useRemoveMember();
+
+  const startDeparture = (next: Departure) => {
+    setMemoryPolicy("kept");
+    setDeparture(next);
+  };
+
+  const handleConfirm = () => {
+    if (!user || !departure) return;
+
+    if (departure.kind === "leave") {
+      leave(
+        { uid: user.uid, relationshipId: relationship.id, memoryPolicy },
+        {
+          onSuccess: () => {
+            setDeparture(null);
+            onClose();
+          }
+        }
+      );
+    } else {
+      remove(
+        { uid: user.uid, memberId: departure.memberId, relationshipId: relationship.id, memoryPolicy },
+        {
+          onSuccess: () => setDeparture(null)
+        }
+      );
+    }
+  };
+
+  const displayName = relationship.name || `Relationship #${relationship.id}`;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        {departure ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>
+                {departure.kind === "leave" ? `Leave ${displayName}?` : `Remove ${departure.label}?`}
+              </DialogTitle>
+              <DialogDescription>
+                {departure.kind === "leave"
+                  ? "Choose what happens to the memories you shared here."
+                  : "Choose what happens to the memories they shared here."}
+              </DialogDescription>
+            </DialogHeader>
+
+            <RadioGroup
+              value={memoryPolicy}
+              onValueChange={(value) => setMemoryPolicy(value as DepartureMemoryPolicy)}
+              className="space-y-3 py-2"
+            >
+              {(Object.keys(DEPARTURE_POLICY_DESCRIPTIONS) as DepartureMemoryPolicy[]).map((policy) => (
+                <div key={policy} className="flex items-start space-x-3">
+                  <RadioGroupItem value={policy} id={`policy-${policy}`} className="mt-1" />
+                  <Label htmlFor={`policy-${policy}`} className="font-normal leading-snug">
+                    <span className="font-medium capitalize">{policy}</span>
+                    <span className="block text-sm text-[var(--charcoal)]/70">
+                      {DEPARTURE_POLICY_DESCRIPTIONS[policy]}
+                    </span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <DialogFooter className="gap-2">
+              <Button variant="outline" onClick={() => setDeparture(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleConfirm}
+                disabled={isLeaving || isRemoving}
+              >
+                {isLeaving || isRemoving
+                  ? "Working..."
+                  : departure.kind === "leave" ? "Leave" : "Remove"}
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>Members of {displayName}</DialogTitle>
+              <DialogDescription>
+                {relationship.mode === "group" ? "Everyone in this group" : "The two of you"}
+              </DialogDescription>
+            </DialogHeader>
+
+            {isLoading ? (
+              <div className="py-6 text-center text-sm text-[var(--charcoal)]/70">Loading members...</div>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {members.map((member) => {
+                  const isCurrentUser = member.userId === user?.uid;
+                  const label = isCurrentUser ? "You" : member.nickname || "Partner";
+
+                  return (
+                    <li key={member.userId} className="flex items-center justify-between py-3">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{label}</span>
+                          {member.role === "owner" && <Badge variant="secondary">Owner</Badge>}
+                        </div>
+                        <span className="text-xs text-[var(--charcoal)]/60">
+                          Joined {member.joinedAt.toLocaleDateString()}
+                        </span>
+                      </div>
+
+                      {/* Owners can remove anyone but themselves */}
+                      {role === "owner" && !isCurrentUser && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => startDeparture({ kind: "remove", memberId: member.userId, label })}
+                        >
+                          Remove
+                        </Button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                className="border-red-200 text-red-600 hover:bg-red-50"
+                onClick={() => startDeparture({ kind: "leave" })}
+              >
+                Leave relationship
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
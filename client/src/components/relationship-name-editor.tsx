@@ -1,7 +1,8 @@
 import { useState } from "react";
 import { Pencil, Check, X } from "lucide-react";
 import { Relationship } from "@shared/schema";
-import { useUpdateRelationshipName } from "@/hooks/use-relationship";
+import { useUpdateRelationshipName, useRelationshipRole } from "@/hooks/use-relationship";
+import { useAuth } from "@/hooks/use-auth";
 
 interface RelationshipNameEditorProps {
   relationship: Relationship;
@@ -11,6 +12,8 @@ export default function RelationshipNameEditor({ relationship }: RelationshipNam
   const [isEditing, setIsEditing] = useState(false);
   const [name, setName] = useState(relationship.name || `Relationship #${relationship.id}`);
   
+  const { user } = useAuth();
+  const { data: role } = useRelationshipRole(user?.uid || null, relationship.id);
   const { mutate: updateName, isPending } = useUpdateRelationshipName();
   
   const handleSubmit = (e: React.FormEvent) => {
@@ -22,10 +25,13 @@ export default function RelationshipNameEditor({ relationship }: RelationshipNam
       return;
     }
     
+    if (!user) return;
+    
     updateName(
       { 
         relationshipId: relationship.id,
-        name: name.trim()
+        name: name.trim(),
+        uid: user.uid
       },
       {
         onSuccess: () => {
@@ -76,13 +82,16 @@ export default function RelationshipNameEditor({ relationship }: RelationshipNam
   return (
     <div className="flex items-center">
       <h1 className="font-serif text-2xl">{displayName}</h1>
-      <button 
-        onClick={() => setIsEditing(true)}
-        aria-label="Edit relationship name"
-        className="ml-2 p-1 rounded-full hover:bg-[var(--primary-light)]"
-      >
-        <Pencil className="h-4 w-4 text-[var(--primary)]" />
-      </button>
+      {/* Only the owner can rename */}
+      {role === "owner" && (
+        <button 
+          onClick={() => setIsEditing(true)}
+          aria-label="Edit relationship name"
+          className="ml-2 p-1 rounded-full hover:bg-[var(--primary-light)]"
+        >
+          <Pencil className="h-4 w-4 text-[var(--primary)]" />
+        </button>
+      )}
     </div>
   );
 }
\ No newline at end of file
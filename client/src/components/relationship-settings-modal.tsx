@@ -0,0 +1,502 @@
+import { useEffect } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Relationship } from "@shared/schema";
+import {
+  quotaPolicySchema,
+  anniversaryDateSchema,
+  resolveQuotaPolicy,
+  describeQuotaPolicy,
+  MAX_DAILY_UPLOADS,
+  QuotaPolicy
+} from "@shared/quota";
+import { getLocalTimeZone, resolveTimeZone, DEFAULT_TIME_ZONE } from "@shared/day-key";
+import {
+  selectionConfigSchema,
+  resolveSelectionConfig,
+  describeSelectionConfig,
+  MAX_BOARD_SIZE,
+  MAX_COOLDOWN_DAYS,
+  MAX_REROLLS_PER_DAY,
+  SelectionConfig
+} from "@shared/selection";
+import { ReactionType, REACTION_EMOJI, REACTION_LABELS } from "@shared/reactions";
+import { useAuth } from "@/hooks/use-auth";
+import { useRelationshipRole } from "@/hooks/use-relationship";
+import { 
+  useUpdateQuotaPolicy, 
+  useUpdateRelationshipTimeZone, 
+  useUpdateSelectionConfig 
+} from "@/hooks/use-relationship-settings";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+
+// The anniversary is typed as MM-DD; an empty field means none
+const quotaFormSchema = quotaPolicySchema.extend({
+  anniversaryDate: z.union([z.literal(""), anniversaryDateSchema]),
+});
+
+type QuotaFormValues = z.infer<typeof quotaFormSchema>;
+
+// Select values are strings; "same" maps to a null weekend limit
+const LIMIT_OPTIONS = Array.from({ length: MAX_DAILY_UPLOADS }, (_, index) => String(index + 1));
+
+const BOARD_SIZE_OPTIONS = Array.from({ length: MAX_BOARD_SIZE }, (_, index) => String(index + 1));
+const REROLL_OPTIONS = Array.from({ length: MAX_REROLLS_PER_DAY + 1 }, (_, index) => String(index));
+
+// Select values are strings; "never" maps to reactions that don't fade
+const BOOST_OPTIONS = ["1", "1.5", "2", "3", "5"];
+const HALF_LIFE_OPTIONS = ["30", "90", "180", "365"];
+const REACTION_WEIGHT_OPTIONS = ["0", "0.5", "1", "1.5", "2", "3", "5"];
+
+// The browser's list leaves out UTC, the default for older relationships
+const TIME_ZONES = [DEFAULT_TIME_ZONE, ...Intl.supportedValuesOf("timeZone")];
+
+interface RelationshipSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  relationship: Relationship;
+}
+
+function toFormValues(policy: QuotaPolicy | null): QuotaFormValues {
+  const resolved = resolveQuotaPolicy(policy);
+  return { ...resolved, anniversaryDate: resolved.anniversaryDate ?? "" };
+}
+
+export default function RelationshipSettingsModal({ isOpen, onClose, relationship }: RelationshipSettingsModalProps) {
+  const { user } = useAuth();
+  const { data: role } = useRelationshipRole(user?.uid || null, relationship.id);
+  const updateQuotaPolicy = useUpdateQuotaPolicy();
+  const updateTimeZone = useUpdateRelationshipTimeZone();
+  const updateSelectionConfig = useUpdateSelectionConfig();
+  const isOwner = role === "owner";
+  const timeZone = resolveTimeZone(relationship.timeZone);
+  const localTimeZone = getLocalTimeZone();
+  const timeZoneOptions = TIME_ZONES.includes(timeZone) ? TIME_ZONES : [timeZone, ...TIME_ZONES];
+
+  const form = useForm<QuotaFormValues>({
+    resolver: zodResolver(quotaFormSchema),
+    defaultValues: toFormValues(relationship.quotaPolicy),
+  });
+
+  const selectionForm = useForm<SelectionConfig>({
+    resolver: zodResolver(selectionConfigSchema),
+    defaultValues: resolveSelectionConfig(relationship.selectionConfig),
+  });
+
+  // Start from the saved settings every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      form.reset(toFormValues(relationship.quotaPolicy));
+      selectionForm.reset(resolveSelectionConfig(relationship.selectionConfig));
+    }
+  }, [isOpen, relationship.quotaPolicy, relationship.selectionConfig, form, selectionForm]);
+
+  const period = form.watch("period");
+
+  const handleTimeZoneChange = (value: string) => {
+    if (!user?.uid || value === timeZone) return;
+
+    updateTimeZone.mutate({ relationshipId: relationship.id, timeZone: value, uid: user.uid });
+  };
+
+  const onSubmit = (data: QuotaFormValues) => {
+    if (!user?.uid) return;
+
+    updateQuotaPolicy.mutate({
+      relationshipId: relationship.id,
+      uid: user.uid,
+      quotaPolicy: { ...data, anniversaryDate: data.anniversaryDate || null },
+    }, {
+      onSuccess: () => onClose(),
+    });
+  };
+
+  const onSelectionSubmit = (data: SelectionConfig) => {
+    if (!user?.uid) return;
+
+    updateSelectionConfig.mutate({
+      relationshipId: relationship.id,
+      uid: user.uid,
+      selectionConfig: data,
+    }, {
+      onSuccess: () => onClose(),
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Relationship Settings</DialogTitle>
+          <DialogDescription>
+            {isOwner
+              ? "Decide when each day starts, how many memories everyone can share and how the daily board picks them."
+              : "Only the owner can change these settings."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-lg bg-[var(--cream)] px-3 py-2 text-sm space-y-1">
+          <div><span className="font-medium">Upload limit:</span> {describeQuotaPolicy(relationship.quotaPolicy)}</div>
+          <div><span className="font-medium">Days start at midnight in:</span> {timeZone}</div>
+          <div><span className="font-medium">Daily board:</span> {describeSelectionConfig(relationship.selectionConfig)}</div>
+        </div>
+
+        {isOwner && (
+          <div className="space-y-2">
+            <Label>Time zone</Label>
+            <Select value={timeZone} onValueChange={handleTimeZoneChange} disabled={updateTimeZone.isPending}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZoneOptions.map((zone) => (
+                  <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {timeZone !== localTimeZone && (
+              <button
+                type="button"
+                onClick={() => handleTimeZoneChange(localTimeZone)}
+                className="text-xs text-[var(--primary-dark)] hover:underline"
+              >
+                Use my time zone ({localTimeZone})
+              </button>
+            )}
+          </div>
+        )}
+
+        {isOwner && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 pt-2">
+              <FormField
+                control={form.control}
+                name="period"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Limit uploads</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="day">Per day</SelectItem>
+                        <SelectItem value="week">Per week (a weekly budget)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+
+              {period === "day" ? (
+                <div className="flex gap-3">
+                  <FormField
+                    control={form.control}
+                    name="dailyLimit"
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormLabel>Each day</FormLabel>
+                        <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {LIMIT_OPTIONS.map((option) => (
+                              <SelectItem key={option} value={option}>{option}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="weekendLimit"
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormLabel>On weekends</FormLabel>
+                        <Select
+                          value={field.value === null ? "same" : String(field.value)}
+                          onValueChange={(value) => field.onChange(value === "same" ? null : Number(value))}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="same">Same as weekdays</SelectItem>
+                            {LIMIT_OPTIONS.map((option) => (
+                              <SelectItem key={option} value={option}>{option}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="weeklyLimit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Memories per week</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          {...field}
+                          onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                        />
+                      </FormControl>
+                      <FormDescription>Weeks run Monday to Sunday</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="anniversaryDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Anniversary</FormLabel>
+                    <FormControl>
+                      <Input placeholder="MM-DD" {...field} />
+                    </FormControl>
+                    <FormDescription>No limit at all on this day each year. Leave empty for none.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="submit" disabled={updateQuotaPolicy.isPending}>
+                  {updateQuotaPolicy.isPending ? "Saving..." : "Save Changes"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+
+        {isOwner && (
+          <Form {...selectionForm}>
+            <form onSubmit={selectionForm.handleSubmit(onSelectionSubmit)} className="space-y-4 border-t pt-4">
+              <div>
+                <h3 className="font-medium">Daily board</h3>
+                <p className="text-sm text-[var(--charcoal)]/70">Shape how memories are picked for each day's board.</p>
+              </div>
+
+              <div className="flex gap-3">
+                <FormField
+                  control={selectionForm.control}
+                  name="boardSize"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Memories a day</FormLabel>
+                      <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {BOARD_SIZE_OPTIONS.map((option) => (
+                            <SelectItem key={option} value={option}>{option}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={selectionForm.control}
+                  name="rerollsPerDay"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Rerolls each</FormLabel>
+                      <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {REROLL_OPTIONS.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {option === "0" ? "None" : `${option} a day`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={selectionForm.control}
+                name="includeText"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-3">
+                    <div>
+                      <FormLabel>Include text memories</FormLabel>
+                      <FormDescription>Turn off to only show photos and voice memories.</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={selectionForm.control}
+                name="cooldownDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rest after showing (days)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={MAX_COOLDOWN_DAYS}
+                        {...field}
+                        onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                    <FormDescription>A memory sits out this many days after it was on the board. 0 lets it come back tomorrow.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={selectionForm.control}
+                name="neverShownBoost"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Favour memories never shown</FormLabel>
+                    <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {BOOST_OPTIONS.map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {option === "1" ? "No extra chance" : `${option}x as likely`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={selectionForm.control}
+                name="thumbsUpHalfLifeDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reactions fade</FormLabel>
+                    <Select
+                      value={field.value === null ? "never" : String(field.value)}
+                      onValueChange={(value) => field.onChange(value === "never" ? null : Number(value))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="never">Never</SelectItem>
+                        {HALF_LIFE_OPTIONS.map((option) => (
+                          <SelectItem key={option} value={option}>Half as strong after {option} days</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>So a much-liked old memory doesn't crowd out the rest.</FormDescription>
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">How much each reaction counts</p>
+                <div className="grid grid-cols-2 gap-4">
+                  {ReactionType.options.map((type) => (
+                    <FormField
+                      key={type}
+                      control={selectionForm.control}
+                      name={`reactionWeights.${type}`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="font-normal">{REACTION_EMOJI[type]} {REACTION_LABELS[type]}</FormLabel>
+                          <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {REACTION_WEIGHT_OPTIONS.map((option) => (
+                                <SelectItem key={option} value={option}>
+                                  {option === "0" ? "Doesn't count" : `${option}x`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button type="submit" disabled={updateSelectionConfig.isPending}>
+                  {updateSelectionConfig.isPending ? "Saving..." : "Save Board Settings"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
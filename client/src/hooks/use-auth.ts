@@ -1,11 +1,27 @@
-import { useState, useEffect } from "react";
-import { auth, handleRedirectResult } from "../lib/firebase";
-import { User } from "firebase/auth";
+import { useState, useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getQueryFn, isSessionAuth } from "@/lib/queryClient";
+import { SESSION_USER_QUERY_KEY } from "@/lib/session-auth";
+import type { PublicUser } from "@shared/schema";
+import { getLocalTimeZone } from "@shared/day-key";
 
-export function useAuth() {
-  const [user, setUser] = useState<User | null>(null);
+// The parts of the signed-in user the app relies on, whichever auth mode is active
+export interface AuthUser {
+  uid: string;
+  displayName: string | null;
+  email: string | null;
+  photoURL: string | null;
+}
+
+interface AuthState {
+  user: AuthUser | null;
+  loading: boolean;
+}
+
+// Firebase Auth: the signed-in Firebase user, registered with our backend
+function useFirebaseAuth(): AuthState {
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
@@ -13,6 +29,7 @@ export function useAuth() {
   useEffect(() => {
     const checkRedirectResult = async () => {
       try {
+        const { handleRedirectResult } = await import("../lib/firebase");
         const redirectUser = await handleRedirectResult();
         // The redirect result will be handled by the auth state observer
       } catch (error) {
@@ -28,44 +45,74 @@ export function useAuth() {
     checkRedirectResult();
   }, [toast]);
 
-  // Auth state observer
+  // Auth state observer; Firebase is only loaded in this auth mode
   useEffect(() => {
-    const unsubscribe = auth.onAuthStateChanged(async (firebaseUser) => {
-      try {
-        if (firebaseUser) {
-          // User is signed in, register or fetch user from our backend
-          const response = await apiRequest("POST", "/api/auth/user", {
-            uid: firebaseUser.uid,
-            displayName: firebaseUser.displayName || `User-${firebaseUser.uid.substring(0, 5)}`,
-            email: firebaseUser.email || "",
-            photoURL: firebaseUser.photoURL || ""
-          });
+    let unsubscribe = () => {};
+    let unmounted = false;
+
+    import("../lib/firebase").then(({ auth }) => {
+      if (unmounted) return;
+      unsubscribe = auth.onAuthStateChanged(async (firebaseUser) => {
+        try {
+          if (firebaseUser) {
+            // User is signed in, register or fetch user from our backend
+            const response = await apiRequest("POST", "/api/auth/user", {
+              uid: firebaseUser.uid,
+              displayName: firebaseUser.displayName || `User-${firebaseUser.uid.substring(0, 5)}`,
+              email: firebaseUser.email || "",
+              photoURL: firebaseUser.photoURL || "",
+              timeZone: getLocalTimeZone()
+            });
           
-          if (!response.ok) {
-            throw new Error("Failed to register user with backend");
-          }
+            if (!response.ok) {
+              throw new Error("Failed to register user with backend");
+            }
           
-          setUser(firebaseUser);
-        } else {
-          // User is signed out
+            setUser(firebaseUser);
+          } else {
+            // User is signed out
+            setUser(null);
+          }
+        } catch (error) {
+          console.error("Authentication error:", error);
+          toast({
+            title: "Authentication Error",
+            description: "There was an issue with your account. Please try again.",
+            variant: "destructive",
+          });
           setUser(null);
+        } finally {
+          setLoading(false);
         }
-      } catch (error) {
-        console.error("Authentication error:", error);
-        toast({
-          title: "Authentication Error",
-          description: "There was an issue with your account. Please try again.",
-          variant: "destructive",
-        });
-        setUser(null);
-      } finally {
-        setLoading(false);
-      }
+      });
     });
 
     // Cleanup subscription on unmount
-    return () => unsubscribe();
+    return () => {
+      unmounted = true;
+      unsubscribe();
+    };
   }, [toast]);
 
   return { user, loading };
 }
+
+// Session mode: the user behind the server session cookie. The server knows
+// users by ID, so that's their uid here (see api-backend.ts).
+function useSessionAuth(): AuthState {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: SESSION_USER_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const authUser = useMemo<AuthUser | null>(() => user ? {
+    uid: user.id.toString(),
+    displayName: user.displayName,
+    email: user.email,
+    photoURL: user.photoURL,
+  } : null, [user]);
+
+  return { user: authUser, loading: isLoading };
+}
+
+export const useAuth = isSessionAuth ? useSessionAuth : useFirebaseAuth;
@@ -0,0 +1,60 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getBackend } from "@/lib/backend";
+import type { MemoryComment } from "@/lib/comment-service";
+
+// Hook to get a memory's comment thread
+export function useMemoryComments(memoryId: string | null, userId: string | null, relationshipId: number | null) {
+  return useQuery<MemoryComment[]>({
+    queryKey: ["memoryComments", memoryId],
+    queryFn: async () => {
+      if (!memoryId || !userId || !relationshipId) return [];
+      const { getMemoryComments } = await getBackend();
+      return getMemoryComments(memoryId, userId, relationshipId);
+    },
+    enabled: !!memoryId && !!userId && !!relationshipId,
+  });
+}
+
+// Hook to get comment counts per memory for a relationship
+export function useCommentCounts(userId: string | null, relationshipId: number | null) {
+  return useQuery<Record<string, number>>({
+    queryKey: ["commentCounts", relationshipId],
+    queryFn: async () => {
+      if (!userId || !relationshipId) return {};
+      const { getCommentCounts } = await getBackend();
+      return getCommentCounts(relationshipId, userId);
+    },
+    enabled: !!userId && !!relationshipId,
+  });
+}
+
+// Hook to comment on a memory
+export function useAddComment() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: {
+      memoryId: string;
+      userId: string;
+      relationshipId: number;
+      content: string;
+      audioFile?: File | null;
+    }) => {
+      const { addMemoryComment } = await getBackend();
+      return addMemoryComment(data);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["memoryComments", variables.memoryId] });
+      queryClient.invalidateQueries({ queryKey: ["commentCounts", variables.relationshipId] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add comment",
+        variant: "destructive",
+      });
+    }
+  });
+}
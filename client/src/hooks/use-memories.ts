@@ -3,19 +3,10 @@ import { useEffect } from "react";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Memory } from "@/lib/firebase-service";
-import { 
-  getRelationshipMemories, 
-  getDailyMemories, 
-  getNewMemories,
-  createMemory as createFirestoreMemory, 
-  reactToMemory,
-  markMemoriesAsViewed,
-  getUserRemainingThumbsUp,
-  regenerateDailyMemories,
-  getUserDailyUploadStatus,
-  cleanupFaultyMemories
-} from "@/lib/firebase-service";
+import type { ReactionType } from "@shared/reactions";
+import type { Memory, UploadStatus, BoardHistoryEntry, MemoryGift } from "@/lib/firebase-service";
+import { getBackend } from "@/lib/backend";
+import { UploadQuotaError, RerollLimitError, GiftLimitError } from "@/lib/errors";
 
 // Hook to fetch all memories for a relationship
 export function useRelationshipMemories(relationshipId: number | null) {
@@ -23,24 +14,26 @@ export function useRelationshipMemories(relationshipId: number | null) {
     queryKey: ["memories", relationshipId],
     queryFn: async () => {
       if (!relationshipId) return [];
+      const { getRelationshipMemories } = await getBackend();
       return getRelationshipMemories(relationshipId);
     },
     enabled: !!relationshipId,
   });
 }
 
-// Hook to fetch daily memories
-export function useDailyMemories(relationshipId: number | null) {
+// Hook to fetch daily memories; the user is who draws the board if there's none yet
+export function useDailyMemories(relationshipId: number | null, userId: string | null) {
   return useQuery<Memory[]>({
     queryKey: ["dailyMemories", relationshipId],
     queryFn: async () => {
-      if (!relationshipId) return [];
+      if (!relationshipId || !userId) return [];
       console.log(`Fetching daily memories in queryFn for relationship ${relationshipId}`);
       
       try {
-        const memories = await getDailyMemories(relationshipId);
+        const { getDailyMemories } = await getBackend();
+        const memories = await getDailyMemories(relationshipId, userId);
         console.log(`Successfully retrieved ${memories.length} daily memories:`, 
-          memories.map(m => ({ id: m.id, type: m.type, thumbsUp: m.thumbsUpCount }))
+          memories.map(m => ({ id: m.id, type: m.type, reactions: m.reactionCounts }))
         );
         return memories;
       } catch (error) {
@@ -48,7 +41,7 @@ export function useDailyMemories(relationshipId: number | null) {
         throw error;
       }
     },
-    enabled: !!relationshipId,
+    enabled: !!relationshipId && !!userId,
     // Refresh daily memories every minute
     refetchInterval: 60 * 1000, 
     // Use optimistic updates to show the loading state then the data
@@ -57,31 +50,73 @@ export function useDailyMemories(relationshipId: number | null) {
   });
 }
 
-// Hook to fetch new memories
-export function useNewMemories(relationshipId: number | null) {
-  return useQuery<Memory[]>({
-    queryKey: ["newMemories", relationshipId],
+// Hook to list the days that had a daily board
+export function useBoardHistoryDays(relationshipId: number | null) {
+  return useQuery<string[]>({
+    queryKey: ["boardHistoryDays", relationshipId],
     queryFn: async () => {
       if (!relationshipId) return [];
-      return getNewMemories(relationshipId);
+      const { getBoardHistoryDays } = await getBackend();
+      return getBoardHistoryDays(relationshipId);
     },
     enabled: !!relationshipId,
   });
 }
 
-// Hook to mark new memories as viewed
-export function useMarkMemoriesAsViewed(relationshipId: number | null) {
+// Hook to fetch every board shown on a past day
+export function useBoardHistory(relationshipId: number | null, dayKey: string | null) {
+  return useQuery<BoardHistoryEntry[]>({
+    queryKey: ["boardHistory", relationshipId, dayKey],
+    queryFn: async () => {
+      if (!relationshipId || !dayKey) return [];
+      const { getBoardHistory } = await getBackend();
+      return getBoardHistory(relationshipId, dayKey);
+    },
+    enabled: !!relationshipId && !!dayKey,
+  });
+}
+
+// Hook to fetch memories that are new to the user
+export function useNewMemories(relationshipId: number | null, userId: string | null) {
+  return useQuery<Memory[]>({
+    queryKey: ["newMemories", relationshipId, userId],
+    queryFn: async () => {
+      if (!relationshipId || !userId) return [];
+      const { getNewMemories } = await getBackend();
+      return getNewMemories(relationshipId, userId);
+    },
+    enabled: !!relationshipId && !!userId,
+  });
+}
+
+// Hook to mark new memories as viewed by the user
+export function useMarkMemoriesAsViewed(relationshipId: number | null, userId: string | null) {
   return useMutation({
     mutationFn: async () => {
-      if (!relationshipId) return;
-      return markMemoriesAsViewed(relationshipId);
+      if (!relationshipId || !userId) return;
+      const { markMemoriesAsViewed } = await getBackend();
+      return markMemoriesAsViewed(relationshipId, userId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["newMemories", relationshipId] });
+      queryClient.invalidateQueries({ queryKey: ["readReceipts", relationshipId] });
     }
   });
 }
 
+// Hook to get when each member last caught up, for "seen by" on memories
+export function useReadReceipts(relationshipId: number | null) {
+  return useQuery<Record<string, Date>>({
+    queryKey: ["readReceipts", relationshipId],
+    queryFn: async () => {
+      if (!relationshipId) return {};
+      const { getReadReceipts } = await getBackend();
+      return getReadReceipts(relationshipId);
+    },
+    enabled: !!relationshipId,
+  });
+}
+
 // Hook to upload a new memory
 export function useCreateMemory() {
   const { toast } = useToast();
@@ -103,17 +138,10 @@ export function useCreateMemory() {
         contentLength: memory.content?.length || 0
       });
       
-      // Check if user has already uploaded a memory today for this relationship
-      const uploadStatus = await getUserDailyUploadStatus(memory.userId, memory.relationshipId);
-      
-      if (uploadStatus.hasUploaded) {
-        console.log("MUTATION DEBUG: User has already uploaded a memory today for this relationship");
-        throw new Error("You've already shared a memory today. Come back tomorrow!");
-      }
-      
       try {
-        // Use Firestore to create the memory
-        const result = await createFirestoreMemory(memory);
+        // The upload quota is enforced in the same transaction as the write
+        const { createMemory } = await getBackend();
+        const result = await createMemory(memory);
         console.log("MUTATION DEBUG: Memory created successfully", {
           memoryId: result.id,
           type: result.type
@@ -139,17 +167,29 @@ export function useCreateMemory() {
       queryClient.invalidateQueries({ queryKey: ["dailyMemories", variables.relationshipId] });
       queryClient.invalidateQueries({ queryKey: ["newMemories", variables.relationshipId] });
       
-      // Also invalidate daily upload status
-      queryClient.invalidateQueries({ queryKey: ["dailyUploadStatus", variables.userId, variables.relationshipId] });
+      // Also invalidate the remaining upload quota
+      queryClient.invalidateQueries({ queryKey: ["uploadStatus", variables.userId, variables.relationshipId] });
       
       toast({
         title: "Memory Created",
         description: "Your memory has been saved successfully!",
       });
     },
-    onError: (error) => {
+    onError: (error, variables) => {
       console.error("MUTATION DEBUG: Mutation error callback triggered", error);
       
+      if (error instanceof UploadQuotaError) {
+        // Another tab or device used the last slot, so swap the form for the used-up card
+        queryClient.invalidateQueries({ queryKey: ["uploadStatus", variables.userId, variables.relationshipId] });
+        
+        toast({
+          title: "Already shared today",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+      
       let errorMessage = "Failed to create memory";
       if (error instanceof Error) {
         errorMessage = error.message;
@@ -173,13 +213,14 @@ export function useCreateMemory() {
   });
 }
 
-// Hook to check if a user has uploaded a memory today for a specific relationship
-export function useUserDailyUploadStatus(userId: string | null, relationshipId: number | null) {
-  return useQuery<{hasUploaded: boolean, todaysMemory?: Memory}>({
-    queryKey: ["dailyUploadStatus", userId, relationshipId],
+// Hook to check how many uploads a user has left in a relationship's quota period
+export function useUserUploadStatus(userId: string | null, relationshipId: number | null) {
+  return useQuery<UploadStatus | null>({
+    queryKey: ["uploadStatus", userId, relationshipId],
     queryFn: async () => {
-      if (!userId || !relationshipId) return { hasUploaded: false };
-      return getUserDailyUploadStatus(userId, relationshipId);
+      if (!userId || !relationshipId) return null;
+      const { getUserUploadStatus } = await getBackend();
+      return getUserUploadStatus(userId, relationshipId);
     },
     enabled: !!userId && !!relationshipId,
     // Refresh every minute to ensure status is current
@@ -188,13 +229,14 @@ export function useUserDailyUploadStatus(userId: string | null, relationshipId:
   });
 }
 
-// Hook to get user's remaining thumbs up for today per relationship
-export function useRemainingThumbsUp(userId: string | null, relationshipId: number | null) {
-  return useQuery<number>({
-    queryKey: ["remainingThumbsUp", userId, relationshipId],
+// Hook to get user's remaining reactions of each type for today per relationship
+export function useRemainingReactions(userId: string | null, relationshipId: number | null) {
+  return useQuery<Record<ReactionType, number> | null>({
+    queryKey: ["remainingReactions", userId, relationshipId],
     queryFn: async () => {
-      if (!userId || !relationshipId) return 0;
-      return getUserRemainingThumbsUp(userId, relationshipId);
+      if (!userId || !relationshipId) return null;
+      const { getUserRemainingReactions } = await getBackend();
+      return getUserRemainingReactions(userId, relationshipId);
     },
     enabled: !!userId && !!relationshipId,
     // Refresh every minute to ensure count is current
@@ -202,7 +244,33 @@ export function useRemainingThumbsUp(userId: string | null, relationshipId: numb
   });
 }
 
-// Hook to like a memory with daily limit per relationship
+// Hook to get the members who reacted to a memory
+export function useMemoryReactors(memoryId: string | null, relationshipId: number | null) {
+  return useQuery<string[]>({
+    queryKey: ["memoryReactors", memoryId, relationshipId],
+    queryFn: async () => {
+      if (!memoryId || !relationshipId) return [];
+      const { getMemoryReactors } = await getBackend();
+      return getMemoryReactors(memoryId, relationshipId);
+    },
+    enabled: !!memoryId && !!relationshipId,
+  });
+}
+
+// Hook to get the reaction types the user left on a memory today
+export function useTodaysReactionTypes(memoryId: string | null, userId: string | null, relationshipId: number | null) {
+  return useQuery<ReactionType[]>({
+    queryKey: ["todaysReactionTypes", memoryId, userId, relationshipId],
+    queryFn: async () => {
+      if (!memoryId || !userId || !relationshipId) return [];
+      const { getTodaysReactionTypes } = await getBackend();
+      return getTodaysReactionTypes(memoryId, userId, relationshipId);
+    },
+    enabled: !!memoryId && !!userId && !!relationshipId,
+  });
+}
+
+// Hook to react to a memory with daily limits per reaction type and relationship
 export function useReactToMemory() {
   const { toast } = useToast();
   
@@ -210,19 +278,22 @@ export function useReactToMemory() {
     mutationFn: async ({ 
       memoryId, 
       relationshipId, 
-      userId 
+      userId,
+      type
     }: { 
       memoryId: string; 
       relationshipId: number;
       userId: string;
+      type: ReactionType;
     }) => {
-      // Use Firestore to react to the memory with the thumbs up limit per relationship
-      return reactToMemory(memoryId, userId, relationshipId);
+      // React to the memory within the reaction's limit per relationship
+      const { reactToMemory } = await getBackend();
+      return reactToMemory(memoryId, userId, relationshipId, type);
     },
     onSuccess: (result, variables) => {
       // Show toast with the result message
       toast({
-        title: result.success ? "Thumbs Up!" : "Cannot Add Thumbs Up",
+        title: result.success ? "Reaction Added!" : "Cannot Add Reaction",
         description: result.message,
         variant: result.success ? "default" : "destructive",
       });
@@ -232,28 +303,187 @@ export function useReactToMemory() {
       queryClient.invalidateQueries({ queryKey: ["dailyMemories", variables.relationshipId] });
       queryClient.invalidateQueries({ queryKey: ["newMemories", variables.relationshipId] });
       
-      // Also invalidate remaining thumbs up count for this relationship
-      queryClient.invalidateQueries({ queryKey: ["remainingThumbsUp", variables.userId, variables.relationshipId] });
+      // Also invalidate remaining reactions for this relationship
+      queryClient.invalidateQueries({ queryKey: ["remainingReactions", variables.userId, variables.relationshipId] });
+      queryClient.invalidateQueries({ queryKey: ["memoryReactors", variables.memoryId] });
+      queryClient.invalidateQueries({ queryKey: ["todaysReactionTypes", variables.memoryId] });
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to add thumbs up",
+        description: error instanceof Error ? error.message : "Failed to add reaction",
         variant: "destructive",
       });
     }
   });
 }
 
-// Hook to clean up faulty memories
-export function useCleanupFaultyMemories() {
+// Hook to take back a reaction left today
+export function useRemoveReaction() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ 
+      memoryId, 
+      relationshipId, 
+      userId,
+      type
+    }: { 
+      memoryId: string; 
+      relationshipId: number;
+      userId: string;
+      type: ReactionType;
+    }) => {
+      const { removeReaction } = await getBackend();
+      return removeReaction(memoryId, userId, relationshipId, type);
+    },
+    onSuccess: (result, variables) => {
+      toast({
+        title: result.success ? "Reaction Removed" : "Cannot Remove Reaction",
+        description: result.message,
+        variant: result.success ? "default" : "destructive",
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["memories", variables.relationshipId] });
+      queryClient.invalidateQueries({ queryKey: ["dailyMemories", variables.relationshipId] });
+      queryClient.invalidateQueries({ queryKey: ["newMemories", variables.relationshipId] });
+      queryClient.invalidateQueries({ queryKey: ["remainingReactions", variables.userId, variables.relationshipId] });
+      queryClient.invalidateQueries({ queryKey: ["memoryReactors", variables.memoryId] });
+      queryClient.invalidateQueries({ queryKey: ["todaysReactionTypes", variables.memoryId] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove reaction",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+// Hook to take a memory out of the daily rotation, or put it back
+export function useSetMemoryRetired() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ 
+      memoryId, 
+      userId, 
+      retired 
+    }: { 
+      memoryId: string; 
+      relationshipId: number;
+      userId: string;
+      retired: boolean;
+    }) => {
+      const { setMemoryRetired } = await getBackend();
+      return setMemoryRetired(memoryId, userId, retired);
+    },
+    onSuccess: (_, variables) => {
+      toast({
+        title: variables.retired ? "Memory Retired" : "Memory Back in Rotation",
+        description: variables.retired 
+          ? "It stays in your timeline but won't come up on your daily board." 
+          : "It can come up on your daily board again.",
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["memories", variables.relationshipId] });
+      queryClient.invalidateQueries({ queryKey: ["dailyMemories", variables.relationshipId] });
+      queryClient.invalidateQueries({ queryKey: ["boardHistory", variables.relationshipId] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update memory",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+// Hook to fetch the gifts on today's board
+export function useBoardGifts(relationshipId: number | null) {
+  return useQuery<MemoryGift[]>({
+    queryKey: ["boardGifts", relationshipId],
+    queryFn: async () => {
+      if (!relationshipId) return [];
+      const { getBoardGifts } = await getBackend();
+      return getBoardGifts(relationshipId);
+    },
+    enabled: !!relationshipId,
+  });
+}
+
+// Hook to check whether the user has already gifted a memory today
+export function useGiftedToday(userId: string | null, relationshipId: number | null) {
+  return useQuery({
+    queryKey: ["giftedToday", userId, relationshipId],
+    queryFn: async () => {
+      if (!userId || !relationshipId) return true;
+      const { hasGiftedToday } = await getBackend();
+      return hasGiftedToday(userId, relationshipId);
+    },
+    enabled: !!userId && !!relationshipId,
+  });
+}
+
+// Hook to gift a memory into tomorrow's board
+export function useGiftMemory() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ 
+      memoryId, 
+      relationshipId, 
+      userId, 
+      note 
+    }: { 
+      memoryId: string; 
+      relationshipId: number;
+      userId: string;
+      note: string | null;
+    }) => {
+      const { giftMemory } = await getBackend();
+      return giftMemory(memoryId, userId, relationshipId, note);
+    },
+    onSuccess: (_, variables) => {
+      toast({
+        title: "Memory Gifted",
+        description: "It will be waiting on tomorrow's board.",
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["giftedToday", variables.userId, variables.relationshipId] });
+    },
+    onError: (error, variables) => {
+      if (error instanceof GiftLimitError) {
+        toast({
+          title: "Already Gifted Today",
+          description: error.message,
+          variant: "destructive",
+        });
+        queryClient.invalidateQueries({ queryKey: ["giftedToday", variables.userId, variables.relationshipId] });
+        return;
+      }
+      
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to gift memory",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+// Hook to clean up the signed-in user's faulty memories
+export function useCleanupFaultyMemories(userId: string | null) {
   const { toast } = useToast();
   
   // Create a mutation to clean up faulty memories
   const cleanupMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (userId: string) => {
       console.log("Running faulty memory cleanup...");
-      return cleanupFaultyMemories();
+      const { cleanupFaultyMemories } = await getBackend();
+      return cleanupFaultyMemories(userId);
     },
     onSuccess: (deletedCount) => {
       if (deletedCount > 0) {
@@ -275,49 +505,64 @@ export function useCleanupFaultyMemories() {
 
   // Run the cleanup periodically and on component mount
   useEffect(() => {
-    // Run immediately on first mount
-    cleanupMutation.mutate();
+    if (!userId) return;
+    
+    // Run immediately once signed in
+    cleanupMutation.mutate(userId);
     
     // Then set up a periodic cleanup every 5 minutes
     const interval = setInterval(() => {
-      cleanupMutation.mutate();
+      cleanupMutation.mutate(userId);
     }, 5 * 60 * 1000); // 5 minutes
     
-    // Clean up the interval when component unmounts
+    // Clean up the interval when component unmounts or the user changes
     return () => clearInterval(interval);
-  }, []);
+  }, [userId]);
   
   return {
     ...cleanupMutation,
-    runCleanup: () => cleanupMutation.mutate() // Expose a function to manually trigger cleanup
+    runCleanup: () => userId && cleanupMutation.mutate(userId) // Expose a function to manually trigger cleanup
   };
 }
 
+// Hook to get how many rerolls the user has left today
+export function useRemainingRerolls(userId: string | null, relationshipId: number | null) {
+  return useQuery<number>({
+    queryKey: ["remainingRerolls", userId, relationshipId],
+    queryFn: async () => {
+      if (!userId || !relationshipId) return 0;
+      const { getUserRemainingRerolls } = await getBackend();
+      return getUserRemainingRerolls(userId, relationshipId);
+    },
+    enabled: !!userId && !!relationshipId
+  });
+}
+
 // Hook to reroll daily memories
 export function useRerollDailyMemories() {
   const { toast } = useToast();
   
   return useMutation({
-    mutationFn: async ({ 
-      relationshipId, 
-      count = 3 
-    }: { 
-      relationshipId: number; 
-      count?: number;
-    }) => {
-      console.log(`Starting memory reroll for relationship ${relationshipId}, count: ${count}`);
+    mutationFn: async ({ relationshipId, userId }: { relationshipId: number; userId: string }) => {
+      console.log(`Starting memory reroll for relationship ${relationshipId}`);
       
-      // Use Firestore to regenerate daily memories
-      const memories = await regenerateDailyMemories(relationshipId, count);
+      const { regenerateDailyMemories } = await getBackend();
+      const memories = await regenerateDailyMemories(relationshipId, userId);
       
       // Log the memories for debugging
       console.log(`Reroll completed. Selected ${memories.length} memories:`, 
-        memories.map(m => ({ id: m.id, type: m.type, thumbsUp: m.thumbsUpCount }))
+        memories.map(m => ({ id: m.id, type: m.type, reactions: m.reactionCounts }))
       );
       
       return memories;
     },
     onSuccess: (result, variables) => {
+      queryClient.invalidateQueries({ 
+        queryKey: ["remainingRerolls", variables.userId, variables.relationshipId] 
+      });
+      queryClient.invalidateQueries({ queryKey: ["boardHistoryDays", variables.relationshipId] });
+      queryClient.invalidateQueries({ queryKey: ["boardHistory", variables.relationshipId] });
+      
       // Show toast with the result message
       toast({
         title: "Memories Rerolled",
@@ -340,8 +585,23 @@ export function useRerollDailyMemories() {
         }, 1000);
       }
     },
-    onError: (error) => {
+    onError: (error, variables) => {
       console.error("Error during reroll:", error);
+      
+      if (error instanceof RerollLimitError) {
+        // Rerolled on another device, or the owner lowered the allowance
+        queryClient.invalidateQueries({ 
+          queryKey: ["remainingRerolls", variables.userId, variables.relationshipId] 
+        });
+        
+        toast({
+          title: "No rerolls left",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+      
       toast({
         title: "Error",
         description: error instanceof Error ? error.message : "Failed to reroll memories",
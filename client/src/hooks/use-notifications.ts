@@ -0,0 +1,57 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getBackend } from "@/lib/backend";
+import type { UserNotification } from "@/lib/notification-service";
+
+// Hook to get the user's notification feed
+export function useNotifications(userId: string | null) {
+  return useQuery<UserNotification[]>({
+    queryKey: ["notifications", userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const { getNotifications } = await getBackend();
+      return getNotifications(userId);
+    },
+    enabled: !!userId,
+    // Check for news every minute
+    refetchInterval: 60 * 1000,
+  });
+}
+
+// Hook to mark one notification as read
+export function useMarkNotificationRead(userId: string | null) {
+  return useMutation({
+    mutationFn: async (notification: UserNotification) => {
+      if (!userId || notification.read) return;
+      const { markNotificationRead } = await getBackend();
+      return markNotificationRead(notification, userId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications", userId] });
+    }
+  });
+}
+
+// Hook to mark the whole feed as read
+export function useMarkAllNotificationsRead(userId: string | null) {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!userId) return;
+      const { markAllNotificationsRead } = await getBackend();
+      return markAllNotificationsRead(userId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications", userId] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to mark notifications as read",
+        variant: "destructive",
+      });
+    }
+  });
+}
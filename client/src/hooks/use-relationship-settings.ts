@@ -1,7 +1,10 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { getUserNickname, updateUserNickname } from "@/lib/relationship-service";
+import { getBackend } from "@/lib/backend";
+import { RelationshipPermissionError } from "@/lib/errors";
+import { QuotaPolicy } from "@shared/quota";
+import { SelectionConfig } from "@shared/selection";
 
 // Hook to get a user's nickname in a relationship
 export function useUserNickname(userId: string | null, relationshipId: number | null) {
@@ -9,6 +12,7 @@ export function useUserNickname(userId: string | null, relationshipId: number |
     queryKey: ["userNickname", userId, relationshipId],
     queryFn: async () => {
       if (!userId || !relationshipId) return null;
+      const { getUserNickname } = await getBackend();
       return getUserNickname(userId, relationshipId);
     },
     enabled: !!userId && !!relationshipId,
@@ -29,6 +33,7 @@ export function useUpdateUserNickname() {
       relationshipId: number;
       nickname: string;
     }) => {
+      const { updateUserNickname } = await getBackend();
       return updateUserNickname(userId, relationshipId, nickname);
     },
     onSuccess: (success, variables) => {
@@ -58,4 +63,137 @@ export function useUpdateUserNickname() {
       });
     }
   });
-}
\ No newline at end of file
+}
+
+// Hook to change a relationship's upload quota (owner only)
+export function useUpdateQuotaPolicy() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({
+      relationshipId,
+      quotaPolicy,
+      uid
+    }: {
+      relationshipId: number;
+      quotaPolicy: QuotaPolicy;
+      uid: string;
+    }) => {
+      const { updateRelationshipQuotaPolicy } = await getBackend();
+      return updateRelationshipQuotaPolicy(relationshipId, quotaPolicy, uid);
+    },
+    onSuccess: (_relationship, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["relationships/user/primary"] });
+      queryClient.invalidateQueries({ queryKey: ["relationships/user/all"] });
+      
+      // Everyone's remaining uploads may have changed
+      queryClient.invalidateQueries({ 
+        predicate: (query) => query.queryKey[0] === "uploadStatus" && query.queryKey[2] === variables.relationshipId 
+      });
+      
+      toast({
+        title: "Upload Limits Updated",
+        description: "The new limits apply to everyone in this relationship"
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof RelationshipPermissionError 
+          ? error.message 
+          : "Failed to update upload limits",
+        variant: "destructive"
+      });
+    }
+  });
+}
+
+// Hook to tune how the daily board picks memories (owner only)
+export function useUpdateSelectionConfig() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({
+      relationshipId,
+      selectionConfig,
+      uid
+    }: {
+      relationshipId: number;
+      selectionConfig: SelectionConfig;
+      uid: string;
+    }) => {
+      const { updateRelationshipSelectionConfig } = await getBackend();
+      return updateRelationshipSelectionConfig(relationshipId, selectionConfig, uid);
+    },
+    onSuccess: (_relationship, variables) => {
+      // Today's board is already drawn; the config shapes the next one
+      queryClient.invalidateQueries({ queryKey: ["relationships/user/primary"] });
+      queryClient.invalidateQueries({ queryKey: ["relationships/user/all"] });
+      
+      // The reroll allowance applies straight away
+      queryClient.invalidateQueries({ 
+        predicate: (query) => query.queryKey[0] === "remainingRerolls" && query.queryKey[2] === variables.relationshipId 
+      });
+      
+      toast({
+        title: "Daily Board Updated",
+        description: "The next board will be picked with these settings"
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof RelationshipPermissionError 
+          ? error.message 
+          : "Failed to update the daily board settings",
+        variant: "destructive"
+      });
+    }
+  });
+}
+
+// Hook to change the time zone a relationship's days are counted in (owner only)
+export function useUpdateRelationshipTimeZone() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({
+      relationshipId,
+      timeZone,
+      uid
+    }: {
+      relationshipId: number;
+      timeZone: string;
+      uid: string;
+    }) => {
+      const { updateRelationshipTimeZone } = await getBackend();
+      return updateRelationshipTimeZone(relationshipId, timeZone, uid);
+    },
+    onSuccess: (relationship) => {
+      // "Today" may now be a different day, so everything day-based is stale
+      queryClient.invalidateQueries({ queryKey: ["relationships/user/primary"] });
+      queryClient.invalidateQueries({ queryKey: ["relationships/user/all"] });
+      queryClient.invalidateQueries({ queryKey: ["dailyMemories", relationship.id] });
+      queryClient.invalidateQueries({ queryKey: ["newMemories", relationship.id] });
+      queryClient.invalidateQueries({ 
+        predicate: (query) => 
+          (query.queryKey[0] === "uploadStatus" || query.queryKey[0] === "remainingReactions") && 
+          query.queryKey[2] === relationship.id 
+      });
+      
+      toast({
+        title: "Time Zone Updated",
+        description: `Days now start at midnight in ${relationship.timeZone}`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof RelationshipPermissionError 
+          ? error.message 
+          : "Failed to update the time zone",
+        variant: "destructive"
+      });
+    }
+  });
+}
@@ -1,15 +1,41 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
-import { Relationship } from "@shared/schema";
-import { useToast } from "@/hooks/use-toast";
 import { 
-  getUserPrimaryRelationship,
-  getUserRelationships as getRelationships,
-  createRelationship, 
-  addUserToRelationship,
-  getRelationshipByInviteCode,
-  updateRelationshipName
-} from "@/lib/relationship-service";
+  Relationship, 
+  RelationshipMode, 
+  RelationshipRole, 
+  DepartureMemoryPolicy,
+  CreateInviteOptions,
+  InvitePreview
+} from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { downloadJson } from "@/lib/utils";
+import { getBackend } from "@/lib/backend";
+import type { InviteInfo, RelationshipMemberInfo } from "@/lib/relationship-service";
+import type { Memory } from "@/lib/firebase-service";
+
+// What each departure policy means, for confirmation dialogs
+export const DEPARTURE_POLICY_DESCRIPTIONS: Record<DepartureMemoryPolicy, string> = {
+  kept: "Memories stay in the relationship for everyone else",
+  hidden: "Memories are hidden from the relationship",
+  exported: "Memories are downloaded as a file, then hidden from the relationship",
+};
+
+// Refresh everything that depends on who is in a relationship
+function invalidateMembershipQueries(relationshipId: number) {
+  queryClient.invalidateQueries({ queryKey: ["relationships/user/all"] });
+  queryClient.invalidateQueries({ queryKey: ["relationships/user/primary"] });
+  queryClient.invalidateQueries({ queryKey: ["relationships/members", relationshipId] });
+  queryClient.invalidateQueries({ queryKey: ["relationships/role"] });
+  queryClient.invalidateQueries({ queryKey: ["memories", relationshipId] });
+  queryClient.invalidateQueries({ queryKey: ["dailyMemories", relationshipId] });
+}
+
+function downloadExportedMemories(relationshipId: number, memories: Memory[]) {
+  if (memories.length > 0) {
+    downloadJson(`souvella-relationship-${relationshipId}-memories.json`, memories);
+  }
+}
 
 // Hook to fetch user's primary relationship
 export function useUserRelationship(uid: string | null) {
@@ -17,6 +43,7 @@ export function useUserRelationship(uid: string | null) {
     queryKey: ["relationships/user/primary", uid],
     queryFn: async () => {
       if (!uid) return null;
+      const { getUserPrimaryRelationship } = await getBackend();
       return await getUserPrimaryRelationship(uid);
     },
     enabled: !!uid,
@@ -29,27 +56,63 @@ export function useUserRelationships(uid: string | null) {
     queryKey: ["relationships/user/all", uid],
     queryFn: async () => {
       if (!uid) return [];
-      return await getRelationships(uid);
+      const { getUserRelationships } = await getBackend();
+      return await getUserRelationships(uid);
     },
     enabled: !!uid,
   });
 }
 
+// Hook to fetch the current user's role in a relationship
+export function useRelationshipRole(uid: string | null, relationshipId: number | null) {
+  return useQuery<RelationshipRole | null>({
+    queryKey: ["relationships/role", uid, relationshipId],
+    queryFn: async () => {
+      if (!uid || !relationshipId) return null;
+      const { getUserRole } = await getBackend();
+      return await getUserRole(uid, relationshipId);
+    },
+    enabled: !!uid && !!relationshipId,
+  });
+}
+
+// Hook to fetch everyone in a relationship
+export function useRelationshipMembers(relationshipId: number | null) {
+  return useQuery<RelationshipMemberInfo[]>({
+    queryKey: ["relationships/members", relationshipId],
+    queryFn: async () => {
+      if (!relationshipId) return [];
+      const { getRelationshipMembers } = await getBackend();
+      return await getRelationshipMembers(relationshipId);
+    },
+    enabled: !!relationshipId,
+  });
+}
+
 // Hook to create a new relationship
 export function useCreateRelationship() {
   const { toast } = useToast();
   
   return useMutation({
-    mutationFn: async (uid: string) => {
+    mutationFn: async ({ 
+      uid, 
+      mode = "couple", 
+      memberLimit 
+    }: { 
+      uid: string; 
+      mode?: RelationshipMode; 
+      memberLimit?: number | null 
+    }) => {
       try {
-        console.log("Creating new relationship for user:", uid);
+        console.log("Creating new", mode, "relationship for user:", uid);
         
-        // Create the relationship in Firebase
-        const newRelationship = await createRelationship();
+        // Create the relationship
+        const { createRelationship, addOwnerToRelationship } = await getBackend();
+        const newRelationship = await createRelationship(uid, undefined, { mode, memberLimit });
         console.log("Relationship created with ID:", newRelationship.id, "and code:", newRelationship.inviteCode);
         
-        // Add the user to this relationship and get the updated relationship
-        const updatedRelationship = await addUserToRelationship(uid, newRelationship.id);
+        // Add the creator as the owner and get the updated relationship
+        const updatedRelationship = await addOwnerToRelationship(uid, newRelationship.id);
         console.log("User added to relationship, returning:", updatedRelationship);
         
         return updatedRelationship;
@@ -62,8 +125,8 @@ export function useCreateRelationship() {
       console.log("Relationship created successfully:", data);
       
       // Invalidate both the primary relationship and all relationships queries
-      queryClient.invalidateQueries({ queryKey: ["relationships/user/primary", variables] });
-      queryClient.invalidateQueries({ queryKey: ["relationships/user/all", variables] });
+      queryClient.invalidateQueries({ queryKey: ["relationships/user/primary", variables.uid] });
+      queryClient.invalidateQueries({ queryKey: ["relationships/user/all", variables.uid] });
       
       toast({
         title: "Relationship Created",
@@ -88,11 +151,20 @@ export function useUpdateRelationshipName() {
   const { toast } = useToast();
   
   return useMutation({
-    mutationFn: async ({ relationshipId, name }: { relationshipId: number; name: string }) => {
+    mutationFn: async ({ 
+      relationshipId, 
+      name, 
+      uid 
+    }: { 
+      relationshipId: number; 
+      name: string; 
+      uid: string 
+    }) => {
       try {
         console.log("Updating relationship name:", relationshipId, "to:", name);
         
-        const updatedRelationship = await updateRelationshipName(relationshipId, name);
+        const { updateRelationshipName } = await getBackend();
+        const updatedRelationship = await updateRelationshipName(relationshipId, name, uid);
         
         if (!updatedRelationship) {
           throw new Error("Failed to update relationship name");
@@ -129,6 +201,170 @@ export function useUpdateRelationshipName() {
   });
 }
 
+// Hook to fetch a relationship's invites (owner only)
+export function useRelationshipInvites(relationshipId: number | null, enabled = true) {
+  return useQuery<InviteInfo[]>({
+    queryKey: ["relationships/invites", relationshipId],
+    queryFn: async () => {
+      if (!relationshipId) return [];
+      const { getRelationshipInvites } = await getBackend();
+      return await getRelationshipInvites(relationshipId);
+    },
+    enabled: !!relationshipId && enabled,
+  });
+}
+
+// Hook to describe an invite code on the join page (works before sign-in)
+export function useInvitePreview(code: string | null) {
+  return useQuery<InvitePreview | null>({
+    queryKey: ["invites/preview", code],
+    queryFn: async () => {
+      if (!code) return null;
+      const { getInvitePreview } = await getBackend();
+      return await getInvitePreview(code);
+    },
+    enabled: !!code,
+  });
+}
+
+// Hook to issue a fresh invite (owner only)
+export function useCreateInvite() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ 
+      relationshipId, 
+      uid, 
+      inviterName,
+      options 
+    }: { 
+      relationshipId: number; 
+      uid: string; 
+      inviterName?: string | null;
+      options?: Partial<CreateInviteOptions> 
+    }) => {
+      const { createInvite } = await getBackend();
+      return await createInvite(relationshipId, uid, options, inviterName);
+    },
+    onSuccess: (data, variables) => {
+      console.log("Invite created:", data.code);
+      queryClient.invalidateQueries({ queryKey: ["relationships/invites", variables.relationshipId] });
+    },
+    onError: (error) => {
+      console.error("Error creating invite:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create invite",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Hook to revoke an invite (owner only)
+export function useRevokeInvite() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ code, uid }: { code: string; uid: string; relationshipId: number }) => {
+      const { revokeInvite } = await getBackend();
+      await revokeInvite(code, uid);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["relationships/invites", variables.relationshipId] });
+      
+      toast({
+        title: "Invite Revoked",
+        description: "That invite code no longer works.",
+      });
+    },
+    onError: (error) => {
+      console.error("Error revoking invite:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke invite",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Hook to leave a relationship
+export function useLeaveRelationship() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ 
+      uid, 
+      relationshipId, 
+      memoryPolicy 
+    }: { 
+      uid: string; 
+      relationshipId: number; 
+      memoryPolicy: DepartureMemoryPolicy 
+    }) => {
+      const { leaveRelationship } = await getBackend();
+      return await leaveRelationship(uid, relationshipId, memoryPolicy);
+    },
+    onSuccess: (exportedMemories, variables) => {
+      downloadExportedMemories(variables.relationshipId, exportedMemories);
+      invalidateMembershipQueries(variables.relationshipId);
+      
+      toast({
+        title: "Left Relationship",
+        description: DEPARTURE_POLICY_DESCRIPTIONS[variables.memoryPolicy],
+      });
+    },
+    onError: (error) => {
+      console.error("Error leaving relationship:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to leave relationship",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Hook to remove someone from a relationship (owner only)
+export function useRemoveMember() {
+  const { toast } = useToast();
+  
+  return useMutation({
+    mutationFn: async ({ 
+      uid, 
+      memberId, 
+      relationshipId, 
+      memoryPolicy 
+    }: { 
+      uid: string; 
+      memberId: string; 
+      relationshipId: number; 
+      memoryPolicy: DepartureMemoryPolicy 
+    }) => {
+      const { removeMember } = await getBackend();
+      return await removeMember(uid, memberId, relationshipId, memoryPolicy);
+    },
+    onSuccess: (exportedMemories, variables) => {
+      downloadExportedMemories(variables.relationshipId, exportedMemories);
+      invalidateMembershipQueries(variables.relationshipId);
+      
+      toast({
+        title: "Member Removed",
+        description: DEPARTURE_POLICY_DESCRIPTIONS[variables.memoryPolicy],
+      });
+    },
+    onError: (error) => {
+      console.error("Error removing member:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove member",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
 // Hook to join a relationship with an invite code
 export function useJoinRelationship() {
   const { toast } = useToast();
@@ -138,21 +374,18 @@ export function useJoinRelationship() {
       try {
         console.log("Joining relationship with invite code:", inviteCode, "for user:", uid);
         
-        // Find the relationship by invite code
-        const relationship = await getRelationshipByInviteCode(inviteCode);
+        // Check the invite, add the user and count the use
+        const { joinWithInviteCode } = await getBackend();
+        const relationship = await joinWithInviteCode(uid, inviteCode);
         
         if (!relationship) {
           console.error("Invalid invite code:", inviteCode);
           throw new Error("Invalid invite code. Please check and try again.");
         }
         
-        console.log("Found relationship with ID:", relationship.id);
+        console.log("User added to relationship, returning:", relationship);
         
-        // Add the user to this relationship and get the updated relationship
-        const updatedRelationship = await addUserToRelationship(uid, relationship.id);
-        console.log("User added to relationship, returning:", updatedRelationship);
-        
-        return updatedRelationship;
+        return relationship;
       } catch (error) {
         console.error("Error in joinRelationship mutation:", error);
         throw error;
@@ -164,6 +397,7 @@ export function useJoinRelationship() {
       // Invalidate both the primary relationship and all relationships queries
       queryClient.invalidateQueries({ queryKey: ["relationships/user/primary", variables.uid] });
       queryClient.invalidateQueries({ queryKey: ["relationships/user/all", variables.uid] });
+      queryClient.invalidateQueries({ queryKey: ["relationships/members", data.id] });
       
       toast({
         title: "Joined Relationship",
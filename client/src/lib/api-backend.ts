@@ -0,0 +1,659 @@
+import {
+  MAX_COMMENT_LENGTH,
+  getInviteStatus,
+  type BoardHistoryEntry as ApiBoardHistoryEntry,
+  type BoardMemory,
+  type CommentWithAuthor,
+  type CreateInviteOptions,
+  type DepartureMemoryPolicy,
+  type Invite,
+  type InvitePreview,
+  type Memory as ApiMemory,
+  type MemoryGift as ApiMemoryGift,
+  type MemoryReactor,
+  type MemoryType,
+  type NotificationWithActor,
+  type Relationship,
+  type RelationshipMember,
+  type RelationshipMode,
+  type RelationshipRole,
+  type UploadStatus as ApiUploadStatus
+} from "@shared/schema";
+import { REACTION_LABELS, resolveReactionCounts, type ReactionType } from "@shared/reactions";
+import type { QuotaPolicy } from "@shared/quota";
+import type { SelectionConfig } from "@shared/selection";
+import { getDayKey, getLocalTimeZone, resolveTimeZone } from "@shared/day-key";
+import type { BoardHistoryEntry, Memory, MemoryGift, UploadStatus } from "./firebase-service";
+import type { InviteInfo, RelationshipMemberInfo } from "./relationship-service";
+import type { MemoryComment } from "./comment-service";
+import type { UserNotification } from "./notification-service";
+import { GiftLimitError, InviteError, RelationshipPermissionError, RerollLimitError, UploadQuotaError } from "./errors";
+
+// The data functions of firestore-backend.ts over the server's REST API, for
+// session sign-in (VITE_AUTH_MODE=session), where there is no Firebase project.
+// The server knows users by numeric ID, and so does the client in this mode:
+// the signed-in user's uid is their ID as a string (see use-auth.ts), and so is
+// every userId passed in or handed back here.
+
+// A request the API turned down, with the { message, reason } it answered
+class ApiError extends Error {
+  constructor(public status: number, public body: { message?: string; reason?: string; [key: string]: unknown }) {
+    super(body.message || `Request failed with status ${status}`);
+    this.name = "ApiError";
+  }
+}
+
+async function fetchJson<T>(url: string, init: RequestInit): Promise<T> {
+  const res = await fetch(url, { ...init, credentials: "include" });
+
+  if (!res.ok) {
+    throw new ApiError(res.status, await res.json().catch(() => ({})));
+  }
+
+  return res.json();
+}
+
+function request<T>(method: string, url: string, data?: unknown): Promise<T> {
+  return fetchJson<T>(url, {
+    method,
+    headers: data ? { "Content-Type": "application/json" } : {},
+    body: data ? JSON.stringify(data) : undefined
+  });
+}
+
+// Owner-only routes answer 403 to everyone else
+async function requestAsOwner<T>(method: string, url: string, data?: unknown): Promise<T> {
+  try {
+    return await request<T>(method, url, data);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 403) {
+      throw new RelationshipPermissionError(error.message);
+    }
+    throw error;
+  }
+}
+
+// Photos and voice notes are stored by the server instead of Firebase Storage
+async function uploadFile(file: File): Promise<string> {
+  const { url } = await fetchJson<{ url: string }>("/api/uploads", {
+    method: "POST",
+    headers: { "Content-Type": file.type },
+    body: file
+  });
+
+  return url;
+}
+
+function toRelationship(relationship: Relationship): Relationship {
+  return { ...relationship, createdAt: new Date(relationship.createdAt) };
+}
+
+function toMemory(memory: ApiMemory | BoardMemory): Memory {
+  const converted: Memory = {
+    id: memory.id.toString(),
+    userId: memory.userId.toString(),
+    relationshipId: memory.relationshipId,
+    type: memory.type as MemoryType,
+    content: memory.content,
+    caption: memory.caption,
+    imageUrl: memory.imageUrl,
+    createdAt: new Date(memory.createdAt),
+    reactionCounts: resolveReactionCounts(memory.reactionCounts, memory.thumbsUpCount),
+    retiredAt: memory.retiredAt ? new Date(memory.retiredAt) : null,
+    retiredBy: memory.retiredByUserId !== null ? memory.retiredByUserId.toString() : null
+  };
+
+  if ("selection" in memory && memory.selection) {
+    converted.selection = memory.selection;
+  }
+
+  return converted;
+}
+
+function toInvite(invite: Invite): InviteInfo {
+  const info = {
+    code: invite.code,
+    relationshipId: invite.relationshipId,
+    createdBy: invite.createdByUserId.toString(),
+    expiresAt: invite.expiresAt ? new Date(invite.expiresAt) : null,
+    maxUses: invite.maxUses,
+    useCount: invite.useCount,
+    revokedAt: invite.revokedAt ? new Date(invite.revokedAt) : null,
+    createdAt: new Date(invite.createdAt)
+  };
+
+  return { ...info, status: getInviteStatus(info) };
+}
+
+function toMemoryGift(gift: ApiMemoryGift): MemoryGift {
+  return { memoryId: gift.memoryId.toString(), fromUserId: gift.fromUserId.toString(), note: gift.note };
+}
+
+// Today in the relationship's time zone
+async function getToday(relationshipId: number): Promise<string> {
+  const relationship = await request<Relationship>("GET", `/api/relationships/${relationshipId}`);
+  return getDayKey(new Date(), resolveTimeZone(relationship.timeZone));
+}
+
+// Relationships
+
+export async function getRelationshipById(id: number): Promise<Relationship | null> {
+  try {
+    return toRelationship(await request<Relationship>("GET", `/api/relationships/${id}`));
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function getUserRelationships(userId: string): Promise<Relationship[]> {
+  const relationships = await request<Relationship[]>("GET", "/api/relationships");
+  return relationships.map(toRelationship);
+}
+
+// The most recently created relationship
+export async function getUserPrimaryRelationship(userId: string): Promise<Relationship | null> {
+  const relationships = await getUserRelationships(userId);
+  return relationships.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0] ?? null;
+}
+
+export async function getRelationshipMembers(relationshipId: number): Promise<RelationshipMemberInfo[]> {
+  try {
+    const members = await request<RelationshipMember[]>("GET", `/api/relationships/${relationshipId}/members`);
+
+    return members.map(member => ({
+      userId: member.user.id.toString(),
+      role: member.role,
+      nickname: member.nickname,
+      joinedAt: new Date(member.joinedAt)
+    }));
+  } catch (error) {
+    console.error("Error getting relationship members:", error);
+    return [];
+  }
+}
+
+export async function getUserRole(userId: string, relationshipId: number): Promise<RelationshipRole | null> {
+  const members = await getRelationshipMembers(relationshipId);
+  return members.find(member => member.userId === userId)?.role ?? null;
+}
+
+export async function getUserNickname(userId: string, relationshipId: number): Promise<string | null> {
+  const members = await getRelationshipMembers(relationshipId);
+  return members.find(member => member.userId === userId)?.nickname ?? null;
+}
+
+// Members can only set their own nickname, so userId is always the current user
+export async function updateUserNickname(userId: string, relationshipId: number, nickname: string): Promise<boolean> {
+  try {
+    await request("PATCH", `/api/relationships/${relationshipId}/nickname`, { nickname });
+    return true;
+  } catch (error) {
+    console.error("Error updating user nickname:", error);
+    return false;
+  }
+}
+
+export async function createRelationship(
+  createdBy: string,
+  name?: string,
+  options: { mode?: RelationshipMode; memberLimit?: number | null } = {}
+): Promise<Relationship> {
+  const relationship = await request<Relationship>("POST", "/api/relationships", {
+    name,
+    mode: options.mode ?? "couple",
+    memberLimit: options.memberLimit ?? null,
+    timeZone: getLocalTimeZone()
+  });
+
+  return toRelationship(relationship);
+}
+
+// The server already made the creator the owner when it created the relationship
+export async function addOwnerToRelationship(userId: string, relationshipId: number): Promise<Relationship> {
+  return toRelationship(await request<Relationship>("GET", `/api/relationships/${relationshipId}`));
+}
+
+export async function updateRelationshipName(relationshipId: number, name: string, userId: string): Promise<Relationship | null> {
+  return toRelationship(await requestAsOwner<Relationship>("PATCH", `/api/relationships/${relationshipId}/name`, { name }));
+}
+
+export async function updateRelationshipQuotaPolicy(relationshipId: number, quotaPolicy: QuotaPolicy, userId: string): Promise<Relationship> {
+  return toRelationship(await requestAsOwner<Relationship>("PATCH", `/api/relationships/${relationshipId}/quota-policy`, quotaPolicy));
+}
+
+export async function updateRelationshipSelectionConfig(
+  relationshipId: number,
+  selectionConfig: SelectionConfig,
+  userId: string
+): Promise<Relationship> {
+  return toRelationship(await requestAsOwner<Relationship>("PATCH", `/api/relationships/${relationshipId}/selection-config`, selectionConfig));
+}
+
+export async function updateRelationshipTimeZone(relationshipId: number, timeZone: string, userId: string): Promise<Relationship> {
+  return toRelationship(await requestAsOwner<Relationship>("PATCH", `/api/relationships/${relationshipId}/time-zone`, { timeZone }));
+}
+
+export async function leaveRelationship(
+  userId: string,
+  relationshipId: number,
+  memoryPolicy: DepartureMemoryPolicy
+): Promise<Memory[]> {
+  const { exportedMemories } = await request<{ exportedMemories: ApiMemory[] }>(
+    "POST",
+    `/api/relationships/${relationshipId}/leave`,
+    { memoryPolicy }
+  );
+
+  return exportedMemories.map(toMemory);
+}
+
+export async function removeMember(
+  ownerId: string,
+  memberId: string,
+  relationshipId: number,
+  memoryPolicy: DepartureMemoryPolicy
+): Promise<Memory[]> {
+  const { exportedMemories } = await requestAsOwner<{ exportedMemories: ApiMemory[] }>(
+    "DELETE",
+    `/api/relationships/${relationshipId}/members/${memberId}`,
+    { memoryPolicy }
+  );
+
+  return exportedMemories.map(toMemory);
+}
+
+// Invites
+
+// The server names the inviter on the join page itself, so inviterName isn't sent
+export async function createInvite(
+  relationshipId: number,
+  userId: string,
+  options: Partial<CreateInviteOptions> = {},
+  inviterName: string | null = null
+): Promise<InviteInfo> {
+  return toInvite(await requestAsOwner<Invite>("POST", `/api/relationships/${relationshipId}/invites`, options));
+}
+
+// Newest first
+export async function getRelationshipInvites(relationshipId: number): Promise<InviteInfo[]> {
+  try {
+    const invites = await requestAsOwner<Invite[]>("GET", `/api/relationships/${relationshipId}/invites`);
+    return invites.map(toInvite).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  } catch (error) {
+    console.error("Error getting relationship invites:", error);
+    return [];
+  }
+}
+
+export async function revokeInvite(code: string, userId: string): Promise<void> {
+  await requestAsOwner("POST", `/api/invites/${encodeURIComponent(code)}/revoke`);
+}
+
+export async function getInvitePreview(code: string): Promise<InvitePreview | null> {
+  try {
+    const preview = await request<InvitePreview>("GET", `/api/invites/${encodeURIComponent(code.trim())}`);
+    return { ...preview, expiresAt: preview.expiresAt ? new Date(preview.expiresAt) : null };
+  } catch (error) {
+    console.error("Error getting invite preview:", error);
+    return null;
+  }
+}
+
+// null when there's no such invite
+export async function joinWithInviteCode(userId: string, code: string): Promise<Relationship | null> {
+  try {
+    return toRelationship(await request<Relationship>("POST", "/api/relationships/join", { inviteCode: code.trim() }));
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      throw error;
+    }
+
+    switch (error.status) {
+      case 404:
+        return null;
+      case 400:
+        // Already a member: nothing to join
+        if (error.body.relationship) {
+          return toRelationship(error.body.relationship as Relationship);
+        }
+        throw error;
+      case 410:
+        throw new InviteError(error.body.reason as ConstructorParameters<typeof InviteError>[0]);
+      default:
+        throw error;
+    }
+  }
+}
+
+// Memories
+
+// Newest first
+export async function getRelationshipMemories(relationshipId: number): Promise<Memory[]> {
+  try {
+    const memories = await request<ApiMemory[]>("GET", `/api/memories/relationship/${relationshipId}`);
+    return memories.map(toMemory).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  } catch (error) {
+    console.error("Error getting relationship memories:", error);
+    return [];
+  }
+}
+
+// The server draws the board if nobody has yet today
+export async function getDailyMemories(relationshipId: number, userId: string): Promise<Memory[]> {
+  const memories = await request<BoardMemory[]>("GET", `/api/daily-memories/${relationshipId}`);
+  return memories.map(toMemory);
+}
+
+export async function getBoardHistoryDays(relationshipId: number): Promise<string[]> {
+  return request<string[]>("GET", `/api/daily-memories/${relationshipId}/history`);
+}
+
+export async function getBoardHistory(relationshipId: number, dayKey: string): Promise<BoardHistoryEntry[]> {
+  const boards = await request<ApiBoardHistoryEntry[]>("GET", `/api/daily-memories/${relationshipId}/history/${dayKey}`);
+  return boards.map(board => ({ ...board, memories: board.memories.map(toMemory) }));
+}
+
+export async function getNewMemories(relationshipId: number, userId: string): Promise<Memory[]> {
+  const memories = await request<ApiMemory[]>("GET", `/api/memories/relationship/${relationshipId}/new`);
+  return memories.map(toMemory);
+}
+
+export async function markMemoriesAsViewed(relationshipId: number, userId: string): Promise<void> {
+  try {
+    await request("POST", `/api/relationships/${relationshipId}/seen`);
+  } catch (error) {
+    console.error("Error marking memories as viewed:", error);
+  }
+}
+
+// When each member last caught up, by user ID. Members who never have are left out.
+export async function getReadReceipts(relationshipId: number): Promise<Record<string, Date>> {
+  const members = await request<RelationshipMember[]>("GET", `/api/relationships/${relationshipId}/members`);
+  const receipts: Record<string, Date> = {};
+
+  members.forEach(member => {
+    if (member.lastSeenAt) {
+      receipts[member.user.id.toString()] = new Date(member.lastSeenAt);
+    }
+  });
+
+  return receipts;
+}
+
+export async function getUserUploadStatus(userId: string, relationshipId: number): Promise<UploadStatus> {
+  const status = await request<ApiUploadStatus>("GET", `/api/relationships/${relationshipId}/upload-status`);
+
+  return {
+    allowance: status.allowance,
+    used: status.used,
+    remaining: status.remaining,
+    limitReached: status.limitReached,
+    latestMemory: status.latestMemory ? toMemory(status.latestMemory) : undefined
+  };
+}
+
+// The server checks the upload quota in the same transaction as the insert
+export async function createMemory(data: {
+  userId: string;
+  relationshipId: number;
+  type: string;
+  content: string;
+  caption?: string;
+  file?: File;
+}): Promise<Memory> {
+  // Fail before uploading any file if the quota is already used up
+  const { allowance, limitReached } = await getUserUploadStatus(data.userId, data.relationshipId);
+
+  if (limitReached) {
+    throw new UploadQuotaError(allowance);
+  }
+
+  const imageUrl = data.file && (data.type === "image" || data.type === "audio")
+    ? await uploadFile(data.file)
+    : null;
+
+  try {
+    const memory = await request<ApiMemory>("POST", "/api/memories", {
+      relationshipId: data.relationshipId,
+      type: data.type,
+      content: data.content || "",
+      caption: data.caption?.trim() || null,
+      imageUrl
+    });
+
+    return toMemory(memory);
+  } catch (error) {
+    if (error instanceof ApiError && error.body.reason === "quota_exceeded") {
+      throw new UploadQuotaError(allowance);
+    }
+    throw error;
+  }
+}
+
+export async function setMemoryRetired(memoryId: string, userId: string, retired: boolean): Promise<void> {
+  await request("PATCH", `/api/memories/${memoryId}/retired`, { retired });
+}
+
+// Server data never has image or audio memories without their file
+export async function cleanupFaultyMemories(userId: string): Promise<number> {
+  return 0;
+}
+
+// Reactions
+
+export async function getUserRemainingReactions(userId: string, relationshipId: number): Promise<Record<ReactionType, number>> {
+  const { remaining } = await request<{ remaining: Record<ReactionType, number> }>(
+    "GET",
+    `/api/relationships/${relationshipId}/reactions/remaining`
+  );
+
+  return remaining;
+}
+
+export async function reactToMemory(
+  memoryId: string,
+  userId: string,
+  relationshipId: number,
+  type: ReactionType
+): Promise<{ success: boolean, message: string }> {
+  try {
+    const remaining = (await getUserRemainingReactions(userId, relationshipId))[type];
+
+    if (remaining <= 0) {
+      return {
+        success: false,
+        message: `You've used all your ${REACTION_LABELS[type].toLowerCase()} reactions for this relationship today!`
+      };
+    }
+
+    await request("POST", `/api/memories/${memoryId}/react`, { type });
+
+    return {
+      success: true,
+      message: `${REACTION_LABELS[type]} added! You have ${remaining - 1} left for this relationship today.`
+    };
+  } catch (error) {
+    console.error("Error adding reaction:", error);
+    return {
+      success: false,
+      message: error instanceof ApiError && error.status === 409
+        ? error.message
+        : "An error occurred while adding your reaction"
+    };
+  }
+}
+
+export async function removeReaction(
+  memoryId: string,
+  userId: string,
+  relationshipId: number,
+  type: ReactionType
+): Promise<{ success: boolean, message: string }> {
+  try {
+    await request("DELETE", `/api/memories/${memoryId}/react?type=${type}`);
+    return { success: true, message: `${REACTION_LABELS[type]} taken back.` };
+  } catch (error) {
+    console.error("Error removing reaction:", error);
+    return {
+      success: false,
+      message: error instanceof ApiError && error.status === 404
+        ? error.message
+        : "An error occurred while taking back your reaction"
+    };
+  }
+}
+
+async function getReactions(memoryId: string): Promise<MemoryReactor[]> {
+  return request<MemoryReactor[]>("GET", `/api/memories/${memoryId}/reactions`);
+}
+
+// Members who reacted to a memory, in the order they first did
+export async function getMemoryReactors(memoryId: string, relationshipId: number): Promise<string[]> {
+  try {
+    const reactions = await getReactions(memoryId);
+    return Array.from(new Set(reactions.map(reaction => reaction.user.id.toString())));
+  } catch (error) {
+    console.error("Error getting memory reactors:", error);
+    return [];
+  }
+}
+
+export async function getTodaysReactionTypes(memoryId: string, userId: string, relationshipId: number): Promise<ReactionType[]> {
+  try {
+    const [reactions, today] = await Promise.all([getReactions(memoryId), getToday(relationshipId)]);
+
+    return reactions
+      .filter(reaction => reaction.user.id.toString() === userId && reaction.dayKey === today)
+      .map(reaction => reaction.type);
+  } catch (error) {
+    console.error("Error getting today's reactions:", error);
+    return [];
+  }
+}
+
+// Gifts and rerolls
+
+export async function getBoardGifts(relationshipId: number): Promise<MemoryGift[]> {
+  try {
+    const gifts = await request<ApiMemoryGift[]>("GET", `/api/daily-memories/${relationshipId}/gifts`);
+    return gifts.map(toMemoryGift);
+  } catch (error) {
+    console.error("Error getting board gifts:", error);
+    return [];
+  }
+}
+
+export async function hasGiftedToday(userId: string, relationshipId: number): Promise<boolean> {
+  try {
+    const gifts = await request<ApiMemoryGift[]>("GET", `/api/daily-memories/${relationshipId}/gifts/tomorrow`);
+    return gifts.some(gift => gift.fromUserId.toString() === userId);
+  } catch (error) {
+    console.error("Error checking today's gift:", error);
+    return true; // Assume the gift is used in case of error to prevent duplicates
+  }
+}
+
+export async function giftMemory(memoryId: string, userId: string, relationshipId: number, note: string | null): Promise<void> {
+  try {
+    await request("POST", `/api/memories/${memoryId}/gift`, { note });
+  } catch (error) {
+    if (error instanceof ApiError && error.body.reason === "gift_limit") {
+      throw new GiftLimitError();
+    }
+    throw error;
+  }
+}
+
+export async function getUserRemainingRerolls(userId: string, relationshipId: number): Promise<number> {
+  try {
+    const { remaining } = await request<{ remaining: number }>("GET", `/api/daily-memories/${relationshipId}/rerolls`);
+    return remaining;
+  } catch (error) {
+    console.error("Error checking remaining rerolls:", error);
+    return 0; // Default to 0 in case of error to prevent further rerolls
+  }
+}
+
+export async function regenerateDailyMemories(relationshipId: number, userId: string): Promise<Memory[]> {
+  try {
+    const memories = await request<BoardMemory[]>("POST", `/api/daily-memories/${relationshipId}/reroll`);
+    return memories.map(toMemory);
+  } catch (error) {
+    if (error instanceof ApiError && error.body.reason === "reroll_limit") {
+      const { rerollsPerDay } = await request<{ rerollsPerDay: number }>("GET", `/api/daily-memories/${relationshipId}/rerolls`);
+      throw new RerollLimitError(rerollsPerDay);
+    }
+    throw error;
+  }
+}
+
+// Comments
+
+export async function getMemoryComments(memoryId: string, userId: string, relationshipId: number): Promise<MemoryComment[]> {
+  const thread = await request<CommentWithAuthor[]>("GET", `/api/memories/${memoryId}/comments`);
+
+  return thread.map(comment => ({
+    id: comment.id.toString(),
+    memoryId: comment.memoryId.toString(),
+    userId: comment.userId.toString(),
+    content: comment.content,
+    audioUrl: comment.audioUrl,
+    createdAt: new Date(comment.createdAt)
+  }));
+}
+
+export async function addMemoryComment(data: {
+  memoryId: string;
+  userId: string;
+  relationshipId: number;
+  content: string;
+  audioFile?: File | null;
+}): Promise<void> {
+  const content = data.content.trim();
+
+  if (!content && !data.audioFile) {
+    throw new Error("Write something or record a voice note");
+  }
+
+  if (content.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comments can be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  const audioUrl = data.audioFile ? await uploadFile(data.audioFile) : null;
+
+  await request("POST", `/api/memories/${data.memoryId}/comments`, { content, audioUrl });
+}
+
+export async function getCommentCounts(relationshipId: number, userId: string): Promise<Record<string, number>> {
+  return request<Record<string, number>>("GET", `/api/relationships/${relationshipId}/comment-counts`);
+}
+
+// Notifications
+
+export async function getNotifications(userId: string): Promise<UserNotification[]> {
+  const feed = await request<NotificationWithActor[]>("GET", "/api/notifications");
+
+  return feed.map(notification => ({
+    id: notification.id.toString(),
+    source: "api" as const,
+    relationshipId: notification.relationshipId,
+    type: notification.type,
+    actorId: notification.actor ? notification.actor.id.toString() : null,
+    actorName: notification.actor?.displayName || null,
+    memoryId: notification.memoryId !== null ? notification.memoryId.toString() : null,
+    reactionType: notification.reactionType,
+    read: notification.readAt !== null,
+    createdAt: new Date(notification.createdAt)
+  }));
+}
+
+export async function markNotificationRead(notification: UserNotification, userId: string): Promise<void> {
+  await request("POST", `/api/notifications/${notification.id}/read`);
+}
+
+export async function markAllNotificationsRead(userId: string): Promise<void> {
+  await request("POST", "/api/notifications/read-all");
+}
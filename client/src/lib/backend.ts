@@ -0,0 +1,10 @@
+import { isSessionAuth } from "./queryClient";
+
+export type Backend = typeof import("./firestore-backend");
+
+// Where the app's data lives. Session sign-in is for installs without a Firebase
+// project, so there it comes from the server's API; loading the backend lazily
+// keeps the Firebase SDK out of those installs entirely.
+export function getBackend(): Promise<Backend> {
+  return isSessionAuth ? import("./api-backend") : import("./firestore-backend");
+}
@@ -0,0 +1,162 @@
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  addDoc,
+  doc,
+  getDoc,
+  serverTimestamp,
+  Timestamp
+} from "firebase/firestore";
+import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
+import { firestore, storage } from "./firebase";
+import { getUserRole } from "./relationship-service";
+import { RelationshipPermissionError } from "./errors";
+import { notifyMembers } from "./notification-service";
+import { MAX_COMMENT_LENGTH } from "@shared/schema";
+
+// Collection references
+const commentsCollection = collection(firestore, "comments");
+const memoriesCollection = collection(firestore, "memories");
+
+// Interface for Firestore comment document
+interface FirestoreComment {
+  memoryId: string;
+  relationshipId: string; // Using string to match how memories store it
+  userId: string; // Firebase UID of the author
+  content: string; // Empty for a voice note on its own
+  audioUrl: string | null; // Voice note
+  createdAt: Timestamp;
+}
+
+// A comment in a memory's thread
+export interface MemoryComment {
+  id: string;
+  memoryId: string;
+  userId: string;
+  content: string;
+  audioUrl: string | null;
+  createdAt: Date;
+}
+
+// Comments follow their memory: only members can read or write them, and a
+// hidden memory takes its thread with it. Returns the memory's author.
+async function assertCanSeeMemory(memoryId: string, userId: string, relationshipId: number): Promise<string> {
+  const role = await getUserRole(userId, relationshipId);
+
+  if (!role) {
+    throw new RelationshipPermissionError("You are not a member of this relationship");
+  }
+
+  const memoryDoc = await getDoc(doc(memoriesCollection, memoryId));
+  const data = memoryDoc.data();
+
+  if (!memoryDoc.exists() || data?.hiddenAt || data?.relationshipId !== relationshipId.toString()) {
+    throw new Error("Memory not found");
+  }
+
+  return data.userId;
+}
+
+// Upload a voice note next to the relationship's memory files
+async function uploadVoiceNote(file: File, relationshipId: number): Promise<string> {
+  const storageRef = ref(storage, `comments/${relationshipId}/${Date.now()}_${file.name}`);
+  const snapshot = await uploadBytes(storageRef, file);
+
+  return getDownloadURL(snapshot.ref);
+}
+
+// Get a memory's thread, oldest first
+export async function getMemoryComments(memoryId: string, userId: string, relationshipId: number): Promise<MemoryComment[]> {
+  await assertCanSeeMemory(memoryId, userId, relationshipId);
+
+  const querySnapshot = await getDocs(query(
+    commentsCollection,
+    where("relationshipId", "==", relationshipId.toString()),
+    where("memoryId", "==", memoryId)
+  ));
+
+  return querySnapshot.docs
+    .map(doc => {
+      const data = doc.data() as FirestoreComment;
+      return {
+        id: doc.id,
+        memoryId: data.memoryId,
+        userId: data.userId,
+        content: data.content,
+        audioUrl: data.audioUrl || null,
+        createdAt: data.createdAt ? data.createdAt.toDate() : new Date()
+      };
+    })
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+// Add a comment: text, a voice note, or both
+export async function addMemoryComment(data: {
+  memoryId: string;
+  userId: string;
+  relationshipId: number;
+  content: string;
+  audioFile?: File | null;
+}): Promise<void> {
+  const content = data.content.trim();
+
+  if (!content && !data.audioFile) {
+    throw new Error("Write something or record a voice note");
+  }
+
+  if (content.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comments can be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  const authorId = await assertCanSeeMemory(data.memoryId, data.userId, data.relationshipId);
+
+  const audioUrl = data.audioFile ? await uploadVoiceNote(data.audioFile, data.relationshipId) : null;
+  const comment: Omit<FirestoreComment, "createdAt"> = {
+    memoryId: data.memoryId,
+    relationshipId: data.relationshipId.toString(),
+    userId: data.userId,
+    content,
+    audioUrl
+  };
+
+  await addDoc(commentsCollection, { ...comment, createdAt: serverTimestamp() });
+
+  // The author hears about every comment, and so does everyone in the thread
+  const thread = await getDocs(query(
+    commentsCollection,
+    where("relationshipId", "==", comment.relationshipId),
+    where("memoryId", "==", data.memoryId)
+  ));
+
+  await notifyMembers({
+    relationshipId: data.relationshipId,
+    type: "memory_commented",
+    actorId: data.userId,
+    memoryId: data.memoryId
+  }, data.userId, [authorId, ...thread.docs.map(doc => (doc.data() as FirestoreComment).userId)]);
+}
+
+// Comments per memory ID across a relationship, for the timeline
+export async function getCommentCounts(relationshipId: number, userId: string): Promise<Record<string, number>> {
+  const role = await getUserRole(userId, relationshipId);
+
+  if (!role) {
+    throw new RelationshipPermissionError("You are not a member of this relationship");
+  }
+
+  const querySnapshot = await getDocs(query(
+    commentsCollection,
+    where("relationshipId", "==", relationshipId.toString())
+  ));
+
+  const counts: Record<string, number> = {};
+
+  querySnapshot.docs.forEach(doc => {
+    const { memoryId } = doc.data() as FirestoreComment;
+    counts[memoryId] = (counts[memoryId] ?? 0) + 1;
+  });
+
+  return counts;
+}
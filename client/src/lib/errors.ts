@@ -0,0 +1,48 @@
+import { INVITE_STATUS_MESSAGES, type InviteStatus } from "@shared/schema";
+import { getQuotaExceededMessage, type UploadAllowance } from "@shared/quota";
+
+// Errors the data functions throw for the hooks to tell apart. They live apart
+// from the Firestore services so session mode can use them without loading
+// Firebase (see backend.ts).
+
+// Thrown by createMemory when every upload slot in the period is taken
+export class UploadQuotaError extends Error {
+  constructor(public allowance: UploadAllowance) {
+    super(getQuotaExceededMessage(allowance));
+    this.name = "UploadQuotaError";
+  }
+}
+
+// Thrown by regenerateDailyMemories when the member has no rerolls left today
+export class RerollLimitError extends Error {
+  constructor(public limit: number) {
+    super(limit === 0
+      ? "Rerolls are turned off for this relationship."
+      : "You've used all your rerolls for today. Come back tomorrow!");
+    this.name = "RerollLimitError";
+  }
+}
+
+// Thrown by giftMemory when the member already gifted a memory today
+export class GiftLimitError extends Error {
+  constructor() {
+    super("You've already gifted a memory today. You can gift another tomorrow.");
+    this.name = "GiftLimitError";
+  }
+}
+
+// Thrown when an invite exists but can no longer be used
+export class InviteError extends Error {
+  constructor(public status: Exclude<InviteStatus, "valid">) {
+    super(INVITE_STATUS_MESSAGES[status]);
+    this.name = "InviteError";
+  }
+}
+
+// Thrown when a non-owner tries an owner-only action
+export class RelationshipPermissionError extends Error {
+  constructor(message = "Only the relationship owner can do this") {
+    super(message);
+    this.name = "RelationshipPermissionError";
+  }
+}
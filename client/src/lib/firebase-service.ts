@@ -12,17 +12,52 @@ import {
   getDoc, 
   limit,
   QueryDocumentSnapshot,
+  DocumentSnapshot,
   writeBatch,
-  increment
+  increment,
+  runTransaction,
+  setDoc
 } from "firebase/firestore";
 import { ref, uploadBytes, getDownloadURL, UploadResult } from "firebase/storage";
 import { firestore, storage } from "./firebase";
+import { notifyMembers } from "./notification-service";
+import { GiftLimitError, RerollLimitError, UploadQuotaError } from "./errors";
 import { MemoryType } from "@shared/schema";
+import {
+  EMPTY_REACTION_COUNTS,
+  REACTION_DAILY_LIMITS,
+  REACTION_LABELS,
+  adjustReactionCounts,
+  resolveReactionCounts,
+  type ReactionCounts,
+  type ReactionType
+} from "@shared/reactions";
+import {
+  QuotaPolicy,
+  UploadAllowance,
+  getUploadAllowance,
+  getUploadSlotKeys
+} from "@shared/quota";
+import { addDays, getDayKey, resolveTimeZone } from "@shared/day-key";
+import {
+  SelectionConfig,
+  SelectionExplanation,
+  getLastShownDayKeys,
+  getSelectionSeed,
+  resolveSelectionConfig,
+  selectMemories
+} from "@shared/selection";
 
 // Collection references
 const memoriesCollection = collection(firestore, "memories");
 const dailyMemoriesCollection = collection(firestore, "dailyMemories");
 const userReactionsCollection = collection(firestore, "userReactions");
+const uploadSlotsCollection = collection(firestore, "uploadSlots");
+const relationshipsCollection = collection(firestore, "relationships");
+const rerollsCollection = collection(firestore, "rerolls");
+const boardHistoryCollection = collection(firestore, "boardHistory");
+const memoryGiftsCollection = collection(firestore, "memoryGifts");
+const readReceiptsCollection = collection(firestore, "readReceipts");
 
 // Interface for Firestore memory document
 interface FirestoreMemory {
@@ -33,8 +68,13 @@ interface FirestoreMemory {
   caption?: string;
   imageUrl?: string;
   createdAt: Timestamp;
-  thumbsUpCount: number;
-  isNew: boolean; // Flag to indicate a newly added memory
+  thumbsUpCount?: number; // Before reaction types; see reactionCounts
+  reactionCounts?: ReactionCounts; // Missing until the first reaction since reaction types
+  isNew?: boolean; // Before read receipts: new to everyone until anyone viewed it
+  hiddenAt?: Timestamp | null; // Set when the author left and took their memories with them
+  retiredAt?: Timestamp | null; // Set when a member took the memory out of the daily rotation
+  retiredBy?: string | null; // Firebase UID of the member who retired it
+  uploadSlotKey?: string; // The upload slot claimed with it; missing on memories from before firestore.rules checked it
 }
 
 // Custom Memory type for Firestore compatibility with string IDs
@@ -47,25 +87,181 @@ export interface Memory {
   caption: string | null;
   imageUrl: string | null;
   createdAt: Date;
-  thumbsUpCount: number;
-  isNew: boolean;
+  reactionCounts: ReactionCounts;
+  retiredAt: Date | null;
+  retiredBy: string | null;
+  selection?: SelectionExplanation; // Only on daily board memories: why the draw picked it
 }
 
 
+// Claimed in the same transaction as the memory it pays for. The document ID
+// is derived from user, relationship and slot key (see shared/quota.ts), so an
+// upload over the limit collides with an existing slot instead of slipping
+// past a query
+interface FirestoreUploadSlot {
+  userId: string;
+  relationshipId: string;
+  slotKey: string;
+  memoryId: string;
+  createdAt: Timestamp;
+}
+
+// Rerolls a member has used on a day. The document ID is derived from
+// relationship, user and day, so each member has one counter per day
+interface FirestoreReroll {
+  userId: string;
+  relationshipId: string;
+  date: string; // Day key in the relationship's time zone
+  count: number;
+}
+
+// Draws regenerateDailyMemories makes before giving up on a board that keeps
+// being rerolled under it
+const MAX_REROLL_ATTEMPTS = 3;
+
+function getRerollRef(userId: string, relationshipId: number, dayKey: string) {
+  return doc(rerollsCollection, `${relationshipId}_${userId}_${dayKey}`);
+}
+
+// A past memory a member hand-picked for the next day's board. The document
+// ID is derived from relationship, member and board day, so a second gift on
+// the same day collides with the first
+interface FirestoreMemoryGift {
+  relationshipId: string;
+  memoryId: string;
+  fromUserId: string;
+  note: string | null;
+  boardDayKey: string; // Day key of the board it lands on
+  createdAt: Timestamp;
+}
+
+export interface MemoryGift {
+  memoryId: string;
+  fromUserId: string;
+  note: string | null;
+}
+
+function getGiftRef(userId: string, relationshipId: number, boardDayKey: string) {
+  return doc(memoryGiftsCollection, `${relationshipId}_${userId}_${boardDayKey}`);
+}
+
+export interface UploadStatus {
+  allowance: UploadAllowance;
+  used: number;
+  remaining: number | null; // null when there is no limit today
+  limitReached: boolean;
+  latestMemory?: Memory; // Most recent upload in the current period
+}
+
+// How far a member has caught up with a relationship. The document ID is
+// derived from relationship and member, so each member has one receipt
+interface FirestoreReadReceipt {
+  relationshipId: string;
+  userId: string;
+  lastSeenAt: Timestamp; // Memories shared after this are new to the member
+}
+
+function getReadReceiptRef(userId: string, relationshipId: number) {
+  return doc(readReceiptsCollection, `${relationshipId}_${userId}`);
+}
+
+function getUploadSlotRef(userId: string, relationshipId: number, slotKey: string) {
+  return doc(uploadSlotsCollection, `${relationshipId}_${userId}_${slotKey}`);
+}
+
+// "Today" for a relationship, as a day key in its time zone. Everyone in the
+// relationship sees the same day, wherever their browser happens to be
+interface RelationshipDay {
+  today: string;
+  timeZone: string;
+  quotaPolicy: QuotaPolicy | null;
+  selectionConfig: SelectionConfig | null;
+}
+
+async function getRelationshipDay(relationshipId: number): Promise<RelationshipDay> {
+  const relationshipDoc = await getDoc(doc(relationshipsCollection, relationshipId.toString()));
+  const data = relationshipDoc.exists() ? relationshipDoc.data() : {};
+  const timeZone = resolveTimeZone(data.timeZone as string | undefined);
+  
+  return {
+    today: getDayKey(new Date(), timeZone),
+    timeZone,
+    quotaPolicy: (data.quotaPolicy as QuotaPolicy | undefined) ?? null,
+    selectionConfig: (data.selectionConfig as SelectionConfig | undefined) ?? null
+  };
+}
+
+// Work out the current quota period from the relationship's policy
+async function getCurrentUploadAllowance(relationshipId: number): Promise<UploadAllowance> {
+  const { today, quotaPolicy } = await getRelationshipDay(relationshipId);
+  return getUploadAllowance(quotaPolicy, today);
+}
+
+// One document per relationship and day, holding the day's current board.
+// The ID is derived from both, so partners opening the app at the same time
+// race for the same document instead of adding one each
 interface FirestoreDailyMemory {
   relationshipId: string; // Using string to match how it's stored in Firestore
+  day?: string; // Day key in the relationship's time zone; missing on documents from before the repair
   memoryIds: string[];
   date: Timestamp;
+  reroll?: number; // Rerolls made on the board's day
+  selections?: Record<string, SelectionExplanation>; // Memory ID to why it was picked; missing on older boards
 }
 
-// Interface for tracking user reactions (thumbs up)
+function getDailyBoardRef(relationshipId: number, dayKey: string) {
+  return doc(dailyMemoriesCollection, `${relationshipId}_${dayKey}`);
+}
+
+// The dailyMemories document only holds the current board, so every board is
+// also appended here. The document ID is derived from relationship, day and
+// reroll, so two members drawing the same board write the same record.
+interface FirestoreBoardHistory {
+  relationshipId: string;
+  date: string; // Day key in the relationship's time zone
+  reroll: number; // 0 for the day's first board
+  memoryIds: string[];
+  createdAt: Timestamp;
+}
+
+export interface BoardHistoryEntry {
+  date: string;
+  reroll: number;
+  memories: Memory[];
+}
+
+function getBoardHistoryRef(relationshipId: number, date: string, reroll: number) {
+  return doc(boardHistoryCollection, `${relationshipId}_${date}_${reroll}`);
+}
+
+function getBoardHistoryEntry(relationshipId: number, date: string, reroll: number, memoryIds: string[]) {
+  return {
+    relationshipId: relationshipId.toString(),
+    date,
+    reroll,
+    memoryIds,
+    createdAt: serverTimestamp()
+  };
+}
+
+async function recordBoardHistory(relationshipId: number, date: string, reroll: number, memoryIds: string[]): Promise<void> {
+  await setDoc(getBoardHistoryRef(relationshipId, date, reroll), getBoardHistoryEntry(relationshipId, date, reroll, memoryIds));
+}
+
+// Interface for tracking user reactions
 interface UserReaction {
   userId: string;
   memoryId: string;
+  type?: ReactionType; // Missing on reactions from before reaction types, which were thumbs-ups
   createdAt: Timestamp;
   date: string; // YYYY-MM-DD format for easier querying by day
 }
 
+// Hidden memories belong to someone who left; they never show up in the relationship
+function isVisibleMemory(doc: QueryDocumentSnapshot): boolean {
+  return !(doc.data() as FirestoreMemory).hiddenAt;
+}
+
 // Convert Firestore document to Memory type
 function convertToMemory(doc: QueryDocumentSnapshot): Memory {
   const data = doc.data() as FirestoreMemory;
@@ -90,10 +286,11 @@ function convertToMemory(doc: QueryDocumentSnapshot): Memory {
     type: data.type as MemoryType,
     content: data.content,
     createdAt: data.createdAt ? data.createdAt.toDate() : new Date(),
-    thumbsUpCount: data.thumbsUpCount || 0,
+    reactionCounts: resolveReactionCounts(data.reactionCounts, data.thumbsUpCount || 0),
     caption: data.caption || null,
     imageUrl: data.imageUrl || null,
-    isNew: data.isNew || false
+    retiredAt: data.retiredAt ? data.retiredAt.toDate() : null,
+    retiredBy: data.retiredBy || null
   };
 }
 
@@ -113,6 +310,7 @@ export async function getRelationshipMemories(relationshipId: number): Promise<M
     
     // Sort client-side by creation date (descending)
     const memories = querySnapshot.docs
+      .filter(isVisibleMemory)
       .map(convertToMemory)
       .sort((a, b) => {
         return b.createdAt.getTime() - a.createdAt.getTime();
@@ -125,131 +323,100 @@ export async function getRelationshipMemories(relationshipId: number): Promise<M
   }
 }
 
-// Get today's memories for a relationship
-export async function getDailyMemories(relationshipId: number): Promise<Memory[]> {
-  try {
-    // Convert relationshipId to string to match how it's stored
-    const relationshipIdString = relationshipId.toString();
-    
-    console.log(`Fetching daily memories for relationship ${relationshipId} (${relationshipIdString})`);
-    
-    // Get today's date at midnight for comparison
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    // Formatted date strings for reliable comparison
-    const todayString = formatDateForStorage(today);
-    
-    // Use a single where clause to avoid needing a composite index
-    const dailyMemoryQuery = query(
-      dailyMemoriesCollection,
-      where("relationshipId", "==", relationshipIdString)
-    );
-    
-    const querySnapshot = await getDocs(dailyMemoryQuery);
+// Fetch a board's memories in board order, skipping any that are gone or hidden
+async function getBoardMemories(
+  memoryIds: string[], 
+  selections: Record<string, SelectionExplanation> = {}
+): Promise<Memory[]> {
+  const memories: Memory[] = [];
+  
+  for (const memoryId of memoryIds) {
+    const memoryDoc = await getDoc(doc(memoriesCollection, memoryId));
     
-    // If no daily memories document exists at all, create one with initial memories
-    if (querySnapshot.empty) {
-      console.log(`No daily memories found for relationship ${relationshipId}. Will generate initial memories.`);
-      
-      // Select random memories for this relationship
-      const randomMemories = await selectRandomMemoriesForDay(relationshipId, 4);
-      console.log(`Generated ${randomMemories.length} random memories for initial daily view.`);
-      
-      // Create a daily memory document with the random memories
-      if (randomMemories.length > 0) {
-        const memoryIds = randomMemories.map(memory => memory.id);
-        
-        // Create a new document with today's date
-        await addDoc(dailyMemoriesCollection, {
-          relationshipId: relationshipIdString,
-          memoryIds,
-          date: serverTimestamp()
-        });
-        
-        console.log(`Created new daily memories document with ${memoryIds.length} memories`);
-        return randomMemories;
-      }
-      
-      return []; // No memories available
+    if (memoryDoc.exists() && isVisibleMemory(memoryDoc)) {
+      memories.push({ ...convertToMemory(memoryDoc), selection: selections[memoryId] });
+    } else {
+      console.log(`Memory ${memoryId} not found`);
     }
+  }
+  
+  return memories;
+}
+
+// Why each memory on a freshly drawn board was picked, for the board document
+function getBoardSelections(memories: Memory[]): Record<string, SelectionExplanation> {
+  return Object.fromEntries(memories
+    .filter(memory => memory.selection)
+    .map(memory => [memory.id, memory.selection!]));
+}
+
+// Draw today's board and save it, unless another member got there first. The
+// draw is seeded, so both would pick the same memories anyway; the transaction
+// makes sure only one document is written.
+async function createDailyBoard(relationshipId: number, relationshipDay: RelationshipDay, userId: string): Promise<Memory[]> {
+  const { today } = relationshipDay;
+  const selectedMemories = await drawDailyBoard(relationshipId, relationshipDay);
+  
+  // Nothing to show yet; draw again on the next fetch in case memories turn up
+  if (selectedMemories.length === 0) {
+    return [];
+  }
+  
+  const memoryIds = selectedMemories.map(memory => memory.id);
+  const boardRef = getDailyBoardRef(relationshipId, today);
+  
+  const existingBoard = await runTransaction(firestore, async (transaction) => {
+    const boardDoc = await transaction.get(boardRef);
     
-    // We have an existing daily memories document
-    const dailyMemoryDoc = querySnapshot.docs[0];
-    const dailyMemory = dailyMemoryDoc.data() as FirestoreDailyMemory;
-    
-    console.log(`Found daily memory document for relationship ${relationshipId}`);
+    if (boardDoc.exists()) {
+      return boardDoc.data() as FirestoreDailyMemory;
+    }
     
-    // Log the document for debugging
-    console.log(`Daily memory document data:`, {
-      relationshipId: dailyMemory.relationshipId,
-      date: dailyMemory.date ? dailyMemory.date.toDate().toISOString() : 'No date',
-      memoryIds: dailyMemory.memoryIds || [],
-      memoryCount: dailyMemory.memoryIds ? dailyMemory.memoryIds.length : 0
+    transaction.set(boardRef, {
+      relationshipId: relationshipId.toString(),
+      day: today,
+      memoryIds,
+      date: serverTimestamp(),
+      reroll: 0,
+      selections: getBoardSelections(selectedMemories)
     });
+    return null;
+  });
+  
+  if (existingBoard) {
+    console.log(`Another member already saved today's board for relationship ${relationshipId}`);
+    return getBoardMemories(existingBoard.memoryIds, existingBoard.selections);
+  }
+  
+  await recordBoardHistory(relationshipId, today, 0, memoryIds);
+  console.log(`Created today's board with ${memoryIds.length} memories`);
+  
+  // Whoever drew it is already looking at it
+  await notifyMembers({ relationshipId, type: "board_ready" }, userId);
+  return selectedMemories;
+}
+
+// Get today's memories for a relationship
+export async function getDailyMemories(relationshipId: number, userId: string): Promise<Memory[]> {
+  try {
+    console.log(`Fetching daily memories for relationship ${relationshipId}`);
     
-    // Check if we need to regenerate memories (only if the date is different from today)
-    let shouldRegenerateMemories = false;
-    let memoryDateString = todayString; // Default to today
-    
-    if (dailyMemory.date) {
-      const memoryDate = dailyMemory.date.toDate();
-      memoryDateString = formatDateForStorage(memoryDate);
-      
-      console.log(`Comparing memory date: ${memoryDateString} with today: ${todayString}`);
-      
-      // Only regenerate if the date is different (i.e., it's a new day)
-      shouldRegenerateMemories = (memoryDateString !== todayString);
-    }
+    // Day keys in the relationship's time zone for reliable comparison
+    const relationshipDay = await getRelationshipDay(relationshipId);
+    const boardDoc = await getDoc(getDailyBoardRef(relationshipId, relationshipDay.today));
     
-    // If we need to regenerate, do so
-    if (shouldRegenerateMemories) {
-      console.log(`Daily memories are from ${memoryDateString}, which is different from today (${todayString}). Generating new memories.`);
-      
-      // Generate new memories
-      const randomMemories = await regenerateDailyMemories(relationshipId, 4);
-      console.log(`Generated ${randomMemories.length} new random memories for daily view.`);
+    if (!boardDoc.exists()) {
+      console.log(`No board yet for ${relationshipDay.today}. Will generate today's memories.`);
       
-      if (randomMemories.length > 0) {
-        // Update the document with the new memory IDs AND the new date
-        await updateDoc(dailyMemoryDoc.ref, {
-          memoryIds: randomMemories.map(memory => memory.id),
-          date: serverTimestamp()
-        });
-        
-        console.log(`Updated daily memories document with ${randomMemories.length} memories and new date`);
-        return randomMemories;
-      }
-      
-      return []; // No memories available after regeneration
-    }
-    
-    console.log(`Daily memories are already from today (${todayString}). Not regenerating.`);
-    
-    // If there are no memory IDs in the existing document, return empty array
-    if (!dailyMemory.memoryIds || dailyMemory.memoryIds.length === 0) {
-      console.log(`No memory IDs found in daily memory document.`);
-      return [];
+      // Boards saved before day-keyed documents may include today's
+      await repairDailyMemoryDocuments(relationshipId);
+      return createDailyBoard(relationshipId, relationshipDay, userId);
     }
     
-    // Fetch the actual memory documents for the IDs we have
-    const memories: Memory[] = [];
-    
-    for (const memoryId of dailyMemory.memoryIds) {
-      console.log(`Fetching memory with ID: ${memoryId}`);
-      const memoryDoc = await getDoc(doc(memoriesCollection, memoryId));
-      
-      if (memoryDoc.exists()) {
-        const memory = convertToMemory(memoryDoc);
-        memories.push(memory);
-        console.log(`Memory found: ${memory.id}, type: ${memory.type}, thumbsUp: ${memory.thumbsUpCount}`);
-      } else {
-        console.log(`Memory ${memoryId} not found`);
-      }
-    }
+    const dailyMemory = boardDoc.data() as FirestoreDailyMemory;
+    const memories = await getBoardMemories(dailyMemory.memoryIds || [], dailyMemory.selections);
     
     console.log(`Retrieved ${memories.length}/${dailyMemory.memoryIds.length} memories for daily view`);
-    console.log(`Successfully retrieved ${memories.length} daily memories:`, memories.map(m => ({id: m.id, type: m.type, thumbsUp: m.thumbsUpCount})));
     
     return memories;
   } catch (error) {
@@ -258,236 +425,325 @@ export async function getDailyMemories(relationshipId: number): Promise<Memory[]
   }
 }
 
-// Regenerate daily memories (for reroll feature)
-export async function regenerateDailyMemories(relationshipId: number, count: number = 4): Promise<Memory[]> {
+// One-off repair for boards saved before documents were keyed by day. Back
+// then members opening the app at the same moment could each add a document,
+// and reads took whichever came first. This keeps the newest board of each
+// day under its day-keyed ID (unless that day already has one), adds it to the
+// board history and deletes the old documents. Running it again does nothing.
+export async function repairDailyMemoryDocuments(relationshipId: number): Promise<number> {
   try {
-    // Convert relationshipId to string for Firestore consistency
     const relationshipIdString = relationshipId.toString();
+    const { timeZone } = await getRelationshipDay(relationshipId);
     
-    console.log(`Regenerating daily memories for relationship ${relationshipId} (${relationshipIdString})`);
-    
-    // Get today's date at midnight
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    // First, get all available memories for this relationship
-    const q1 = query(
-      memoriesCollection,
+    const querySnapshot = await getDocs(query(
+      dailyMemoriesCollection,
       where("relationshipId", "==", relationshipIdString)
-    );
+    ));
     
-    const memoriesSnapshot = await getDocs(q1);
+    const legacyDocs = querySnapshot.docs.filter(doc => !(doc.data() as FirestoreDailyMemory).day);
     
-    if (memoriesSnapshot.empty) {
-      console.log(`No memories found for relationship ${relationshipId}`);
-      return [];
+    if (legacyDocs.length === 0) {
+      return 0;
     }
     
-    // Get today's date at midnight for comparison
-    const todayStart = new Date();
-    todayStart.setHours(0, 0, 0, 0);
-    
-    // Filter out memories that were created today or have isNew flag
-    const allMemories = memoriesSnapshot.docs
-      .filter(doc => {
-        const data = doc.data() as FirestoreMemory;
-        
-        // Skip if explicitly marked as new
-        if (data.isNew === true) {
-          return false;
-        }
-        
-        // Skip if created today
-        if (data.createdAt) {
-          const createdDate = data.createdAt.toDate();
-          return createdDate < todayStart; // Only include memories from before today
-        }
-        
-        return true; // Include if it doesn't have a creation date
-      })
-      .map(convertToMemory);
+    const savedDays = new Set(querySnapshot.docs
+      .map(doc => (doc.data() as FirestoreDailyMemory).day)
+      .filter((day): day is string => !!day));
     
-    console.log(`Found ${memoriesSnapshot.docs.length} total memories, ${allMemories.length} non-new memories to select from`);
+    // The newest legacy board of each day
+    const newestByDay = new Map<string, FirestoreDailyMemory>();
     
-    // If we have fewer memories than requested, return all of them
-    if (allMemories.length <= count) {
-      console.log(`Fewer memories than requested count, returning all ${allMemories.length} memories`);
-      
-      // Get the memory IDs to store in daily memories
-      const memoryIds = allMemories.map(memory => memory.id);
+    for (const legacyDoc of legacyDocs) {
+      const data = legacyDoc.data() as FirestoreDailyMemory;
       
-      // Get the existing daily memory document, if any
-      const dailyMemQuery = query(
-        dailyMemoriesCollection,
-        where("relationshipId", "==", relationshipIdString)
-      );
+      if (!data.date) continue;
       
-      const dailyMemSnapshot = await getDocs(dailyMemQuery);
+      const day = getDayKey(data.date.toDate(), timeZone);
+      const newest = newestByDay.get(day);
       
-      if (dailyMemSnapshot.empty) {
-        // If no document exists, create a new one with the selected memories and today's date
-        await addDoc(dailyMemoriesCollection, {
-          relationshipId: relationshipIdString,
-          memoryIds,
-          date: serverTimestamp()
-        });
-        console.log(`Created new daily memories document with ${memoryIds.length} memories and current date`);
-      } else {
-        // Update the existing document with both memory IDs and today's date
-        const dailyMemoryDoc = dailyMemSnapshot.docs[0];
-        await updateDoc(dailyMemoryDoc.ref, {
-          memoryIds,
-          date: serverTimestamp() // Important: also update the date on fewer memories scenario
-        });
-        console.log(`Updated daily memories document with ${memoryIds.length} memories and refreshed date`);
+      if (!newest || newest.date.toMillis() < data.date.toMillis()) {
+        newestByDay.set(day, data);
       }
-      
-      return allMemories;
     }
     
-    // Calculate weights for weighted random selection
-    const weights: number[] = [];
-    let totalWeight = 0;
-    let totalThumbsUp = 0;
-    
-    // Calculate total thumbs up across all memories
-    allMemories.forEach(memory => {
-      totalThumbsUp += memory.thumbsUpCount;
-    });
+    const batch = writeBatch(firestore);
     
-    // Calculate probability weight for each memory
-    // Weight = (1 + thumbsUpCount) / (total memories + total thumbs up)
-    allMemories.forEach(memory => {
-      const weight = (1 + memory.thumbsUpCount) / (allMemories.length + totalThumbsUp);
-      weights.push(weight);
-      totalWeight += weight;
+    newestByDay.forEach((data, day) => {
+      if (savedDays.has(day)) return;
+      
+      const reroll = data.reroll ?? 0;
+      const memoryIds = data.memoryIds || [];
+      
+      batch.set(getDailyBoardRef(relationshipId, day), {
+        relationshipId: relationshipIdString,
+        day,
+        memoryIds,
+        date: data.date,
+        reroll
+      });
+      batch.set(doc(boardHistoryCollection, `${relationshipId}_${day}_${reroll}`), {
+        relationshipId: relationshipIdString,
+        date: day,
+        reroll,
+        memoryIds,
+        createdAt: data.date
+      });
     });
     
-    // Debug log the weights
-    console.log("Memory weights sample:", weights.slice(0, 3).map((w, i) => ({
-      id: allMemories[i].id,
-      thumbsUp: allMemories[i].thumbsUpCount,
-      weight: w
-    })));
-    
-    // Select memories using weighted probabilities
-    const selectedMemories: Memory[] = [];
-    const selectedIndices = new Set<number>();
+    legacyDocs.forEach(legacyDoc => batch.delete(legacyDoc.ref));
+    await batch.commit();
     
-    // Helper function for weighted random selection
-    const weightedRandom = () => {
-      let randomValue = Math.random() * totalWeight;
-      
-      for (let i = 0; i < weights.length; i++) {
-        if (!selectedIndices.has(i)) {  // Skip already selected indices
-          randomValue -= weights[i];
-          if (randomValue <= 0) {
-            return i;
-          }
-        }
-      }
+    console.log(`Repaired ${legacyDocs.length} daily memories documents for relationship ${relationshipId}`);
+    return legacyDocs.length;
+  } catch (error) {
+    console.error("Error repairing daily memories documents:", error);
+    return 0;
+  }
+}
+
+// Memories that can go on a day's board: everything shared before that day
+async function getBoardCandidates(relationshipId: number, today: string, timeZone: string): Promise<Memory[]> {
+  // Use only a single where condition to avoid index requirements
+  const q = query(
+    memoriesCollection,
+    where("relationshipId", "==", relationshipId.toString())
+  );
+  
+  const querySnapshot = await getDocs(q);
+  
+  // Filter out memories that were created today
+  return querySnapshot.docs
+    .filter(isVisibleMemory)
+    .filter(doc => {
+      const data = doc.data() as FirestoreMemory;
       
-      // Fallback - find first unselected memory
-      for (let i = 0; i < allMemories.length; i++) {
-        if (!selectedIndices.has(i)) {
-          return i;
-        }
+      // Skip if created today
+      if (data.createdAt) {
+        return getDayKey(data.createdAt.toDate(), timeZone) < today; // Only include memories from before today
       }
       
-      return -1; // Should never reach here if count <= allMemories.length
-    };
+      return true; // Include if it doesn't have a creation date
+    })
+    .map(convertToMemory);
+}
+
+// Gifts that land on a day's board
+async function getGiftsForDay(relationshipId: number, boardDayKey: string): Promise<MemoryGift[]> {
+  // Use a single where clause to avoid needing a composite index
+  const querySnapshot = await getDocs(query(
+    memoryGiftsCollection,
+    where("relationshipId", "==", relationshipId.toString())
+  ));
+  
+  return querySnapshot.docs
+    .map(doc => doc.data() as FirestoreMemoryGift)
+    .filter(gift => gift.boardDayKey === boardDayKey)
+    .map(({ memoryId, fromUserId, note }) => ({ memoryId, fromUserId, note }));
+}
+
+// Last day each memory was on a board, from the relationship's board history
+async function getLastShownFromHistory(relationshipId: number): Promise<Map<string, string>> {
+  const querySnapshot = await getDocs(query(
+    boardHistoryCollection,
+    where("relationshipId", "==", relationshipId.toString())
+  ));
+  
+  return getLastShownDayKeys(querySnapshot.docs.flatMap(doc => {
+    const board = doc.data() as FirestoreBoardHistory;
+    return board.memoryIds.map(memoryId => ({ memoryId, dayKey: board.date }));
+  }));
+}
+
+// Draw a day's board through the shared engine, seeded like the server's draw
+async function drawDailyBoard(
+  relationshipId: number,
+  { today, timeZone, selectionConfig }: RelationshipDay,
+  reroll: number = 0
+): Promise<Memory[]> {
+  const memories = await getBoardCandidates(relationshipId, today, timeZone);
+  const lastShown = await getLastShownFromHistory(relationshipId);
+  const gifts = await getGiftsForDay(relationshipId, today);
+  const giftedIds = new Set(gifts.map(gift => gift.memoryId));
+  const candidates = memories.map(memory => ({
+    id: memory.id,
+    type: memory.type,
+    reactionCounts: memory.reactionCounts,
+    createdDayKey: getDayKey(memory.createdAt, timeZone),
+    lastShownDayKey: lastShown.get(memory.id) ?? null,
+    retired: memory.retiredAt !== null,
+    gifted: giftedIds.has(memory.id),
+    memory
+  }));
+  
+  const config = resolveSelectionConfig(selectionConfig);
+  const seed = getSelectionSeed(relationshipId, today, reroll);
+  return selectMemories(candidates, config, seed, today).map(({ candidate, explanation }) => ({
+    ...candidate.memory,
+    selection: explanation
+  }));
+}
+
+// Rerolls the member has left today, from the relationship's selection config
+export async function getUserRemainingRerolls(userId: string, relationshipId: number): Promise<number> {
+  try {
+    const { today, selectionConfig } = await getRelationshipDay(relationshipId);
+    const { rerollsPerDay } = resolveSelectionConfig(selectionConfig);
+    const rerollDoc = await getDoc(getRerollRef(userId, relationshipId, today));
+    const used = rerollDoc.exists() ? (rerollDoc.data() as FirestoreReroll).count : 0;
     
-    // Select memories
-    while (selectedMemories.length < count && selectedIndices.size < allMemories.length) {
-      const index = weightedRandom();
+    return Math.max(0, rerollsPerDay - used);
+  } catch (error) {
+    console.error("Error checking remaining rerolls:", error);
+    return 0; // Default to 0 in case of error to prevent further rerolls
+  }
+}
+
+// Regenerate daily memories (for reroll feature)
+export async function regenerateDailyMemories(relationshipId: number, userId: string): Promise<Memory[]> {
+  try {
+    console.log(`Regenerating daily memories for relationship ${relationshipId}`);
+    
+    // Today in the relationship's time zone
+    const relationshipDay = await getRelationshipDay(relationshipId);
+    const { today, selectionConfig } = relationshipDay;
+    const limit = resolveSelectionConfig(selectionConfig).rerollsPerDay;
+    
+    const rerollRef = getRerollRef(userId, relationshipId, today);
+    const boardRef = getDailyBoardRef(relationshipId, today);
+    const getNextReroll = (boardDoc: DocumentSnapshot) =>
+      boardDoc.exists() ? ((boardDoc.data() as FirestoreDailyMemory).reroll ?? 0) + 1 : 0;
+    
+    // Each reroll on the board's day moves on to the next seed. The draw needs
+    // queries, so it happens before the transaction; if the board moved on in
+    // the meantime (a partner rerolled too), we draw again for the next seed.
+    for (let attempt = 0; attempt < MAX_REROLL_ATTEMPTS; attempt++) {
+      const reroll = getNextReroll(await getDoc(boardRef));
+      const selectedMemories = await drawDailyBoard(relationshipId, relationshipDay, reroll);
+      const memoryIds = selectedMemories.map(memory => memory.id);
       
-      if (index >= 0 && !selectedIndices.has(index)) {
-        selectedIndices.add(index);
-        selectedMemories.push(allMemories[index]);
+      // The reroll is counted against the member's allowance together with the
+      // board it paid for and its history entry, so a failed draw or write
+      // doesn't use one up. With no board yet, this is the day's first board,
+      // which is free.
+      const drawn = await runTransaction(firestore, async (transaction) => {
+        const boardDoc = await transaction.get(boardRef);
+        const rerollDoc = await transaction.get(rerollRef);
+        
+        if (getNextReroll(boardDoc) !== reroll) {
+          return false;
+        }
         
-        // Debug log
-        console.log(`Selected memory ${allMemories[index].id} with ${allMemories[index].thumbsUpCount} thumbs up`);
+        if (reroll > 0) {
+          const used = rerollDoc.exists() ? (rerollDoc.data() as FirestoreReroll).count : 0;
+          
+          if (used >= limit) {
+            throw new RerollLimitError(limit);
+          }
+          
+          const rerollCount: FirestoreReroll = {
+            userId,
+            relationshipId: relationshipId.toString(),
+            date: today,
+            count: used + 1
+          };
+          transaction.set(rerollRef, rerollCount);
+        }
+        
+        transaction.set(boardRef, {
+          relationshipId: relationshipId.toString(),
+          day: today,
+          memoryIds,
+          date: serverTimestamp(),
+          reroll,
+          selections: getBoardSelections(selectedMemories)
+        });
+        transaction.set(
+          getBoardHistoryRef(relationshipId, today, reroll),
+          getBoardHistoryEntry(relationshipId, today, reroll, memoryIds)
+        );
+        return true;
+      });
+      
+      if (drawn) {
+        return selectedMemories;
       }
     }
     
-    console.log(`Selected ${selectedMemories.length} memories for daily view`);
-    
-    // Get the memory IDs from the selected memories
-    const memoryIds = selectedMemories.map(memory => memory.id);
-    
-    // Get the existing daily memory document, if any
-    const dailyMemQuery = query(
-      dailyMemoriesCollection,
-      where("relationshipId", "==", relationshipIdString)
+    throw new Error("The board kept changing while rerolling; please try again");
+  } catch (error) {
+    console.error("Error regenerating daily memories:", error);
+    throw error;
+  }
+}
+
+// Days that had a board, newest first
+export async function getBoardHistoryDays(relationshipId: number): Promise<string[]> {
+  try {
+    // Use a single where clause to avoid needing a composite index
+    const historyQuery = query(
+      boardHistoryCollection,
+      where("relationshipId", "==", relationshipId.toString())
     );
     
-    const dailyMemSnapshot = await getDocs(dailyMemQuery);
+    const querySnapshot = await getDocs(historyQuery);
+    const days = new Set(querySnapshot.docs.map(doc => (doc.data() as FirestoreBoardHistory).date));
     
-    if (dailyMemSnapshot.empty) {
-      // If no document exists, create a new one with the selected memories and today's date
-      await addDoc(dailyMemoriesCollection, {
-        relationshipId: relationshipIdString,
-        memoryIds,
-        date: serverTimestamp()
-      });
-      console.log(`Created new daily memories document with ${memoryIds.length} memories and current date`);
-    } else {
-      // Update the existing document with both memory IDs and today's date
-      const dailyMemoryDoc = dailyMemSnapshot.docs[0];
-      await updateDoc(dailyMemoryDoc.ref, {
-        memoryIds,
-        date: serverTimestamp() // Important: also update the date on reroll
-      });
-      console.log(`Updated daily memories document with ${memoryIds.length} memories and refreshed date`);
-    }
-    
-    return selectedMemories;
+    return Array.from(days).sort().reverse();
   } catch (error) {
-    console.error("Error regenerating daily memories:", error);
+    console.error("Error getting board history days:", error);
     return [];
   }
 }
 
-// Helper function to update daily memories document with a new timestamp
-async function updateDailyMemoryTimestamp(relationshipId: number): Promise<void> {
+// Every board shown on a day, rerolls included, in the order they were drawn
+export async function getBoardHistory(relationshipId: number, dayKey: string): Promise<BoardHistoryEntry[]> {
   try {
-    // Convert relationshipId to string to match how it's stored in Firestore
-    const relationshipIdString = relationshipId.toString();
-    
-    console.log(`Updating daily memory timestamp for relationship ${relationshipId} (${relationshipIdString})`);
-    
-    // Get the existing daily memory document, if any
-    const q = query(
-      dailyMemoriesCollection,
-      where("relationshipId", "==", relationshipIdString)
+    const historyQuery = query(
+      boardHistoryCollection,
+      where("relationshipId", "==", relationshipId.toString())
     );
     
-    const querySnapshot = await getDocs(q);
+    const querySnapshot = await getDocs(historyQuery);
+    const boards = querySnapshot.docs
+      .map(doc => doc.data() as FirestoreBoardHistory)
+      .filter(board => board.date === dayKey)
+      .sort((a, b) => a.reroll - b.reroll);
     
-    if (!querySnapshot.empty) {
-      // Update the existing document with a new date
-      const dailyMemoryDoc = querySnapshot.docs[0];
-      await updateDoc(dailyMemoryDoc.ref, {
-        date: serverTimestamp()
-      });
-      console.log(`Updated timestamp for daily memories document`);
+    const entries: BoardHistoryEntry[] = [];
+    
+    for (const board of boards) {
+      const memories: Memory[] = [];
+      
+      for (const memoryId of board.memoryIds) {
+        const memoryDoc = await getDoc(doc(memoriesCollection, memoryId));
+        
+        if (memoryDoc.exists() && isVisibleMemory(memoryDoc)) {
+          memories.push(convertToMemory(memoryDoc));
+        }
+      }
+      
+      entries.push({ date: board.date, reroll: board.reroll, memories });
     }
+    
+    return entries;
   } catch (error) {
-    console.error("Error updating daily memory timestamp:", error);
+    console.error("Error getting board history:", error);
+    return [];
   }
 }
 
-// Get newly added memories for a relationship
-export async function getNewMemories(relationshipId: number): Promise<Memory[]> {
+// Get what the other members shared since the user last caught up
+export async function getNewMemories(relationshipId: number, userId: string): Promise<Memory[]> {
   try {
     // Convert relationshipId to string for Firestore consistency
     const relationshipIdString = relationshipId.toString();
     
-    // Get today's date at midnight for comparison
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    // Today in the relationship's time zone
+    const { today, timeZone } = await getRelationshipDay(relationshipId);
+    const receipt = await getDoc(getReadReceiptRef(userId, relationshipId));
+    const lastSeenAt = receipt.exists() ? (receipt.data() as FirestoreReadReceipt).lastSeenAt?.toDate() : undefined;
     
-    console.log(`Looking for new memories for relationship ${relationshipId} (${relationshipIdString})`);
+    console.log(`Looking for new memories for user ${userId} in relationship ${relationshipId} (${relationshipIdString})`);
     
     // Firestore requires an index for queries with multiple filters + orderBy
     // First get all memories for the relationship
@@ -498,23 +754,25 @@ export async function getNewMemories(relationshipId: number): Promise<Memory[]>
 
     const querySnapshot = await getDocs(q);
     
-    // Then filter by isNew flag or created today, and sort client-side
+    // Then filter by the user's read receipt, and sort client-side
     const newMemories = querySnapshot.docs
+      .filter(isVisibleMemory)
       .filter(doc => {
         const data = doc.data() as FirestoreMemory;
         
-        // Include if explicitly marked as new
-        if (data.isNew === true) {
-          return true;
+        // Nobody needs to be told about their own memories
+        if (data.userId === userId) {
+          return false;
         }
         
-        // Or include if created today (even if not marked as new)
-        if (data.createdAt) {
-          const createdDate = data.createdAt.toDate();
-          return createdDate >= today;
+        const createdAt = data.createdAt ? data.createdAt.toDate() : new Date();
+        
+        if (lastSeenAt) {
+          return createdAt > lastSeenAt;
         }
         
-        return false;
+        // No receipt yet: fall back to the old shared flag, or created today
+        return data.isNew === true || getDayKey(createdAt, timeZone) === today;
       })
       .map(convertToMemory)
       .sort((a, b) => {
@@ -530,42 +788,25 @@ export async function getNewMemories(relationshipId: number): Promise<Memory[]>
   }
 }
 
-// Find and clean up faulty memory entries (those with missing URLs)
-export async function cleanupFaultyMemories(): Promise<number> {
+// Find and clean up the user's faulty memory entries (those with missing URLs).
+// firestore.rules only lets authors delete memories, so only their own are scanned.
+export async function cleanupFaultyMemories(userId: string): Promise<number> {
   try {
     console.log("Starting cleanup of faulty memory entries...");
     const batch = writeBatch(firestore);
     let deletedCount = 0;
     
-    // First query for image memories without imageUrl
-    const imageMemoriesQuery = query(
+    const userMemoriesQuery = query(
       memoriesCollection,
-      where("type", "==", "image")
+      where("userId", "==", userId)
     );
     
-    const imageMemoriesSnapshot = await getDocs(imageMemoriesQuery);
-    for (const doc of imageMemoriesSnapshot.docs) {
+    const userMemoriesSnapshot = await getDocs(userMemoriesQuery);
+    for (const doc of userMemoriesSnapshot.docs) {
       const data = doc.data() as FirestoreMemory;
-      // If it's an image memory but has no imageUrl, it's faulty
-      if (!data.imageUrl || data.imageUrl.trim() === '') {
-        console.log(`Found faulty image memory ${doc.id} without URL`);
-        batch.delete(doc.ref);
-        deletedCount++;
-      }
-    }
-    
-    // Then query for audio memories without imageUrl (which stores the audio URL)
-    const audioMemoriesQuery = query(
-      memoriesCollection,
-      where("type", "==", "audio")
-    );
-    
-    const audioMemoriesSnapshot = await getDocs(audioMemoriesQuery);
-    for (const doc of audioMemoriesSnapshot.docs) {
-      const data = doc.data() as FirestoreMemory;
-      // If it's an audio memory but has no imageUrl, it's faulty
-      if (!data.imageUrl || data.imageUrl.trim() === '') {
-        console.log(`Found faulty audio memory ${doc.id} without URL`);
+      // Image and audio memories keep their file URL in imageUrl; without one they're faulty
+      if ((data.type === "image" || data.type === "audio") && (!data.imageUrl || data.imageUrl.trim() === '')) {
+        console.log(`Found faulty ${data.type} memory ${doc.id} without URL`);
         batch.delete(doc.ref);
         deletedCount++;
       }
@@ -611,6 +852,19 @@ export async function createMemory(data: {
       fileSize: data.file ? `${Math.round(data.file.size / 1024)} KB` : '0'
     });
     
+    const allowance = await getCurrentUploadAllowance(data.relationshipId);
+    const slotKeys = getUploadSlotKeys(allowance);
+    const slotRefs = slotKeys.map(slotKey => getUploadSlotRef(data.userId, data.relationshipId, slotKey));
+    
+    // Fail before uploading any file if every slot is already gone. The
+    // transaction below is what actually enforces the limit
+    if (allowance.limit !== null) {
+      const existingSlots = await Promise.all(slotRefs.map(slotRef => getDoc(slotRef)));
+      if (existingSlots.every(slotDoc => slotDoc.exists())) {
+        throw new UploadQuotaError(allowance);
+      }
+    }
+    
     let imageUrl = "";
     
     // Default the type to what was passed in
@@ -715,8 +969,7 @@ export async function createMemory(data: {
       type: finalMemoryType, // Use the possibly updated type
       content: data.content || "",
       createdAt: serverTimestamp(),
-      thumbsUpCount: 0,
-      isNew: true
+      reactionCounts: EMPTY_REACTION_COUNTS
     };
     
     // Only add caption if it exists and is not empty
@@ -730,10 +983,45 @@ export async function createMemory(data: {
       memoryData.imageUrl = imageUrl;
     }
     
-    console.log("Adding document to Firestore with data:", Object.keys(memoryData));
-    const docRef = await addDoc(memoriesCollection, memoryData);
+    const docRef = doc(memoriesCollection);
+    
+    await runTransaction(firestore, async (transaction) => {
+      // firestore.rules only take a memory along with a slot claimed for it.
+      // Unlimited days have no budget of slots, so each upload claims its own.
+      let slotKey = `${allowance.periodKey}~${docRef.id}`;
+      
+      if (allowance.limit !== null) {
+        const slotDocs = await Promise.all(slotRefs.map(slotRef => transaction.get(slotRef)));
+        const freeIndex = slotDocs.findIndex(slotDoc => !slotDoc.exists());
+        
+        if (freeIndex === -1) {
+          throw new UploadQuotaError(allowance);
+        }
+        
+        slotKey = slotKeys[freeIndex];
+      }
+      
+      transaction.set(getUploadSlotRef(data.userId, data.relationshipId, slotKey), {
+        userId: data.userId,
+        relationshipId: relationshipIdString,
+        slotKey,
+        memoryId: docRef.id,
+        createdAt: serverTimestamp()
+      });
+      
+      memoryData.uploadSlotKey = slotKey;
+      console.log("Adding document to Firestore with data:", Object.keys(memoryData));
+      transaction.set(docRef, memoryData);
+    });
     console.log("Document added successfully with ID:", docRef.id);
     
+    await notifyMembers({
+      relationshipId: data.relationshipId,
+      type: "memory_uploaded",
+      actorId: data.userId,
+      memoryId: docRef.id
+    }, data.userId);
+    
     // Note: We no longer automatically add new memories to the daily memories collection
     // New memories should only appear in the "Just added" section
     
@@ -747,8 +1035,9 @@ export async function createMemory(data: {
       caption: data.caption || null,
       imageUrl: imageUrl || null, // For both image URLs and audio file URLs
       createdAt: new Date(),
-      thumbsUpCount: 0,
-      isNew: true
+      reactionCounts: EMPTY_REACTION_COUNTS,
+      retiredAt: null,
+      retiredBy: null
     };
     
   } catch (error) {
@@ -757,62 +1046,46 @@ export async function createMemory(data: {
   }
 }
 
-// Helper function to format date as YYYY-MM-DD
-function formatDateForStorage(date: Date): string {
-  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-}
-
-// Get user's remaining thumbs up count for today
-// Function to check if a user has uploaded a memory to a relationship today
-export async function getUserDailyUploadStatus(userId: string, relationshipId: number): Promise<{
-  hasUploaded: boolean;
-  todaysMemory?: Memory;
-}> {
-  try {
-    // Convert relationshipId to string for Firestore consistency
-    const relationshipIdString = relationshipId.toString();
-    
-    // Get today's date at midnight for comparison
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    // First get all memories for this relationship
-    const q = query(
-      memoriesCollection,
-      where("relationshipId", "==", relationshipIdString)
-    );
-    
-    const querySnapshot = await getDocs(q);
+// Check how much of the upload quota a user has left in a relationship
+export async function getUserUploadStatus(userId: string, relationshipId: number): Promise<UploadStatus> {
+  const allowance = await getCurrentUploadAllowance(relationshipId);
+  
+  if (allowance.limit === null) {
+    return { allowance, used: 0, remaining: null, limitReached: false };
+  }
+  
+  const slotDocs = await Promise.all(
+    getUploadSlotKeys(allowance).map(slotKey => getDoc(getUploadSlotRef(userId, relationshipId, slotKey)))
+  );
+  const usedSlots = slotDocs.filter(slotDoc => slotDoc.exists());
+  const remaining = allowance.limit - usedSlots.length;
+  
+  // Slots are claimed in order, so the last one taken is the latest upload
+  let latestMemory: Memory | undefined;
+  const latestSlot = usedSlots[usedSlots.length - 1];
+  
+  if (latestSlot) {
+    const slot = latestSlot.data() as FirestoreUploadSlot;
+    const memoryDoc = await getDoc(doc(memoriesCollection, slot.memoryId));
     
-    // Filter to find if this user has already uploaded a memory today
-    for (const doc of querySnapshot.docs) {
-      const memory = convertToMemory(doc);
-      
-      // Check if memory is from today and from this user
-      if (memory.userId === userId && memory.createdAt >= today) {
-        return {
-          hasUploaded: true,
-          todaysMemory: memory
-        };
-      }
+    if (memoryDoc.exists()) {
+      latestMemory = convertToMemory(memoryDoc as QueryDocumentSnapshot);
     }
-    
-    // No upload found for today
-    return {
-      hasUploaded: false
-    };
-  } catch (error) {
-    console.error("Error checking daily upload status:", error);
-    return {
-      hasUploaded: false
-    }; 
   }
+  
+  return {
+    allowance,
+    used: usedSlots.length,
+    remaining,
+    limitReached: remaining <= 0,
+    latestMemory
+  };
 }
 
-export async function getUserRemainingThumbsUp(userId: string, relationshipId: number): Promise<number> {
+// Get what's left of each of the user's reaction budgets for today
+export async function getUserRemainingReactions(userId: string, relationshipId: number): Promise<Record<ReactionType, number>> {
   try {
-    const MAX_DAILY_THUMBS_UP_PER_RELATIONSHIP = 2;
-    const today = formatDateForStorage(new Date());
+    const { today } = await getRelationshipDay(relationshipId);
     const relationshipIdString = relationshipId.toString();
     
     // We need a composite index on userReactionsCollection (userId + relationshipId + date)
@@ -826,259 +1099,387 @@ export async function getUserRemainingThumbsUp(userId: string, relationshipId: n
     );
     
     const querySnapshot = await getDocs(q);
-    const usedCount = querySnapshot.size;
+    const remaining = { ...REACTION_DAILY_LIMITS };
     
-    const remaining = Math.max(0, MAX_DAILY_THUMBS_UP_PER_RELATIONSHIP - usedCount);
-    console.log(`User ${userId} has used ${usedCount} thumbs up today for relationship ${relationshipId}. Remaining: ${remaining}`);
+    // Reactions from before reaction types were all thumbs-ups
+    querySnapshot.docs.forEach(doc => {
+      const type: ReactionType = doc.data().type ?? "thumbs_up";
+      remaining[type] = Math.max(0, remaining[type] - 1);
+    });
     
     return remaining;
   } catch (error) {
-    console.error("Error checking remaining thumbs up:", error);
-    return 0; // Default to 0 in case of error to prevent further reactions
+    console.error("Error checking remaining reactions:", error);
+    // Default to none left in case of error to prevent further reactions
+    return { ...EMPTY_REACTION_COUNTS };
   }
 }
 
-// React to a memory (thumbs up) with daily limit per relationship
-export async function reactToMemory(memoryId: string, userId: string, relationshipId: number): Promise<{ success: boolean, message: string }> {
+// A reaction takes one of its type's daily slots. The document ID is derived
+// from relationship, user, day, type and slot, so a reaction over the budget
+// collides with an existing one instead of slipping past a query. Reactions
+// from before slots have random IDs; the query-based checks still count them.
+function getReactionSlotRef(userId: string, relationshipId: number, dayKey: string, type: ReactionType, slot: number) {
+  return doc(userReactionsCollection, `${relationshipId}_${userId}_${dayKey}_${type}_${slot}`);
+}
+
+// React to a memory, within the daily budget for the reaction's type
+export async function reactToMemory(
+  memoryId: string,
+  userId: string,
+  relationshipId: number,
+  type: ReactionType
+): Promise<{ success: boolean, message: string }> {
   try {
-    // Check if user has thumbs up remaining today for this relationship
-    const remainingThumbsUp = await getUserRemainingThumbsUp(userId, relationshipId);
+    // Check if user has reactions of this type left today for this relationship
+    const remaining = (await getUserRemainingReactions(userId, relationshipId))[type];
     
-    if (remainingThumbsUp <= 0) {
+    if (remaining <= 0) {
       return { 
         success: false, 
-        message: "You've used all your thumbs up for this relationship today!" 
+        message: `You've used all your ${REACTION_LABELS[type].toLowerCase()} reactions for this relationship today!` 
+      };
+    }
+    
+    // Today in the relationship's time zone, for the reaction record
+    const { today: dateString } = await getRelationshipDay(relationshipId);
+    const relationshipIdString = relationshipId.toString();
+    
+    const memoryReactions = await getDocs(query(
+      userReactionsCollection,
+      where("relationshipId", "==", relationshipIdString),
+      where("memoryId", "==", memoryId)
+    ));
+    
+    const alreadyReactedMessage = "You've already left this reaction on this memory today.";
+    const alreadyReacted = memoryReactions.docs.some(doc => {
+      const data = doc.data();
+      return data.userId === userId && data.date === dateString && (data.type ?? "thumbs_up") === type;
+    });
+    
+    if (alreadyReacted) {
+      return {
+        success: false,
+        message: alreadyReactedMessage
       };
     }
     
-    // Get the memory document
     const memoryRef = doc(memoriesCollection, memoryId);
-    const memoryDoc = await getDoc(memoryRef);
+    const slotRefs = Array.from(
+      { length: REACTION_DAILY_LIMITS[type] },
+      (_, slot) => getReactionSlotRef(userId, relationshipId, dateString, type, slot)
+    );
     
-    if (!memoryDoc.exists()) {
+    // The slot is claimed and the memory's counts are read and written in one
+    // go, so two quick reactions can't both take the last slot, and memories
+    // from before reaction types carry their thumbs-ups over
+    const result = await runTransaction<{ error: string } | { authorId: string }>(firestore, async (transaction) => {
+      const memoryDoc = await transaction.get(memoryRef);
+      const slotDocs = await Promise.all(slotRefs.map(slotRef => transaction.get(slotRef)));
+      
+      if (!memoryDoc.exists()) {
+        return { error: "Memory not found" };
+      }
+      
+      // The same reaction sent twice at once
+      if (slotDocs.some(slotDoc => slotDoc.exists() && slotDoc.data().memoryId === memoryId)) {
+        return { error: alreadyReactedMessage };
+      }
+      
+      const freeIndex = slotDocs.findIndex(slotDoc => !slotDoc.exists());
+      
+      if (freeIndex === -1) {
+        return { error: `You've used all your ${REACTION_LABELS[type].toLowerCase()} reactions for this relationship today!` };
+      }
+      
+      const data = memoryDoc.data() as FirestoreMemory;
+      const counts = resolveReactionCounts(data.reactionCounts, data.thumbsUpCount || 0);
+      
+      transaction.update(memoryRef, { reactionCounts: adjustReactionCounts(counts, type, 1) });
+      transaction.set(slotRefs[freeIndex], {
+        userId,
+        memoryId,
+        relationshipId: relationshipIdString,
+        type,
+        slot: freeIndex,
+        createdAt: serverTimestamp(),
+        date: dateString
+      });
+      return { authorId: data.userId };
+    });
+    
+    if ("error" in result) {
       return { 
         success: false, 
-        message: "Memory not found" 
+        message: result.error 
       };
     }
     
-    // Get today's date for the reaction record
-    const today = new Date();
-    const dateString = formatDateForStorage(today);
-    const relationshipIdString = relationshipId.toString();
+    const { authorId } = result;
     
-    // Create a new reaction document that includes the relationship ID
-    await addDoc(userReactionsCollection, {
-      userId,
+    await notifyMembers({
+      relationshipId,
+      type: "memory_reacted",
+      actorId: userId,
       memoryId,
-      relationshipId: relationshipIdString,
-      createdAt: serverTimestamp(),
-      date: dateString
-    });
-    
-    // Increment the memory's thumbs up count
-    await updateDoc(memoryRef, {
-      thumbsUpCount: increment(1)
-    });
+      reactionType: type
+    }, userId, [authorId]);
     
     return { 
       success: true, 
-      message: `Thumbs up added! You have ${remainingThumbsUp - 1} left for this relationship today.` 
+      message: `${REACTION_LABELS[type]} added! You have ${remaining - 1} left for this relationship today.` 
     };
   } catch (error) {
-    console.error("Error adding thumbs up:", error);
+    console.error("Error adding reaction:", error);
     return { 
       success: false, 
-      message: "An error occurred while adding your thumbs up" 
+      message: "An error occurred while adding your reaction" 
     };
   }
 }
 
-// Mark memories as not new only if they weren't created today
-export async function markMemoriesAsViewed(relationshipId: number): Promise<void> {
+// Reaction types the user left on a memory today, which they can still take back
+export async function getTodaysReactionTypes(memoryId: string, userId: string, relationshipId: number): Promise<ReactionType[]> {
   try {
-    // Convert relationshipId to string for Firestore consistency
-    const relationshipIdString = relationshipId.toString();
-    
-    // Get today's date at midnight for comparison
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const { today } = await getRelationshipDay(relationshipId);
+    const querySnapshot = await getDocs(query(
+      userReactionsCollection,
+      where("relationshipId", "==", relationshipId.toString()),
+      where("memoryId", "==", memoryId)
+    ));
     
-    console.log(`Marking memories as viewed for relationship ${relationshipId} (${relationshipIdString})`);
+    const types = querySnapshot.docs
+      .map(doc => doc.data())
+      .filter(data => data.userId === userId && data.date === today)
+      .map(data => (data.type ?? "thumbs_up") as ReactionType);
     
-    // Only query by relationshipId to avoid index requirement
-    const q = query(
-      memoriesCollection,
-      where("relationshipId", "==", relationshipIdString)
+    return Array.from(new Set(types));
+  } catch (error) {
+    console.error("Error getting today's reactions:", error);
+    return [];
+  }
+}
+
+// Take back a reaction left today. Its slot goes back to the day's budget and
+// the memory's count drops in the same transaction.
+export async function removeReaction(
+  memoryId: string,
+  userId: string,
+  relationshipId: number,
+  type: ReactionType
+): Promise<{ success: boolean, message: string }> {
+  try {
+    const { today: dateString } = await getRelationshipDay(relationshipId);
+    const memoryRef = doc(memoriesCollection, memoryId);
+    const slotRefs = Array.from(
+      { length: REACTION_DAILY_LIMITS[type] },
+      (_, slot) => getReactionSlotRef(userId, relationshipId, dateString, type, slot)
     );
     
-    const querySnapshot = await getDocs(q);
-    
-    // Filter documents client-side to find those that should be marked as "not new"
-    // Only mark as "not new" if they weren't created today and are currently marked as "new"
-    const memoriesToUpdate = querySnapshot.docs.filter(doc => {
-      const data = doc.data() as FirestoreMemory;
+    const error = await runTransaction<string | null>(firestore, async (transaction) => {
+      const memoryDoc = await transaction.get(memoryRef);
+      const slotDocs = await Promise.all(slotRefs.map(slotRef => transaction.get(slotRef)));
+      const slotDoc = slotDocs.find(slotDoc => slotDoc.exists() && slotDoc.data().memoryId === memoryId);
       
-      // Skip if it's not marked as new
-      if (data.isNew !== true) {
-        return false;
+      if (!memoryDoc.exists()) {
+        return "Memory not found";
       }
       
-      // If there's no createdAt timestamp, skip it
-      if (!data.createdAt) {
-        return false;
+      if (!slotDoc) {
+        return "You haven't left this reaction on this memory today.";
       }
       
-      // Convert Firestore timestamp to Date
-      const createdDate = data.createdAt.toDate();
-      
-      // Keep as "new" if created today, otherwise mark as "not new"
-      const createdToday = createdDate >= today;
+      const data = memoryDoc.data() as FirestoreMemory;
+      const counts = resolveReactionCounts(data.reactionCounts, data.thumbsUpCount || 0);
       
-      // Only include it for update if it should be marked as NOT new
-      // (created before today but still has isNew=true)
-      return !createdToday;
+      transaction.update(memoryRef, { reactionCounts: adjustReactionCounts(counts, type, -1) });
+      transaction.delete(slotDoc.ref);
+      return null;
     });
     
-    // If there are no memories to update, return early
-    if (memoriesToUpdate.length === 0) {
-      console.log("No memories need to be marked as 'not new'");
-      return;
+    if (error) {
+      return { success: false, message: error };
     }
     
-    // Update older memories (not created today) in a batch
-    const batch = writeBatch(firestore);
-    
-    memoriesToUpdate.forEach((document) => {
-      batch.update(document.ref, { isNew: false });
-    });
-    
-    await batch.commit();
-    console.log(`Marked ${memoriesToUpdate.length} memories as viewed (not created today)`);
+    return { success: true, message: `${REACTION_LABELS[type]} taken back.` };
   } catch (error) {
-    console.error("Error marking memories as viewed:", error);
+    console.error("Error removing reaction:", error);
+    return { 
+      success: false, 
+      message: "An error occurred while taking back your reaction" 
+    };
   }
 }
 
-// Select random memories for the daily view with weighted probabilities based on thumbs up
-export async function selectRandomMemoriesForDay(relationshipId: number, count: number = 4): Promise<Memory[]> {
+// Members who reacted to a memory, in the order they first did
+export async function getMemoryReactors(memoryId: string, relationshipId: number): Promise<string[]> {
   try {
-    // Convert relationshipId to string for consistency
-    const relationshipIdString = relationshipId.toString();
-    
-    console.log(`Selecting random memories for relationship ${relationshipId} (${relationshipIdString})`);
-    
-    // Use only a single where condition to avoid index requirements
-    // Using the string version for Firebase consistency
-    const q = query(
-      memoriesCollection,
-      where("relationshipId", "==", relationshipIdString)
-    );
-    
-    const querySnapshot = await getDocs(q);
+    const querySnapshot = await getDocs(query(
+      userReactionsCollection,
+      where("relationshipId", "==", relationshipId.toString()),
+      where("memoryId", "==", memoryId)
+    ));
     
-    // Get today's date at midnight for comparison
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const reactions = querySnapshot.docs
+      .map(doc => doc.data())
+      .sort((a, b) => (a.createdAt?.toMillis() ?? 0) - (b.createdAt?.toMillis() ?? 0));
     
-    // Filter out memories that were created today or have isNew flag
-    const allMemories = querySnapshot.docs
-      .filter(doc => {
-        const data = doc.data() as FirestoreMemory;
-        
-        // Skip if explicitly marked as new
-        if (data.isNew === true) {
-          return false;
-        }
-        
-        // Skip if created today
-        if (data.createdAt) {
-          const createdDate = data.createdAt.toDate();
-          return createdDate < today; // Only include memories from before today
-        }
-        
-        return true; // Include if it doesn't have a creation date
-      })
-      .map(convertToMemory);
+    return Array.from(new Set(reactions.map(reaction => reaction.userId as string)));
+  } catch (error) {
+    console.error("Error getting memory reactors:", error);
+    return [];
+  }
+}
+
+// Take a memory out of the daily rotation, or put it back. Either member may;
+// the memory stays in the timeline either way.
+export async function setMemoryRetired(memoryId: string, userId: string, retired: boolean): Promise<void> {
+  const memoryRef = doc(memoriesCollection, memoryId);
+  const memoryDoc = await getDoc(memoryRef);
+  
+  if (!memoryDoc.exists() || !isVisibleMemory(memoryDoc)) {
+    throw new Error("Memory not found");
+  }
+  
+  await updateDoc(memoryRef, retired
+    ? { retiredAt: serverTimestamp(), retiredBy: userId }
+    : { retiredAt: null, retiredBy: null }
+  );
+}
+
+// Gifts on today's board, so it can show who picked what
+export async function getBoardGifts(relationshipId: number): Promise<MemoryGift[]> {
+  try {
+    const { today } = await getRelationshipDay(relationshipId);
+    return getGiftsForDay(relationshipId, today);
+  } catch (error) {
+    console.error("Error getting board gifts:", error);
+    return [];
+  }
+}
+
+// Whether the member has already gifted a memory today
+export async function hasGiftedToday(userId: string, relationshipId: number): Promise<boolean> {
+  try {
+    const { today } = await getRelationshipDay(relationshipId);
+    const giftDoc = await getDoc(getGiftRef(userId, relationshipId, addDays(today, 1)));
     
-    // Debug log
-    console.log(`Found ${allMemories.length} non-new memories for relationship ${relationshipId}`);
+    return giftDoc.exists();
+  } catch (error) {
+    console.error("Error checking today's gift:", error);
+    return true; // Assume the gift is used in case of error to prevent duplicates
+  }
+}
+
+// Hand-pick a memory for tomorrow's board, where it gets a guaranteed place.
+// Each member can gift one memory a day.
+export async function giftMemory(memoryId: string, userId: string, relationshipId: number, note: string | null): Promise<void> {
+  const memoryDoc = await getDoc(doc(memoriesCollection, memoryId));
+  
+  if (!memoryDoc.exists() || !isVisibleMemory(memoryDoc)) {
+    throw new Error("Memory not found");
+  }
+  
+  if ((memoryDoc.data() as FirestoreMemory).retiredAt) {
+    throw new Error("This memory is retired from the daily rotation");
+  }
+  
+  const { today } = await getRelationshipDay(relationshipId);
+  const boardDayKey = addDays(today, 1);
+  const giftRef = getGiftRef(userId, relationshipId, boardDayKey);
+  
+  await runTransaction(firestore, async (transaction) => {
+    const giftDoc = await transaction.get(giftRef);
     
-    // If we have fewer memories than requested, return all of them
-    if (allMemories.length <= count) {
-      console.log("Fewer memories than requested count, returning all memories");
-      return allMemories;
+    if (giftDoc.exists()) {
+      throw new GiftLimitError();
     }
     
-    // Calculate weights for each memory based on thumbs up count
-    const weights: number[] = [];
-    let totalWeight = 0;
-    let totalThumbsUp = 0;
-    
-    // Calculate total thumbs up across all memories
-    allMemories.forEach(memory => {
-      totalThumbsUp += memory.thumbsUpCount;
-    });
+    const gift: Omit<FirestoreMemoryGift, "createdAt"> = {
+      relationshipId: relationshipId.toString(),
+      memoryId,
+      fromUserId: userId,
+      note,
+      boardDayKey
+    };
+    transaction.set(giftRef, { ...gift, createdAt: serverTimestamp() });
+  });
+}
+
+// Move the user's read receipt up to now: everything shared so far counts as seen
+export async function markMemoriesAsViewed(relationshipId: number, userId: string): Promise<void> {
+  try {
+    console.log(`Marking memories as viewed by user ${userId} in relationship ${relationshipId}`);
     
-    // Calculate probability weight for each memory
-    // Weight = (1 + thumbsUpCount) / (total memories + total thumbs up)
-    allMemories.forEach(memory => {
-      const weight = (1 + memory.thumbsUpCount) / (allMemories.length + totalThumbsUp);
-      weights.push(weight);
-      totalWeight += weight;
+    await setDoc(getReadReceiptRef(userId, relationshipId), {
+      relationshipId: relationshipId.toString(),
+      userId,
+      lastSeenAt: serverTimestamp()
     });
+  } catch (error) {
+    console.error("Error marking memories as viewed:", error);
+  }
+}
+
+// When each member last caught up with a relationship, by Firebase UID.
+// Members who never have are left out.
+export async function getReadReceipts(relationshipId: number): Promise<Record<string, Date>> {
+  // Use a single where clause to avoid needing a composite index
+  const querySnapshot = await getDocs(query(
+    readReceiptsCollection,
+    where("relationshipId", "==", relationshipId.toString())
+  ));
+  
+  const receipts: Record<string, Date> = {};
+  
+  querySnapshot.docs.forEach(doc => {
+    const data = doc.data() as FirestoreReadReceipt;
     
-    // Debug log the weights
-    console.log("Memory weights:", weights.map((w, i) => ({
-      id: allMemories[i].id,
-      thumbsUp: allMemories[i].thumbsUpCount,
-      weight: w
-    })));
+    if (data.lastSeenAt) {
+      receipts[data.userId] = data.lastSeenAt.toDate();
+    }
+  });
+  
+  return receipts;
+}
+
+// A member's memories that are still visible in a relationship. Read before
+// they leave, while firestore.rules still let them query the relationship.
+export async function getVisibleUserMemories(userId: string, relationshipId: number): Promise<Memory[]> {
+  // Only query by relationshipId to avoid index requirement
+  const q = query(
+    memoriesCollection,
+    where("relationshipId", "==", relationshipId.toString())
+  );
+  
+  const querySnapshot = await getDocs(q);
+  
+  return querySnapshot.docs
+    .filter(isVisibleMemory)
+    .filter(doc => (doc.data() as FirestoreMemory).userId === userId)
+    .map(convertToMemory);
+}
+
+// Hide a departing member's memories from their relationship. Their author
+// may, even after leaving, and so may the owner who removed them.
+export async function hideMemories(memories: Memory[]): Promise<void> {
+  try {
+    if (memories.length === 0) {
+      return;
+    }
     
-    // Select memories using weighted probabilities
-    const selectedMemories: Memory[] = [];
-    const selectedIndices = new Set<number>();
+    console.log(`Hiding ${memories.length} memories`);
     
-    // Helper function for weighted random selection
-    const weightedRandom = () => {
-      let randomValue = Math.random() * totalWeight;
-      
-      for (let i = 0; i < weights.length; i++) {
-        if (!selectedIndices.has(i)) {  // Skip already selected indices
-          randomValue -= weights[i];
-          if (randomValue <= 0) {
-            return i;
-          }
-        }
-      }
-      
-      // Fallback - find first unselected memory
-      for (let i = 0; i < allMemories.length; i++) {
-        if (!selectedIndices.has(i)) {
-          return i;
-        }
-      }
-      
-      return -1; // Should never reach here if count <= allMemories.length
-    };
+    const batch = writeBatch(firestore);
     
-    // Select memories
-    while (selectedMemories.length < count && selectedMemories.length < allMemories.length) {
-      const index = weightedRandom();
-      
-      if (index >= 0 && !selectedIndices.has(index)) {
-        selectedIndices.add(index);
-        selectedMemories.push(allMemories[index]);
-        
-        // Debug log
-        console.log(`Selected memory ${allMemories[index].id} with ${allMemories[index].thumbsUpCount} thumbs up`);
-      }
-    }
+    memories.forEach((memory) => {
+      batch.update(doc(memoriesCollection, memory.id), { hiddenAt: serverTimestamp() });
+    });
     
-    console.log(`Selected ${selectedMemories.length} memories for daily view`);
-    return selectedMemories;
+    await batch.commit();
+    console.log(`Hid ${memories.length} memories`);
   } catch (error) {
-    console.error("Error selecting random memories:", error);
-    return []; // Return empty array in case of error
+    console.error("Error hiding user memories:", error);
+    throw error;
   }
-}
\ No newline at end of file
+}
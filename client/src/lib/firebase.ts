@@ -35,6 +35,15 @@ console.log("Firebase config (without sensitive data):", {
 // Explicitly log the full storage bucket for debugging
 console.log(`Storage bucket configured as: memorybook2-4df48.firebasestorage.app`);
 
+// Only loaded when signing in with Firebase; session sign-in keeps everything on
+// the server and never imports this module
+if (!firebaseConfig.apiKey || !firebaseConfig.projectId || !firebaseConfig.appId) {
+  throw new Error(
+    "Firebase is not configured: set VITE_FIREBASE_API_KEY, VITE_FIREBASE_PROJECT_ID and VITE_FIREBASE_APP_ID. " +
+    "To run without Firebase, use session sign-in (VITE_AUTH_MODE=session) instead."
+  );
+}
+
 // Initialize Firebase (only once)
 let app;
 try {
@@ -0,0 +1,51 @@
+// The data functions the hooks use when the app runs on Firebase: memories,
+// relationships, comments and notifications in Firestore, files in Firebase
+// Storage. api-backend.ts provides the same functions over the server's API.
+
+export {
+  getRelationshipMemories,
+  getDailyMemories,
+  getBoardHistoryDays,
+  getBoardHistory,
+  getNewMemories,
+  createMemory,
+  reactToMemory,
+  removeReaction,
+  getTodaysReactionTypes,
+  getMemoryReactors,
+  setMemoryRetired,
+  giftMemory,
+  getBoardGifts,
+  hasGiftedToday,
+  markMemoriesAsViewed,
+  getReadReceipts,
+  getUserRemainingReactions,
+  getUserRemainingRerolls,
+  regenerateDailyMemories,
+  getUserUploadStatus,
+  cleanupFaultyMemories
+} from "./firebase-service";
+export {
+  getUserPrimaryRelationship,
+  getUserRelationships,
+  getRelationshipById,
+  createRelationship,
+  addOwnerToRelationship,
+  joinWithInviteCode,
+  updateRelationshipName,
+  createInvite,
+  getRelationshipInvites,
+  getInvitePreview,
+  revokeInvite,
+  getUserRole,
+  getRelationshipMembers,
+  leaveRelationship,
+  removeMember,
+  getUserNickname,
+  updateUserNickname,
+  updateRelationshipQuotaPolicy,
+  updateRelationshipSelectionConfig,
+  updateRelationshipTimeZone
+} from "./relationship-service";
+export { getMemoryComments, addMemoryComment, getCommentCounts } from "./comment-service";
+export { getNotifications, markNotificationRead, markAllNotificationsRead } from "./notification-service";
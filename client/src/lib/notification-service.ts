@@ -0,0 +1,198 @@
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  getDoc,
+  writeBatch,
+  serverTimestamp,
+  updateDoc,
+  Timestamp
+} from "firebase/firestore";
+import { firestore } from "./firebase";
+import { apiRequest } from "./queryClient";
+import {
+  NOTIFICATION_FEED_LIMIT,
+  type NotificationType,
+  type NotificationWithActor
+} from "@shared/schema";
+import type { ReactionType } from "@shared/reactions";
+
+// Collection references
+const notificationsCollection = collection(firestore, "notifications");
+const userRelationshipsCollection = collection(firestore, "userRelationships");
+
+// Interface for Firestore notification document
+interface FirestoreNotification {
+  userId: string; // Firebase UID of the recipient
+  relationshipId: string; // Using string to match how memories store it
+  type: NotificationType;
+  actorId: string | null; // Firebase UID of whoever did it; null for the daily board
+  memoryId: string | null; // Set for memory notifications
+  reactionType: ReactionType | null; // Set for reactions
+  readAt: Timestamp | null;
+  createdAt: Timestamp;
+}
+
+// A notification in a member's feed. The feed merges what the Firestore client
+// writes with what the REST API records; source says which one to update.
+export interface UserNotification {
+  id: string;
+  source: "firestore" | "api";
+  relationshipId: number;
+  type: NotificationType;
+  actorId: string | null;
+  actorName: string | null; // Only known up front for API notifications
+  memoryId: string | null;
+  reactionType: ReactionType | null;
+  read: boolean;
+  createdAt: Date;
+}
+
+// Let the relationship's members know what happened, except whoever caused it.
+// Pass recipientIds to narrow it down to, say, a memory's author. The action
+// itself has already succeeded, so a failure here is logged, not thrown.
+export async function notifyMembers(
+  notification: {
+    relationshipId: number;
+    type: NotificationType;
+    actorId?: string | null;
+    memoryId?: string | null;
+    reactionType?: ReactionType | null;
+  },
+  causedByUserId: string,
+  recipientIds?: string[]
+): Promise<void> {
+  try {
+    // Membership is read here rather than through relationship-service, which
+    // itself notifies members when someone joins
+    const membershipsSnapshot = await getDocs(query(
+      userRelationshipsCollection,
+      where("relationshipId", "==", notification.relationshipId.toString())
+    ));
+
+    const userIds = Array.from(new Set(membershipsSnapshot.docs.map(doc => doc.data().userId as string)))
+      .filter(userId => userId !== causedByUserId && (!recipientIds || recipientIds.includes(userId)));
+
+    if (userIds.length === 0) {
+      return;
+    }
+
+    const batch = writeBatch(firestore);
+
+    userIds.forEach(userId => {
+      batch.set(doc(notificationsCollection), {
+        userId,
+        relationshipId: notification.relationshipId.toString(),
+        type: notification.type,
+        actorId: notification.actorId ?? null,
+        memoryId: notification.memoryId ?? null,
+        reactionType: notification.reactionType ?? null,
+        readAt: null,
+        createdAt: serverTimestamp()
+      });
+    });
+
+    await batch.commit();
+  } catch (error) {
+    console.error("Error sending notifications:", error);
+  }
+}
+
+async function getFirestoreNotifications(userId: string): Promise<UserNotification[]> {
+  // Use a single where clause to avoid needing a composite index
+  const querySnapshot = await getDocs(query(
+    notificationsCollection,
+    where("userId", "==", userId)
+  ));
+
+  return querySnapshot.docs.map(doc => {
+    const data = doc.data() as FirestoreNotification;
+    return {
+      id: doc.id,
+      source: "firestore" as const,
+      relationshipId: parseInt(data.relationshipId, 10),
+      type: data.type,
+      actorId: data.actorId || null,
+      actorName: null,
+      memoryId: data.memoryId || null,
+      reactionType: data.reactionType || null,
+      read: !!data.readAt,
+      createdAt: data.createdAt ? data.createdAt.toDate() : new Date()
+    };
+  });
+}
+
+// The API knows users by numeric ID; the client goes by Firebase UID
+async function getApiNotifications(): Promise<UserNotification[]> {
+  const response = await apiRequest("GET", "/api/notifications");
+  const feed = await response.json() as NotificationWithActor[];
+
+  return feed.map(notification => ({
+    id: notification.id.toString(),
+    source: "api" as const,
+    relationshipId: notification.relationshipId,
+    type: notification.type,
+    actorId: notification.actor?.uid || null,
+    actorName: notification.actor?.displayName || null,
+    memoryId: notification.memoryId !== null ? notification.memoryId.toString() : null,
+    reactionType: notification.reactionType,
+    read: notification.readAt !== null,
+    createdAt: new Date(notification.createdAt)
+  }));
+}
+
+// Get a user's feed from both sources, newest first
+export async function getNotifications(userId: string): Promise<UserNotification[]> {
+  const [firestoreNotifications, apiNotifications] = await Promise.all([
+    getFirestoreNotifications(userId),
+    getApiNotifications().catch(error => {
+      console.error("Error getting notifications from the API:", error);
+      return [];
+    })
+  ]);
+
+  return [...firestoreNotifications, ...apiNotifications]
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, NOTIFICATION_FEED_LIMIT);
+}
+
+export async function markNotificationRead(notification: UserNotification, userId: string): Promise<void> {
+  if (notification.source === "api") {
+    await apiRequest("POST", `/api/notifications/${notification.id}/read`);
+    return;
+  }
+
+  const notificationRef = doc(notificationsCollection, notification.id);
+  const notificationDoc = await getDoc(notificationRef);
+
+  if (!notificationDoc.exists() || notificationDoc.data().userId !== userId) {
+    throw new Error("Notification not found");
+  }
+
+  if (!notificationDoc.data().readAt) {
+    await updateDoc(notificationRef, { readAt: serverTimestamp() });
+  }
+}
+
+export async function markAllNotificationsRead(userId: string): Promise<void> {
+  const querySnapshot = await getDocs(query(
+    notificationsCollection,
+    where("userId", "==", userId)
+  ));
+
+  const unread = querySnapshot.docs.filter(doc => !(doc.data() as FirestoreNotification).readAt);
+
+  if (unread.length > 0) {
+    const batch = writeBatch(firestore);
+
+    unread.forEach(document => {
+      batch.update(document.ref, { readAt: serverTimestamp() });
+    });
+
+    await batch.commit();
+  }
+
+  await apiRequest("POST", "/api/notifications/read-all");
+}
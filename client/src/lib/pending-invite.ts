@@ -0,0 +1,56 @@
+// Remembers an invite code across sign-in (including Google's full-page
+// redirect) so the /join/:code flow can finish once the user is signed in
+
+const PENDING_INVITE_KEY = "souvella:pendingInvite";
+
+// Forget codes that were never used after a day
+const PENDING_INVITE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+interface PendingInvite {
+  code: string;
+  savedAt: number;
+}
+
+export function rememberPendingInvite(code: string): void {
+  try {
+    const pending: PendingInvite = { code, savedAt: Date.now() };
+    localStorage.setItem(PENDING_INVITE_KEY, JSON.stringify(pending));
+  } catch (error) {
+    console.error("Could not remember invite code:", error);
+  }
+}
+
+export function getPendingInvite(): string | null {
+  try {
+    const raw = localStorage.getItem(PENDING_INVITE_KEY);
+
+    if (!raw) {
+      return null;
+    }
+
+    const pending = JSON.parse(raw) as PendingInvite;
+
+    if (Date.now() - pending.savedAt > PENDING_INVITE_MAX_AGE_MS) {
+      clearPendingInvite();
+      return null;
+    }
+
+    return pending.code;
+  } catch (error) {
+    console.error("Could not read pending invite code:", error);
+    return null;
+  }
+}
+
+export function clearPendingInvite(): void {
+  try {
+    localStorage.removeItem(PENDING_INVITE_KEY);
+  } catch (error) {
+    console.error("Could not clear pending invite code:", error);
+  }
+}
+
+// Absolute link that opens the join page for a code
+export function getInviteLink(code: string): string {
+  return `${window.location.origin}/join/${encodeURIComponent(code)}`;
+}
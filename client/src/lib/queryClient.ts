@@ -1,5 +1,27 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// VITE_AUTH_MODE=session signs in against the server's cookie session instead of
+// Firebase Auth accounts, and keeps the data on the server too, so it needs no
+// Firebase project (see backend.ts).
+export const isSessionAuth = import.meta.env.VITE_AUTH_MODE === "session";
+
+// The API verifies every request against the signed-in user's Firebase ID token,
+// or against the session cookie when running in session mode
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  if (isSessionAuth) {
+    return {};
+  }
+  
+  const { auth } = await import("./firebase");
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    return {};
+  }
+  
+  const token = await currentUser.getIdToken();
+  return { Authorization: `Bearer ${token}` };
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -14,7 +36,10 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      ...(await getAuthHeaders()),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -30,6 +55,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey[0] as string, {
+      headers: await getAuthHeaders(),
       credentials: "include",
     });
 
@@ -3,27 +3,58 @@ import {
   query, 
   where, 
   getDocs, 
-  addDoc, 
   updateDoc, 
   doc, 
   serverTimestamp, 
   getDoc,
   Timestamp,
   QueryDocumentSnapshot,
+  DocumentSnapshot,
   setDoc,
-  deleteDoc
+  deleteDoc,
+  runTransaction,
+  increment,
+  writeBatch,
+  FirestoreError
 } from "firebase/firestore";
 import { firestore } from "./firebase";
-import { Relationship, UserRelationship } from "@shared/schema";
+import { getVisibleUserMemories, hideMemories, Memory } from "./firebase-service";
+import { notifyMembers } from "./notification-service";
+import { InviteError, RelationshipPermissionError } from "./errors";
+import { 
+  Relationship, 
+  RelationshipMode, 
+  RelationshipRole, 
+  RelationshipEventType,
+  DepartureMemoryPolicy,
+  CreateInviteOptions,
+  InviteStatus,
+  InvitePreview,
+  DEFAULT_INVITE_EXPIRY_HOURS,
+  getInviteStatus,
+  getMemberLimit 
+} from "@shared/schema";
+import { QuotaPolicy } from "@shared/quota";
+import { SelectionConfig } from "@shared/selection";
+import { getLocalTimeZone } from "@shared/day-key";
 
 // Collection references
 const relationshipsCollection = collection(firestore, "relationships");
 const userRelationshipsCollection = collection(firestore, "userRelationships");
+const relationshipEventsCollection = collection(firestore, "relationshipEvents");
+const invitesCollection = collection(firestore, "invites"); // Document ID is the invite code
 
 // Interface for Firestore relationship document
 interface FirestoreRelationship {
   name?: string;
-  inviteCode: string;
+  inviteCode: string; // Also the ID of the invite created with the relationship
+  createdBy?: string; // Lets firestore.rules recognise the founding owner; missing on older relationships
+  mode?: RelationshipMode; // Missing on relationships created before groups existed
+  memberLimit?: number | null;
+  memberCount?: number; // Missing on relationships created before it was kept
+  quotaPolicy?: QuotaPolicy | null; // Missing until someone edits the upload quota
+  timeZone?: string | null; // IANA zone that decides when a day starts; missing means UTC
+  selectionConfig?: SelectionConfig | null; // Missing until someone tunes the daily board
   createdAt: Timestamp;
 }
 
@@ -31,9 +62,50 @@ interface FirestoreUserRelationship {
   userId: string;
   relationshipId: string;
   nickname?: string; // User's nickname in this relationship
+  role?: RelationshipRole; // Missing on memberships created before roles existed
+  inviteCode?: string; // The invite used to join; missing on owners and older memberships
   createdAt: Timestamp;
 }
 
+interface FirestoreInvite {
+  relationshipId: string;
+  createdBy: string;
+  createdByName?: string | null; // Shown on the join page before the invitee signs in
+  relationshipName?: string | null; // Copied from the relationship, which only members can read
+  relationshipMode?: string;
+  expiresAt: Timestamp | null; // null means it never expires
+  maxUses: number | null; // null means unlimited
+  useCount: number;
+  revokedAt: Timestamp | null;
+  createdAt: Timestamp;
+}
+
+export interface InviteInfo {
+  code: string;
+  relationshipId: number;
+  createdBy: string;
+  expiresAt: Date | null;
+  maxUses: number | null;
+  useCount: number;
+  revokedAt: Date | null;
+  createdAt: Date;
+  status: InviteStatus;
+}
+
+// A member of a relationship as seen from the client
+export interface RelationshipMemberInfo {
+  userId: string;
+  role: RelationshipRole;
+  nickname: string | null;
+  joinedAt: Date;
+}
+
+// Memberships are keyed by relationship and member, so firestore.rules can
+// look up a member's role
+function getMembershipRef(userId: string, relationshipId: number) {
+  return doc(userRelationshipsCollection, `${relationshipId}_${userId}`);
+}
+
 // Generate a random invite code
 function generateInviteCode(length = 10): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
@@ -53,10 +125,102 @@ function convertToRelationship(doc: QueryDocumentSnapshot): Relationship {
     id: isNaN(id) ? 0 : id, // Use a default value if conversion fails
     name: data.name || null,
     inviteCode: data.inviteCode,
+    mode: data.mode || "couple",
+    memberLimit: data.memberLimit ?? null,
+    quotaPolicy: data.quotaPolicy ?? null,
+    timeZone: data.timeZone ?? null,
+    selectionConfig: data.selectionConfig ?? null,
     createdAt: data.createdAt?.toDate() || new Date() // Handle potentially missing timestamp
   };
 }
 
+function convertToInvite(code: string, data: FirestoreInvite): InviteInfo {
+  const relationshipId = Number(data.relationshipId);
+  const invite = {
+    code,
+    relationshipId: isNaN(relationshipId) ? 0 : relationshipId,
+    createdBy: data.createdBy,
+    expiresAt: data.expiresAt ? data.expiresAt.toDate() : null,
+    maxUses: data.maxUses ?? null,
+    useCount: data.useCount || 0,
+    revokedAt: data.revokedAt ? data.revokedAt.toDate() : null,
+    createdAt: data.createdAt?.toDate() || new Date()
+  };
+  
+  return { ...invite, status: getInviteStatus(invite) };
+}
+
+// Get all membership documents of a relationship, oldest first.
+// Relationships created before roles existed have no owner, so their earliest
+// member is treated as the owner.
+async function getMembershipDocs(relationshipId: number) {
+  const q = query(
+    userRelationshipsCollection,
+    where("relationshipId", "==", relationshipId.toString())
+  );
+  
+  const querySnapshot = await getDocs(q);
+  
+  return resolveMembershipRoles(querySnapshot.docs);
+}
+
+// Oldest first, with the implicit owner of relationships from before roles
+function resolveMembershipRoles(docSnapshots: DocumentSnapshot[]) {
+  const memberships = docSnapshots
+    .map(docSnapshot => ({
+      ref: docSnapshot.ref,
+      data: docSnapshot.data() as FirestoreUserRelationship
+    }))
+    .sort((a, b) => 
+      (a.data.createdAt?.toMillis() || 0) - (b.data.createdAt?.toMillis() || 0)
+    );
+  
+  const hasOwner = memberships.some(m => m.data.role === "owner");
+  
+  return memberships.map((m, index) => ({
+    ...m,
+    role: (m.data.role === "owner" || (!hasOwner && index === 0) ? "owner" : "member") as RelationshipRole
+  }));
+}
+
+// Get a user's role in a relationship (null if they are not a member)
+export async function getUserRole(userId: string, relationshipId: number): Promise<RelationshipRole | null> {
+  try {
+    const memberships = await getMembershipDocs(relationshipId);
+    const membership = memberships.find(m => m.data.userId === userId);
+    return membership ? membership.role : null;
+  } catch (error) {
+    console.error("Error getting user role:", error);
+    return null;
+  }
+}
+
+// Get everyone in a relationship with their role
+export async function getRelationshipMembers(relationshipId: number): Promise<RelationshipMemberInfo[]> {
+  try {
+    const memberships = await getMembershipDocs(relationshipId);
+    
+    return memberships.map(m => ({
+      userId: m.data.userId,
+      role: m.role,
+      nickname: m.data.nickname || null,
+      joinedAt: m.data.createdAt?.toDate() || new Date()
+    }));
+  } catch (error) {
+    console.error("Error getting relationship members:", error);
+    return [];
+  }
+}
+
+// firestore.rules enforce the same; this just fails early with a clear message
+async function assertOwner(userId: string, relationshipId: number) {
+  const role = await getUserRole(userId, relationshipId);
+  
+  if (role !== "owner") {
+    throw new RelationshipPermissionError();
+  }
+}
+
 // Get relationship by ID
 export async function getRelationshipById(id: number): Promise<Relationship | null> {
   try {
@@ -74,39 +238,6 @@ export async function getRelationshipById(id: number): Promise<Relationship | nu
   }
 }
 
-// Get relationship by invite code
-export async function getRelationshipByInviteCode(code: string): Promise<Relationship | null> {
-  try {
-    console.log("Getting relationship with invite code:", code);
-    
-    if (!code || code.trim() === "") {
-      console.error("Invalid invite code provided");
-      return null;
-    }
-    
-    const q = query(
-      relationshipsCollection, 
-      where("inviteCode", "==", code.trim())
-    );
-    
-    const querySnapshot = await getDocs(q);
-    
-    if (querySnapshot.empty) {
-      console.log("No relationship found with invite code:", code);
-      return null;
-    }
-    
-    console.log("Found relationship with invite code");
-    const relationship = convertToRelationship(querySnapshot.docs[0]);
-    console.log("Relationship details:", relationship);
-    
-    return relationship;
-  } catch (error) {
-    console.error("Error getting relationship by invite code:", error);
-    throw error;
-  }
-}
-
 // Get user's relationships
 export async function getUserRelationships(userId: string): Promise<Relationship[]> {
   try {
@@ -185,8 +316,13 @@ export async function getUserRelationships(userId: string): Promise<Relationship
   }
 }
 
-// Create a new relationship
-export async function createRelationship(name?: string): Promise<Relationship> {
+// Create a new relationship. The creator joins it as owner next, with
+// addOwnerToRelationship.
+export async function createRelationship(
+  createdBy: string,
+  name?: string,
+  options: { mode?: RelationshipMode; memberLimit?: number | null } = {}
+): Promise<Relationship> {
   try {
     const inviteCode = generateInviteCode();
     
@@ -194,12 +330,23 @@ export async function createRelationship(name?: string): Promise<Relationship> {
     const now = new Date();
     const numericId = Math.floor(now.getTime() / 1000); // Unix timestamp in seconds
     
-    console.log("Creating relationship with generated ID:", numericId, "and name:", name);
+    const mode = options.mode || "couple";
+    const memberLimit = mode === "group" ? options.memberLimit ?? null : null;
+    
+    // Days are counted in the creator's time zone until the owner changes it
+    const timeZone = getLocalTimeZone();
+    
+    console.log("Creating relationship with generated ID:", numericId, "and name:", name, "mode:", mode);
     
     // Add document with custom ID
     await setDoc(doc(relationshipsCollection, numericId.toString()), {
       name: name || null,
       inviteCode,
+      createdBy,
+      mode,
+      memberLimit,
+      memberCount: 0,
+      timeZone,
       createdAt: serverTimestamp()
     });
     
@@ -208,6 +355,11 @@ export async function createRelationship(name?: string): Promise<Relationship> {
       id: numericId,
       name: name || null,
       inviteCode,
+      mode,
+      memberLimit,
+      quotaPolicy: null,
+      timeZone,
+      selectionConfig: null,
       createdAt: now
     };
   } catch (error) {
@@ -216,10 +368,13 @@ export async function createRelationship(name?: string): Promise<Relationship> {
   }
 }
 
-// Add user to relationship
-export async function addUserToRelationship(userId: string, relationshipId: number): Promise<Relationship> {
+// Add the creator of a new relationship as its owner. The relationship's own
+// invite code becomes an invite that never expires, written in the same
+// transaction since only the owner may create invites. Everyone else joins
+// with joinWithInviteCode.
+export async function addOwnerToRelationship(userId: string, relationshipId: number): Promise<Relationship> {
   try {
-    console.log("Adding user", userId, "to relationship", relationshipId);
+    console.log("Adding owner", userId, "to relationship", relationshipId);
     
     // First verify the relationship exists
     let relationship = await getRelationshipById(relationshipId);
@@ -228,34 +383,59 @@ export async function addUserToRelationship(userId: string, relationshipId: numb
       throw new Error(`Relationship not found with ID: ${relationshipId}`);
     }
     
-    // Check if user is already in this relationship
-    const q = query(
-      userRelationshipsCollection,
-      where("userId", "==", userId),
-      where("relationshipId", "==", relationshipId.toString())
-    );
+    const relationshipRef = doc(relationshipsCollection, relationshipId.toString());
+    const membershipRef = getMembershipRef(userId, relationshipId);
     
-    const querySnapshot = await getDocs(q);
+    const joined = await runTransaction(firestore, async (transaction) => {
+      const relationshipSnap = await transaction.get(relationshipRef);
+      const membershipSnap = await transaction.get(membershipRef);
+      
+      if (!relationshipSnap.exists()) {
+        throw new Error(`Relationship not found with ID: ${relationshipId}`);
+      }
+      
+      if (membershipSnap.exists()) {
+        return false;
+      }
+      
+      relationship = convertToRelationship(relationshipSnap);
+      const data = relationshipSnap.data() as FirestoreRelationship;
+      
+      if (data.createdBy !== userId || (data.memberCount ?? 0) !== 0) {
+        throw new RelationshipPermissionError("Only the creator of a new relationship can become its owner");
+      }
+      
+      const invite: FirestoreInvite = {
+        relationshipId: relationshipId.toString(),
+        createdBy: userId,
+        createdByName: null,
+        relationshipName: relationship.name,
+        relationshipMode: relationship.mode,
+        expiresAt: null,
+        maxUses: null,
+        useCount: 0,
+        revokedAt: null,
+        createdAt: Timestamp.now()
+      };
+      
+      transaction.set(membershipRef, {
+        userId,
+        relationshipId: relationshipId.toString(),
+        role: "owner",
+        createdAt: serverTimestamp()
+      });
+      transaction.update(relationshipRef, { memberCount: 1 });
+      transaction.set(doc(invitesCollection, relationship.inviteCode), invite);
+      return true;
+    });
     
-    if (!querySnapshot.empty) {
-      // User is already in this relationship, just return the relationship
+    if (!joined) {
       console.log("User is already in this relationship");
-      return relationship;
     }
     
-    // Add user to relationship
-    await addDoc(userRelationshipsCollection, {
-      userId,
-      relationshipId: relationshipId.toString(),
-      createdAt: serverTimestamp()
-    });
-    
-    console.log("User successfully added to relationship");
-    
-    // Just return the relationship we already verified exists
     return relationship;
   } catch (error) {
-    console.error("Error adding user to relationship:", error);
+    console.error("Error adding owner to relationship:", error);
     throw error;
   }
 }
@@ -308,14 +488,17 @@ export async function getUserNickname(userId: string, relationshipId: number): P
   }
 }
 
-// Update a relationship's name
+// Update a relationship's name (owner only)
 export async function updateRelationshipName(
   relationshipId: number,
-  name: string
+  name: string,
+  userId: string
 ): Promise<Relationship | null> {
   try {
     console.log(`Updating name for relationship ${relationshipId} to: ${name}`);
     
+    await assertOwner(userId, relationshipId);
+    
     const relationshipIdString = relationshipId.toString();
     const docRef = doc(relationshipsCollection, relationshipIdString);
     const docSnap = await getDoc(docRef);
@@ -325,8 +508,16 @@ export async function updateRelationshipName(
       return null;
     }
     
-    // Update the name
-    await updateDoc(docRef, { name });
+    // Update the name, and the copy open invites show on the join page
+    const batch = writeBatch(firestore);
+    batch.update(docRef, { name });
+    
+    const invites = await getRelationshipInvites(relationshipId);
+    invites
+      .filter(invite => invite.status === "valid")
+      .forEach(invite => batch.update(doc(invitesCollection, invite.code), { relationshipName: name }));
+    
+    await batch.commit();
     
     console.log("Relationship name updated successfully");
     
@@ -338,21 +529,79 @@ export async function updateRelationshipName(
       return null;
     }
     
-    // Create a modified relationship object manually
-    const data = updatedDocSnap.data() as FirestoreRelationship;
-    const id = Number(updatedDocSnap.id);
-    return {
-      id: isNaN(id) ? 0 : id,
-      name: data.name || null,
-      inviteCode: data.inviteCode,
-      createdAt: data.createdAt?.toDate() || new Date()
-    };
+    return convertToRelationship(updatedDocSnap);
   } catch (error) {
     console.error("Error updating relationship name:", error);
+    if (error instanceof RelationshipPermissionError) {
+      throw error;
+    }
     return null;
   }
 }
 
+// Update the upload quota for everyone in a relationship (owner only)
+export async function updateRelationshipQuotaPolicy(
+  relationshipId: number,
+  quotaPolicy: QuotaPolicy,
+  userId: string
+): Promise<Relationship> {
+  await assertOwner(userId, relationshipId);
+  
+  const docRef = doc(relationshipsCollection, relationshipId.toString());
+  await updateDoc(docRef, { quotaPolicy });
+  
+  const updatedDocSnap = await getDoc(docRef);
+  
+  if (!updatedDocSnap.exists()) {
+    throw new Error("Relationship not found");
+  }
+  
+  console.log(`Updated quota policy for relationship ${relationshipId}:`, quotaPolicy);
+  return convertToRelationship(updatedDocSnap);
+}
+
+// Tune how the daily board picks memories for everyone (owner only)
+export async function updateRelationshipSelectionConfig(
+  relationshipId: number,
+  selectionConfig: SelectionConfig,
+  userId: string
+): Promise<Relationship> {
+  await assertOwner(userId, relationshipId);
+  
+  const docRef = doc(relationshipsCollection, relationshipId.toString());
+  await updateDoc(docRef, { selectionConfig });
+  
+  const updatedDocSnap = await getDoc(docRef);
+  
+  if (!updatedDocSnap.exists()) {
+    throw new Error("Relationship not found");
+  }
+  
+  console.log(`Updated selection config for relationship ${relationshipId}:`, selectionConfig);
+  return convertToRelationship(updatedDocSnap);
+}
+
+// Change the time zone a relationship's days are counted in (owner only)
+export async function updateRelationshipTimeZone(
+  relationshipId: number,
+  timeZone: string,
+  userId: string
+): Promise<Relationship> {
+  await assertOwner(userId, relationshipId);
+  
+  const docRef = doc(relationshipsCollection, relationshipId.toString());
+  await updateDoc(docRef, { timeZone });
+  
+  const updatedDocSnap = await getDoc(docRef);
+  
+  if (!updatedDocSnap.exists()) {
+    throw new Error("Relationship not found");
+  }
+  
+  console.log(`Updated time zone for relationship ${relationshipId}: ${timeZone}`);
+  return convertToRelationship(updatedDocSnap);
+}
+
 // Update a user's nickname in a relationship
 export async function updateUserNickname(
   userId: string, 
@@ -389,4 +638,292 @@ export async function updateUserNickname(
     console.error("Error updating user nickname:", error);
     return false;
   }
-}
\ No newline at end of file
+}
+// Take a member out of a relationship, apply the memory policy and record the event.
+// Exported memories are returned so the caller can offer them as a download.
+async function departRelationship(
+  relationshipId: number,
+  memberId: string,
+  actorId: string,
+  type: RelationshipEventType,
+  memoryPolicy: DepartureMemoryPolicy
+): Promise<Memory[]> {
+  const membershipRefs = (await getMembershipDocs(relationshipId)).map(m => m.ref);
+  const relationshipRef = doc(relationshipsCollection, relationshipId.toString());
+  const eventRef = doc(relationshipEventsCollection);
+  
+  // Only members can query the relationship's memories, so they are found
+  // before the member is gone
+  const memberMemories = memoryPolicy === "kept" ? [] : await getVisibleUserMemories(memberId, relationshipId);
+  
+  // Memberships are read again inside the transaction, so someone who left
+  // in the meantime can't be handed ownership or counted. The event is
+  // written while the actor is still a member.
+  const successor = await runTransaction(firestore, async (transaction) => {
+    const relationshipSnap = await transaction.get(relationshipRef);
+    const membershipSnaps = await Promise.all(membershipRefs.map(ref => transaction.get(ref)));
+    const memberships = resolveMembershipRoles(membershipSnaps.filter(snap => snap.exists()));
+    const membership = memberships.find(m => m.data.userId === memberId);
+    
+    if (!membership) {
+      throw new Error("This person is not a member of the relationship");
+    }
+    
+    // Hand ownership to the longest-standing remaining member
+    const remaining = memberships.filter(m => m !== membership);
+    const successor = membership.role === "owner" && remaining.length > 0 && !remaining.some(m => m.role === "owner")
+      ? remaining[0]
+      : null;
+    
+    if (successor) {
+      transaction.update(successor.ref, { role: "owner" });
+    }
+    
+    transaction.delete(membership.ref);
+    
+    if (relationshipSnap.exists()) {
+      const memberCount = (relationshipSnap.data() as FirestoreRelationship).memberCount ?? memberships.length;
+      transaction.update(relationshipRef, { memberCount: memberCount - 1 });
+    }
+    
+    transaction.set(eventRef, {
+      relationshipId: relationshipId.toString(),
+      type,
+      actorUserId: actorId,
+      subjectUserId: memberId,
+      memoryPolicy,
+      createdAt: serverTimestamp()
+    });
+    
+    return successor;
+  });
+  
+  if (successor) {
+    console.log(`Ownership of relationship ${relationshipId} passed to ${successor.data.userId}`);
+  }
+  
+  await hideMemories(memberMemories);
+  
+  return memoryPolicy === "exported" ? memberMemories : [];
+}
+
+// Leave a relationship
+export async function leaveRelationship(
+  userId: string,
+  relationshipId: number,
+  memoryPolicy: DepartureMemoryPolicy
+): Promise<Memory[]> {
+  try {
+    console.log(`User ${userId} leaving relationship ${relationshipId} (memories ${memoryPolicy})`);
+    
+    return await departRelationship(relationshipId, userId, userId, "member_left", memoryPolicy);
+  } catch (error) {
+    console.error("Error leaving relationship:", error);
+    throw error;
+  }
+}
+
+// Remove another member from a relationship (owner only)
+export async function removeMember(
+  ownerId: string,
+  memberId: string,
+  relationshipId: number,
+  memoryPolicy: DepartureMemoryPolicy
+): Promise<Memory[]> {
+  try {
+    console.log(`Removing ${memberId} from relationship ${relationshipId} (memories ${memoryPolicy})`);
+    
+    await assertOwner(ownerId, relationshipId);
+    
+    if (ownerId === memberId) {
+      throw new Error("Owners leave a relationship instead of removing themselves");
+    }
+    
+    return await departRelationship(relationshipId, memberId, ownerId, "member_removed", memoryPolicy);
+  } catch (error) {
+    console.error("Error removing member:", error);
+    throw error;
+  }
+}
+
+// Issue a new invite for a relationship (owner only)
+export async function createInvite(
+  relationshipId: number,
+  userId: string,
+  options: Partial<CreateInviteOptions> = {},
+  inviterName: string | null = null
+): Promise<InviteInfo> {
+  try {
+    await assertOwner(userId, relationshipId);
+    
+    const relationship = await getRelationshipById(relationshipId);
+    
+    if (!relationship) {
+      throw new Error("Relationship not found");
+    }
+    
+    const expiresInHours = options.expiresInHours === undefined 
+      ? DEFAULT_INVITE_EXPIRY_HOURS 
+      : options.expiresInHours;
+    const maxUses = options.maxUses === undefined ? 1 : options.maxUses;
+    
+    const code = generateInviteCode(12);
+    const data = {
+      relationshipId: relationshipId.toString(),
+      createdBy: userId,
+      createdByName: inviterName,
+      relationshipName: relationship.name,
+      relationshipMode: relationship.mode,
+      expiresAt: expiresInHours === null 
+        ? null 
+        : Timestamp.fromMillis(Date.now() + expiresInHours * 60 * 60 * 1000),
+      maxUses,
+      useCount: 0,
+      revokedAt: null,
+      createdAt: Timestamp.now()
+    };
+    
+    await setDoc(doc(invitesCollection, code), data);
+    console.log(`Created invite ${code} for relationship ${relationshipId}`);
+    
+    return convertToInvite(code, data);
+  } catch (error) {
+    console.error("Error creating invite:", error);
+    throw error;
+  }
+}
+
+// Get all invites of a relationship, newest first
+export async function getRelationshipInvites(relationshipId: number): Promise<InviteInfo[]> {
+  try {
+    const q = query(
+      invitesCollection,
+      where("relationshipId", "==", relationshipId.toString())
+    );
+    
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs
+      .map(docSnapshot => convertToInvite(docSnapshot.id, docSnapshot.data() as FirestoreInvite))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  } catch (error) {
+    console.error("Error getting relationship invites:", error);
+    return [];
+  }
+}
+
+// Revoke an invite so it can't be used any more (owner only)
+export async function revokeInvite(code: string, userId: string): Promise<void> {
+  try {
+    const inviteRef = doc(invitesCollection, code);
+    const inviteSnap = await getDoc(inviteRef);
+    
+    if (!inviteSnap.exists()) {
+      throw new Error("Invite not found");
+    }
+    
+    const invite = inviteSnap.data() as FirestoreInvite;
+    await assertOwner(userId, Number(invite.relationshipId));
+    
+    if (!invite.revokedAt) {
+      await updateDoc(inviteRef, { revokedAt: serverTimestamp() });
+    }
+    
+    console.log(`Revoked invite ${code}`);
+  } catch (error) {
+    console.error("Error revoking invite:", error);
+    throw error;
+  }
+}
+
+// Describe an invite for the join page, without joining or needing a
+// membership. Only members can read the relationship, so everything shown
+// comes from the invite itself.
+export async function getInvitePreview(code: string): Promise<InvitePreview | null> {
+  try {
+    const inviteSnap = await getDoc(doc(invitesCollection, code.trim()));
+    
+    if (!inviteSnap.exists()) {
+      return null;
+    }
+    
+    const data = inviteSnap.data() as FirestoreInvite;
+    const invite = convertToInvite(inviteSnap.id, data);
+    
+    return {
+      status: invite.status,
+      expiresAt: invite.expiresAt,
+      relationship: { name: data.relationshipName ?? null, mode: data.relationshipMode ?? "couple" },
+      inviter: data.createdByName ? { displayName: data.createdByName, photoURL: null } : null
+    };
+  } catch (error) {
+    console.error("Error getting invite preview:", error);
+    return null;
+  }
+}
+
+// Join a relationship with an invite code. The invite use, the membership
+// and the member count are written in one transaction, and firestore.rules
+// holds it to the member limit, so a join that fails counts no use.
+export async function joinWithInviteCode(userId: string, code: string): Promise<Relationship | null> {
+  const inviteRef = doc(invitesCollection, code.trim());
+  const inviteSnap = await getDoc(inviteRef);
+  
+  if (!inviteSnap.exists()) {
+    return null;
+  }
+  
+  const relationshipId = Number((inviteSnap.data() as FirestoreInvite).relationshipId);
+  
+  // Already a member: nothing to join and no use to count
+  const existing = (await getUserRelationships(userId)).find(relationship => relationship.id === relationshipId);
+  
+  if (existing) {
+    console.log("User is already in this relationship");
+    return existing;
+  }
+  
+  const relationshipRef = doc(relationshipsCollection, relationshipId.toString());
+  const membershipRef = getMembershipRef(userId, relationshipId);
+  
+  try {
+    const joined = await runTransaction(firestore, async (transaction) => {
+      const inviteSnap = await transaction.get(inviteRef);
+      const membershipSnap = await transaction.get(membershipRef);
+      
+      if (membershipSnap.exists()) {
+        return false;
+      }
+      
+      const invite = convertToInvite(inviteRef.id, inviteSnap.data() as FirestoreInvite);
+      
+      if (invite.status !== "valid") {
+        throw new InviteError(invite.status);
+      }
+      
+      // Not yet a member, so the relationship can't be read for its count;
+      // the rules check the limit against the count this moves
+      transaction.set(membershipRef, {
+        userId,
+        relationshipId: relationshipId.toString(),
+        role: "member",
+        inviteCode: inviteRef.id,
+        createdAt: serverTimestamp()
+      });
+      transaction.update(inviteRef, { useCount: invite.useCount + 1 });
+      transaction.update(relationshipRef, { memberCount: increment(1) });
+      return true;
+    });
+    
+    if (joined) {
+      await notifyMembers({ relationshipId, type: "member_joined", actorId: userId }, userId);
+    }
+  } catch (error) {
+    if (error instanceof FirestoreError && error.code === "permission-denied") {
+      throw new Error("This relationship is full, so the invite can't be used right now");
+    }
+    throw error;
+  }
+  
+  return getRelationshipById(relationshipId);
+}
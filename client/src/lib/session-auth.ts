@@ -0,0 +1,42 @@
+import { apiRequest, isSessionAuth, queryClient } from "./queryClient";
+import type { PublicUser } from "@shared/schema";
+import { getLocalTimeZone } from "@shared/day-key";
+
+// Query key for the user behind the current session cookie
+export const SESSION_USER_QUERY_KEY = ["/api/auth/me"];
+
+// Sign in with email and password against the server session
+export async function loginWithPassword(email: string, password: string): Promise<PublicUser> {
+  const response = await apiRequest("POST", "/api/auth/login", { email, password });
+  const user = (await response.json()) as PublicUser;
+  queryClient.setQueryData(SESSION_USER_QUERY_KEY, user);
+  return user;
+}
+
+// Create an email/password account and start a session for it
+export async function registerWithPassword(email: string, password: string): Promise<PublicUser> {
+  const response = await apiRequest("POST", "/api/auth/register", { 
+    email, 
+    password, 
+    timeZone: getLocalTimeZone() 
+  });
+  const user = (await response.json()) as PublicUser;
+  queryClient.setQueryData(SESSION_USER_QUERY_KEY, user);
+  return user;
+}
+
+// Sign out of whichever auth mode the app is running in
+export async function logOutCurrentUser(): Promise<void> {
+  if (!isSessionAuth) {
+    const { logOut } = await import("./firebase");
+    return logOut();
+  }
+  
+  try {
+    await apiRequest("POST", "/api/auth/logout");
+    queryClient.setQueryData(SESSION_USER_QUERY_KEY, null);
+  } catch (error) {
+    console.error("Error signing out:", error);
+    throw error;
+  }
+}
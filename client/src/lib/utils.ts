@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { getDayKey, DEFAULT_TIME_ZONE } from "@shared/day-key";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -53,13 +54,17 @@ export function getTapePosition(index: number): string {
   return positions[index % positions.length];
 }
 
-// Function to determine if a user has uploaded a memory today
-export function hasUploadedToday(memories: any[], userId: string, relationshipId?: number): boolean {
-  const today = new Date();
-  const todayString = today.toISOString().split('T')[0];
+// Function to determine if a user has uploaded a memory today (in the relationship's time zone)
+export function hasUploadedToday(
+  memories: any[], 
+  userId: string, 
+  relationshipId?: number, 
+  timeZone: string = DEFAULT_TIME_ZONE
+): boolean {
+  const todayString = getDayKey(new Date(), timeZone);
   
   return memories.some(memory => {
-    const memoryDate = new Date(memory.createdAt).toISOString().split('T')[0];
+    const memoryDate = getDayKey(new Date(memory.createdAt), timeZone);
     
     if (relationshipId) {
       // Check for specific relationship
@@ -72,3 +77,16 @@ export function hasUploadedToday(memories: any[], userId: string, relationshipId
     }
   });
 }
+
+// Offer data to the user as a downloadable JSON file
+export function downloadJson(filename: string, data: unknown): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  
+  URL.revokeObjectURL(url);
+}
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
-import { Relationship } from "@shared/schema";
+import { Relationship, RelationshipMode, getMemberLimit } from "@shared/schema";
 import { useUserRelationships, useCreateRelationship, useJoinRelationship } from "@/hooks/use-relationship";
 import { useToast } from "@/hooks/use-toast";
 import Header from "@/components/header";
@@ -25,6 +25,8 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import InvitePartnerModal from "@/components/invite-partner-modal";
+import RelationshipMembersModal from "@/components/relationship-members-modal";
+import RelationshipSettingsModal from "@/components/relationship-settings-modal";
 
 export default function Dashboard() {
   const [, navigate] = useLocation();
@@ -34,6 +36,9 @@ export default function Dashboard() {
   const [showJoinDialog, setShowJoinDialog] = useState(false);
   const [showInviteDialog, setShowInviteDialog] = useState(false);
   const [selectedRelationship, setSelectedRelationship] = useState<Relationship | null>(null);
+  const [newRelationshipMode, setNewRelationshipMode] = useState<RelationshipMode>("couple");
+  const [membersRelationship, setMembersRelationship] = useState<Relationship | null>(null);
+  const [settingsRelationship, setSettingsRelationship] = useState<Relationship | null>(null);
 
   // Fetch user relationships
   const { data: relationships, isLoading: isRelationshipsLoading } = useUserRelationships(user?.uid || null);
@@ -46,7 +51,10 @@ export default function Dashboard() {
     if (!user) return;
     
     try {
-      const newRelationship = await createRelationship.mutateAsync(user.uid);
+      const newRelationship = await createRelationship.mutateAsync({ 
+        uid: user.uid, 
+        mode: newRelationshipMode 
+      });
       
       setSelectedRelationship(newRelationship);
       setShowInviteDialog(true);
@@ -83,7 +91,7 @@ export default function Dashboard() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Invalid invite code or relationship not found",
+        description: error instanceof Error ? error.message : "Invalid invite code or relationship not found",
         variant: "destructive",
       });
     }
@@ -111,7 +119,6 @@ export default function Dashboard() {
     <div className="min-h-screen flex flex-col bg-[var(--cream)]">
       <Header 
         userName={user.displayName || "User"}
-        notifications={0} 
         photoURL={user.photoURL || undefined}
       />
       
@@ -132,12 +139,30 @@ export default function Dashboard() {
                 Start a new relationship and invite your partner
               </CardDescription>
             </CardHeader>
-            <CardContent className="flex justify-center p-6">
+            <CardContent className="flex flex-col items-center gap-4 p-6">
               <div className="w-16 h-16 bg-[var(--primary-light)] rounded-full flex items-center justify-center">
                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-8 h-8 text-[var(--primary)]">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
                 </svg>
               </div>
+              
+              {/* Couple (2 people) or group (several friends) */}
+              <div className="flex rounded-lg border border-gray-200 p-1 text-sm">
+                {(["couple", "group"] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setNewRelationshipMode(mode)}
+                    className={`px-3 py-1 rounded-md capitalize transition ${
+                      newRelationshipMode === mode 
+                        ? "bg-[var(--primary)] text-white" 
+                        : "text-[var(--charcoal)]/70 hover:bg-gray-100"
+                    }`}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
             </CardContent>
             <CardFooter className="flex justify-center">
               <Button 
@@ -199,6 +224,7 @@ export default function Dashboard() {
                   </CardTitle>
                   <CardDescription>
                     Created on {new Date(relationship.createdAt).toLocaleDateString()}
+                    {relationship.mode === "group" && ` · Group of up to ${getMemberLimit(relationship)}`}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="flex justify-center">
@@ -208,7 +234,7 @@ export default function Dashboard() {
                     </svg>
                   </div>
                 </CardContent>
-                <CardFooter className="flex justify-center gap-3">
+                <CardFooter className="flex flex-wrap justify-center gap-3">
                   <Button 
                     onClick={() => goToRelationship(relationship.id)}
                     className="bg-[var(--primary)] hover:bg-[var(--primary-dark)]"
@@ -222,6 +248,20 @@ export default function Dashboard() {
                   >
                     Invite Partner
                   </Button>
+                  <Button 
+                    onClick={() => setMembersRelationship(relationship)}
+                    variant="ghost"
+                    className="text-[var(--charcoal)]/70"
+                  >
+                    Members
+                  </Button>
+                  <Button 
+                    onClick={() => setSettingsRelationship(relationship)}
+                    variant="ghost"
+                    className="text-[var(--charcoal)]/70"
+                  >
+                    Settings
+                  </Button>
                 </CardFooter>
               </Card>
             ))
@@ -268,6 +308,25 @@ export default function Dashboard() {
           isOpen={showInviteDialog}
           onClose={() => setShowInviteDialog(false)}
           inviteCode={selectedRelationship.inviteCode}
+          relationshipId={selectedRelationship.id}
+        />
+      )}
+      
+      {/* Members / Leave Modal */}
+      {membersRelationship && (
+        <RelationshipMembersModal
+          isOpen={!!membersRelationship}
+          onClose={() => setMembersRelationship(null)}
+          relationship={membersRelationship}
+        />
+      )}
+      
+      {/* Relationship Settings Modal */}
+      {settingsRelationship && (
+        <RelationshipSettingsModal
+          isOpen={!!settingsRelationship}
+          onClose={() => setSettingsRelationship(null)}
+          relationship={settingsRelationship}
         />
       )}
     </div>
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "../hooks/use-auth";
+import { useUserNickname } from "@/hooks/use-relationship-settings";
+import { getBackend } from "@/lib/backend";
+
+import Header from "../components/header";
+import BoardHistory from "../components/board-history";
+import MobileNavigation from "../components/mobile-navigation";
+import InvitePartnerModal from "../components/invite-partner-modal";
+
+interface HistoryPageProps {
+  params?: {
+    relationshipId?: string;
+  };
+}
+
+export default function HistoryPage({ params }: HistoryPageProps) {
+  const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
+  const relationshipId = params?.relationshipId ? Number(params.relationshipId) : null;
+
+  const { user } = useAuth();
+  const [_, navigate] = useLocation();
+
+  const { data: relationship, isLoading: relationshipLoading } = useQuery({
+    queryKey: ["relationships/specific", relationshipId],
+    queryFn: async () => {
+      if (!relationshipId) return null;
+      const { getRelationshipById } = await getBackend();
+      return getRelationshipById(relationshipId);
+    },
+    enabled: !!relationshipId,
+  });
+
+  const { data: userNickname } = useUserNickname(user?.uid || null, relationship?.id || null);
+
+  const handleHomeClick = () => {
+    navigate(relationship ? `/home/${relationship.id}` : "/");
+  };
+
+  if (relationshipLoading) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-[var(--cream)]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-[var(--primary-dark)] mx-auto"></div>
+          <p className="mt-4 font-serif text-lg text-[var(--charcoal)]">Loading relationship data...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--cream)]">
+      <Header
+        userName={userNickname || user?.displayName || "User"}
+        photoURL={user?.photoURL || undefined}
+        relationship={relationship || undefined}
+        onShowInvite={() => setIsInviteModalOpen(true)}
+      />
+
+      <main className="container mx-auto px-4 py-6 pb-24">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="font-serif text-2xl">Past Boards</h2>
+          <button
+            onClick={handleHomeClick}
+            className="text-sm px-3 py-1 bg-[var(--primary-light)] text-[var(--primary-dark)] rounded-md hover:bg-[var(--primary-light)/80] transition"
+          >
+            Back to today
+          </button>
+        </div>
+
+        {relationship ? (
+          <BoardHistory relationshipId={relationship.id} />
+        ) : (
+          <p className="text-center text-[var(--charcoal)]/70">This relationship could not be found.</p>
+        )}
+      </main>
+
+      <MobileNavigation
+        activePath="history"
+        onHomeClick={handleHomeClick}
+        relationshipId={relationship?.id}
+        onShowInvite={() => setIsInviteModalOpen(true)}
+        userName={userNickname || user?.displayName || "User"}
+      />
+
+      {isInviteModalOpen && (
+        <InvitePartnerModal
+          isOpen={isInviteModalOpen}
+          onClose={() => setIsInviteModalOpen(false)}
+          inviteCode={relationship?.inviteCode || ""}
+        />
+      )}
+    </div>
+  );
+}
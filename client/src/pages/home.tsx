@@ -10,9 +10,9 @@ import {
   useMarkMemoriesAsViewed
 } from "../hooks/use-memories";
 import { queryClient } from "@/lib/queryClient";
-import { Memory } from "@/lib/firebase-service";
+import type { Memory } from "@/lib/firebase-service";
 import { useQuery } from "@tanstack/react-query";
-import { getRelationshipById } from "@/lib/relationship-service";
+import { getBackend } from "@/lib/backend";
 
 import Header from "../components/header";
 import DailyUpload from "../components/daily-upload";
@@ -23,6 +23,8 @@ import InvitePartnerModal from "../components/invite-partner-modal";
 import MemoryCard from "../components/memory-card";
 import RelationshipNameEditor from "../components/relationship-name-editor";
 import { formatDate } from "../lib/utils";
+import { getDayKey, resolveTimeZone } from "@shared/day-key";
+import { resolveSelectionConfig } from "@shared/selection";
 
 interface HomePageProps {
   params?: {
@@ -48,16 +50,17 @@ export default function HomePage({ params }: HomePageProps) {
           queryKey: ["relationships/specific", selectedRelationshipId],
           queryFn: async () => {
             if (!selectedRelationshipId) return null;
+            const { getRelationshipById } = await getBackend();
             const rel = await getRelationshipById(selectedRelationshipId);
             return rel;
           },
           enabled: !!selectedRelationshipId,
         })
       : useUserRelationship(user?.uid || null);
-  const { data: dailyMemories, isLoading: memoriesLoading } = useDailyMemories(relationship?.id || null);
+  const { data: dailyMemories, isLoading: memoriesLoading } = useDailyMemories(relationship?.id || null, user?.uid || null);
   const { data: allMemories } = useRelationshipMemories(relationship?.id || null);
-  const { data: newMemories } = useNewMemories(relationship?.id || null);
-  const { mutate: markAsViewed } = useMarkMemoriesAsViewed(relationship?.id || null);
+  const { data: newMemories } = useNewMemories(relationship?.id || null, user?.uid || null);
+  const { mutate: markAsViewed } = useMarkMemoriesAsViewed(relationship?.id || null, user?.uid || null);
   const { data: userNickname } = useUserNickname(user?.uid || null, relationship?.id || null);
   
   // 3. Side effects
@@ -72,9 +75,10 @@ export default function HomePage({ params }: HomePageProps) {
   }, [newMemories, markAsViewed]);
   
   // 4. Derived values
-  const todaysDate = new Date().toISOString().split('T')[0];
+  const timeZone = resolveTimeZone(relationship?.timeZone);
+  const todaysDate = getDayKey(new Date(), timeZone);
   const todaysUploadedMemories = (allMemories || []).filter(memory => {
-    const memoryDate = new Date(memory.createdAt).toISOString().split('T')[0];
+    const memoryDate = getDayKey(new Date(memory.createdAt), timeZone);
     return memoryDate === todaysDate && String(memory.userId) === user?.uid;
   });
   
@@ -95,10 +99,6 @@ export default function HomePage({ params }: HomePageProps) {
     }, 300);
   };
   
-  const handleViewNotifications = () => {
-    queryClient.invalidateQueries({ queryKey: ["newMemories", relationship?.id] });
-  };
-  
   // 6. Loading state
   if (relationshipLoading) {
     return (
@@ -115,11 +115,9 @@ export default function HomePage({ params }: HomePageProps) {
     <div className="min-h-screen bg-[var(--cream)]">
       <Header 
         userName={userNickname || user?.displayName || "User"} 
-        notifications={newMemories?.length || 0} 
         photoURL={user?.photoURL || undefined}
         relationship={relationship || undefined}
         onShowInvite={showInviteModal}
-        onViewNotifications={handleViewNotifications}
       />
       
       <main className="container mx-auto px-4 py-6">
@@ -184,6 +182,8 @@ export default function HomePage({ params }: HomePageProps) {
               memories={dailyMemories || []} 
               isLoading={memoriesLoading} 
               relationshipId={relationship?.id || 0}
+              timeZone={timeZone}
+              boardSize={resolveSelectionConfig(relationship.selectionConfig).boardSize}
             />
           </>
         )}
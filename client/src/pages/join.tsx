@@ -0,0 +1,140 @@
+import { useEffect, useRef } from "react";
+import { useLocation } from "wouter";
+import { INVITE_STATUS_MESSAGES } from "@shared/schema";
+import { useAuth } from "../hooks/use-auth";
+import { useInvitePreview, useJoinRelationship } from "../hooks/use-relationship";
+import { rememberPendingInvite, clearPendingInvite } from "../lib/pending-invite";
+import AuthForm from "../components/auth-form";
+import SouvellaLogo from "../components/logo";
+
+interface JoinPageProps {
+  params?: {
+    code?: string;
+  };
+}
+
+export default function JoinPage({ params }: JoinPageProps) {
+  const code = params?.code ? decodeURIComponent(params.code) : null;
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+
+  const { data: preview, isLoading } = useInvitePreview(code);
+  const { mutate: joinRelationship, isPending: isJoining, isError } = useJoinRelationship();
+  const hasTriedJoining = useRef(false);
+
+  const isUsable = preview?.status === "valid";
+
+  // Keep the code through sign-in so we can join afterwards
+  useEffect(() => {
+    if (code && !user) {
+      rememberPendingInvite(code);
+    }
+  }, [code, user]);
+
+  // Join automatically once signed in
+  useEffect(() => {
+    if (!user || !code || !isUsable || hasTriedJoining.current) {
+      return;
+    }
+
+    hasTriedJoining.current = true;
+    joinRelationship(
+      { uid: user.uid, inviteCode: code },
+      {
+        onSuccess: (relationship) => {
+          clearPendingInvite();
+          navigate(`/home/${relationship.id}`);
+        },
+        onError: () => {
+          clearPendingInvite();
+        }
+      }
+    );
+  }, [user, code, isUsable, joinRelationship, navigate]);
+
+  // A dead link should not send the user back here after every sign-in
+  useEffect(() => {
+    if (!isLoading && !isUsable) {
+      clearPendingInvite();
+    }
+  }, [isLoading, isUsable]);
+
+  const relationshipName = preview?.relationship.name || "a shared memory board";
+  const inviterName = preview?.inviter?.displayName;
+
+  const renderStatus = () => {
+    if (isLoading) {
+      return <p className="text-center text-[var(--charcoal)]/70">Checking your invite...</p>;
+    }
+
+    if (!preview) {
+      return (
+        <p className="text-center text-[var(--charcoal)]/80">
+          This invite link isn't valid. Ask for a new one.
+        </p>
+      );
+    }
+
+    if (preview.status !== "valid") {
+      return <p className="text-center text-[var(--charcoal)]/80">{INVITE_STATUS_MESSAGES[preview.status]}</p>;
+    }
+
+    return (
+      <div className="text-center">
+        <p className="text-lg">
+          {inviterName ? <><span className="font-medium">{inviterName}</span> invited you to join</> : "You're invited to join"}
+        </p>
+        <p className="font-serif text-2xl mt-1">{relationshipName}</p>
+        {preview.relationship.mode === "group" && (
+          <p className="text-sm text-[var(--charcoal)]/60 mt-1">A group memory board</p>
+        )}
+        {preview.expiresAt && (
+          <p className="text-xs text-[var(--charcoal)]/60 mt-2">
+            Invite expires {new Date(preview.expiresAt).toLocaleString()}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[var(--cream)] flex items-center justify-center p-4 overflow-y-auto">
+      <div className="max-w-md w-full bg-white/70 backdrop-blur-sm rounded-2xl shadow-lg p-8 relative overflow-hidden">
+        <div className="tape w-20 -left-5 top-6 rotate-45"></div>
+        <div className="tape w-24 -right-5 top-12 -rotate-12"></div>
+
+        <div className="flex justify-center mb-6">
+          <SouvellaLogo size={80} />
+        </div>
+
+        <div className="mb-8">{renderStatus()}</div>
+
+        {user ? (
+          isUsable && (
+            <div className="text-center">
+              {isError ? (
+                <button
+                  onClick={() => navigate("/dashboard")}
+                  className="py-2.5 px-6 bg-[var(--primary)] hover:bg-[var(--primary-dark)] transition rounded-xl shadow-md font-medium text-white"
+                >
+                  Go to your relationships
+                </button>
+              ) : (
+                <p className="text-[var(--charcoal)]/70">{isJoining ? "Joining..." : "Getting things ready..."}</p>
+              )}
+            </div>
+          )
+        ) : (
+          isUsable && (
+            <>
+              <p className="text-center text-sm text-[var(--charcoal)]/70 mb-4">
+                Sign in or create an account and you'll join right away.
+              </p>
+              <AuthForm />
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
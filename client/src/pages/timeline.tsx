@@ -4,10 +4,9 @@ import { useAuth } from "../hooks/use-auth";
 import { useUserRelationship } from "../hooks/use-relationship";
 import { useRelationshipMemories, useNewMemories, useMarkMemoriesAsViewed } from "../hooks/use-memories";
 import { useUserNickname } from "@/hooks/use-relationship-settings"; 
-import { Memory } from "@/lib/firebase-service";
-import { queryClient } from "@/lib/queryClient";
+import type { Memory } from "@/lib/firebase-service";
 import { useQuery } from "@tanstack/react-query";
-import { getRelationshipById } from "@/lib/relationship-service";
+import { getBackend } from "@/lib/backend";
 
 import Header from "../components/header";
 import MemoryTimeline from "../components/memory-timeline";
@@ -38,6 +37,7 @@ export default function TimelinePage({ params }: TimelinePageProps) {
           queryKey: ["relationships/specific", selectedRelationshipId],
           queryFn: async () => {
             if (!selectedRelationshipId) return null;
+            const { getRelationshipById } = await getBackend();
             const rel = await getRelationshipById(selectedRelationshipId);
             return rel;
           },
@@ -49,10 +49,10 @@ export default function TimelinePage({ params }: TimelinePageProps) {
   const { data: memories, isLoading: memoriesLoading } = useRelationshipMemories(relationship?.id || null);
   
   // Get newly added memories
-  const { data: newMemories, isLoading: newMemoriesLoading } = useNewMemories(relationship?.id || null);
+  const { data: newMemories, isLoading: newMemoriesLoading } = useNewMemories(relationship?.id || null, user?.uid || null);
   
   // Mark new memories as viewed after 5 seconds
-  const { mutate: markAsViewed } = useMarkMemoriesAsViewed(relationship?.id || null);
+  const { mutate: markAsViewed } = useMarkMemoriesAsViewed(relationship?.id || null, user?.uid || null);
   
   // Use effect to mark memories as viewed after a delay (similar to home page)
   useEffect(() => {
@@ -85,12 +85,6 @@ export default function TimelinePage({ params }: TimelinePageProps) {
     relationship?.id || null
   );
   
-  // Function to handle viewing notifications in UI
-  const handleViewNotifications = () => {
-    // Manually trigger a re-fetch of new memories to reflect changes
-    queryClient.invalidateQueries({ queryKey: ["newMemories", relationship?.id] });
-  };
-  
   // Filter memories
   const filteredMemories = memories?.filter(memory => {
     if (activeFilter === "all") return true;
@@ -113,11 +107,9 @@ export default function TimelinePage({ params }: TimelinePageProps) {
     <div className="min-h-screen bg-[var(--cream)]">
       <Header 
         userName={userNickname || user?.displayName || "User"} 
-        notifications={newMemories?.length || 0} 
         photoURL={user?.photoURL || undefined}
         relationship={relationship || undefined}
         onShowInvite={showInviteModal}
-        onViewNotifications={handleViewNotifications}
       />
       
       <main className="container mx-auto px-4 py-6">
@@ -27,13 +27,32 @@ fi
 echo "✅ Build completed successfully!"
 echo ""
 
-echo "🚀 Deploying to Firebase hosting..."
+# The Firestore rules only accept data in the shape the migration leaves it,
+# so they are deployed after it and never without it
+if [ -n "$FIREBASE_SERVICE_ACCOUNT" ]; then
+  echo "🗃️  Migrating Firestore data for the security rules..."
+  if ! npm run migrate:firestore; then
+    echo "❌ Firestore migration failed, so nothing was deployed."
+    exit 1
+  fi
+  DEPLOY_TARGETS="hosting,firestore:rules"
+  echo "✅ Firestore data is ready for the rules."
+  echo ""
+else
+  echo "⚠️  WARNING: FIREBASE_SERVICE_ACCOUNT is not set, so Firestore data can't be migrated."
+  echo "Deploying hosting only; the Firestore rules stay as they are."
+  echo "See \"Firestore Security Rules\" in DEPLOYMENT_INSTRUCTIONS.md."
+  echo ""
+  DEPLOY_TARGETS="hosting"
+fi
+
+echo "🚀 Deploying to Firebase ($DEPLOY_TARGETS)..."
 if [ -z "$FIREBASE_TOKEN" ]; then
   # Deploy without token
-  npx firebase deploy --only hosting --project=memorybook2-4df48
+  npx firebase deploy --only "$DEPLOY_TARGETS" --project=memorybook2-4df48
 else
   # Deploy with token
-  npx firebase deploy --only hosting --project=memorybook2-4df48 --token="$FIREBASE_TOKEN"
+  npx firebase deploy --only "$DEPLOY_TARGETS" --project=memorybook2-4df48 --token="$FIREBASE_TOKEN"
 fi
 
 # Check deployment status
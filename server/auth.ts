@@ -0,0 +1,492 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import { createHmac, createVerify, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import {
+  sessionRegisterSchema,
+  updateTimeZoneSchema,
+  type User as SelectUser,
+  type PublicUser,
+  type Relationship,
+  type UserRelationship
+} from "@shared/schema";
+import { storage } from "./storage";
+
+const scryptAsync = promisify(scrypt);
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+
+    interface Request {
+      // Identity proven by the session or bearer token (set even before the user is registered)
+      auth?: VerifiedIdentity;
+      // Registered user matching the session or token
+      user?: User;
+      // Relationship and the current user's membership resolved by requireRelationshipMember
+      relationship?: Relationship;
+      membership?: UserRelationship;
+    }
+  }
+}
+
+export interface VerifiedIdentity {
+  uid: string;
+  email?: string;
+  name?: string;
+  picture?: string;
+}
+
+// Anything that can turn a bearer token into a verified identity.
+// Implementations must throw when the token is invalid or expired.
+export interface TokenVerifier {
+  verify(token: string): Promise<VerifiedIdentity>;
+}
+
+interface JwtParts {
+  header: Record<string, any>;
+  payload: Record<string, any>;
+  signingInput: string;
+  signature: Buffer;
+}
+
+function decodeJwt(token: string): JwtParts {
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    throw new Error("Malformed token");
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(encodedHeader, "base64url").toString("utf8")),
+      payload: JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8")),
+      signingInput: `${encodedHeader}.${encodedPayload}`,
+      signature: Buffer.from(encodedSignature, "base64url"),
+    };
+  } catch (error) {
+    throw new Error("Malformed token");
+  }
+}
+
+function checkTimeClaims(payload: Record<string, any>) {
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof payload.exp !== "number" || payload.exp <= now) {
+    throw new Error("Token has expired");
+  }
+
+  // Allow a little clock skew between the issuer and this server
+  if (typeof payload.iat === "number" && payload.iat > now + 60) {
+    throw new Error("Token was issued in the future");
+  }
+}
+
+function toIdentity(payload: Record<string, any>): VerifiedIdentity {
+  if (typeof payload.sub !== "string" || payload.sub.length === 0) {
+    throw new Error("Token has no subject");
+  }
+
+  return {
+    uid: payload.sub,
+    email: payload.email,
+    name: payload.name,
+    picture: payload.picture,
+  };
+}
+
+// Verifies Firebase Auth ID tokens against Google's published signing certificates
+export class FirebaseTokenVerifier implements TokenVerifier {
+  private static CERTS_URL =
+    "https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com";
+
+  private certs: Record<string, string> = {};
+  private certsExpireAt = 0;
+
+  constructor(private projectId: string) {}
+
+  private async getCerts(): Promise<Record<string, string>> {
+    if (Date.now() < this.certsExpireAt) {
+      return this.certs;
+    }
+
+    const response = await fetch(FirebaseTokenVerifier.CERTS_URL);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Firebase signing certificates (${response.status})`);
+    }
+
+    // Respect the cache lifetime Google advertises for the certificates
+    const maxAge = /max-age=(\d+)/.exec(response.headers.get("cache-control") || "");
+    this.certs = await response.json();
+    this.certsExpireAt = Date.now() + (maxAge ? parseInt(maxAge[1], 10) : 3600) * 1000;
+
+    return this.certs;
+  }
+
+  async verify(token: string): Promise<VerifiedIdentity> {
+    const { header, payload, signingInput, signature } = decodeJwt(token);
+
+    if (header.alg !== "RS256") {
+      throw new Error("Unexpected token algorithm");
+    }
+
+    const certs = await this.getCerts();
+    const cert = certs[header.kid];
+    if (!cert) {
+      throw new Error("Token was signed with an unknown key");
+    }
+
+    const verifier = createVerify("RSA-SHA256");
+    verifier.update(signingInput);
+    if (!verifier.verify(cert, signature)) {
+      throw new Error("Invalid token signature");
+    }
+
+    if (payload.aud !== this.projectId) {
+      throw new Error("Token audience does not match this project");
+    }
+
+    if (payload.iss !== `https://securetoken.google.com/${this.projectId}`) {
+      throw new Error("Token issuer does not match this project");
+    }
+
+    checkTimeClaims(payload);
+
+    return toIdentity(payload);
+  }
+}
+
+// Verifies HS256 tokens signed with a shared key. Meant for local development
+// and tests where no Firebase project is available.
+export class LocalKeyVerifier implements TokenVerifier {
+  constructor(private key: string) {}
+
+  async verify(token: string): Promise<VerifiedIdentity> {
+    const { header, payload, signingInput, signature } = decodeJwt(token);
+
+    if (header.alg !== "HS256") {
+      throw new Error("Unexpected token algorithm");
+    }
+
+    const expected = createHmac("sha256", this.key).update(signingInput).digest();
+    if (expected.length !== signature.length || !timingSafeEqual(expected, signature)) {
+      throw new Error("Invalid token signature");
+    }
+
+    checkTimeClaims(payload);
+
+    return toIdentity(payload);
+  }
+}
+
+// Create a token accepted by LocalKeyVerifier
+export function signLocalToken(
+  identity: VerifiedIdentity,
+  key: string,
+  expiresInSeconds = 60 * 60
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+  const payload = Buffer.from(JSON.stringify({
+    sub: identity.uid,
+    email: identity.email,
+    name: identity.name,
+    picture: identity.picture,
+    iat: now,
+    exp: now + expiresInSeconds,
+  })).toString("base64url");
+  const signature = createHmac("sha256", key).update(`${header}.${payload}`).digest("base64url");
+
+  return `${header}.${payload}.${signature}`;
+}
+
+// AUTH_LOCAL_KEY switches to local test tokens; otherwise Firebase ID tokens
+// are verified for FIREBASE_PROJECT_ID (or the client's VITE_FIREBASE_PROJECT_ID)
+function createDefaultVerifier(): TokenVerifier | null {
+  if (process.env.AUTH_LOCAL_KEY) {
+    return new LocalKeyVerifier(process.env.AUTH_LOCAL_KEY);
+  }
+
+  const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID;
+  return projectId ? new FirebaseTokenVerifier(projectId) : null;
+}
+
+let tokenVerifier = createDefaultVerifier();
+
+export function setTokenVerifier(verifier: TokenVerifier) {
+  tokenVerifier = verifier;
+}
+
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith("Bearer ")) {
+    return null;
+  }
+
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+// Strip credentials before a user is sent to a client
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+
+  const storedBuffer = Buffer.from(hashed, "hex");
+  const suppliedBuffer = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return storedBuffer.length === suppliedBuffer.length && timingSafeEqual(storedBuffer, suppliedBuffer);
+}
+
+// TRUST_PROXY the way Express's "trust proxy" setting takes it: true, a number
+// of hops, or a comma-separated list of proxy addresses
+function parseTrustProxy(value: string): boolean | number | string {
+  if (value === "true" || value === "false") {
+    return value === "true";
+  }
+
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+// Cookie sessions with email/password login, so self-hosted installs can run
+// without Firebase at all. Sessions live in storage.sessionStore (Postgres or
+// memory). Behind a reverse proxy that terminates TLS, set TRUST_PROXY or the
+// secure cookie is never sent.
+export function setupSessionAuth(app: Express) {
+  const secret = process.env.SESSION_SECRET;
+
+  if (!secret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  if (process.env.TRUST_PROXY) {
+    app.set("trust proxy", parseTrustProxy(process.env.TRUST_PROXY));
+  }
+
+  app.use(session({
+    secret: secret || "souvella-dev-session-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+    try {
+      const user = await storage.getUserByEmail(email);
+
+      if (!user || !user.passwordHash || !(await comparePasswords(password, user.passwordHash))) {
+        return done(null, false, { message: "Invalid email or password" });
+      }
+
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUserById(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { email, password, displayName, timeZone } = sessionRegisterSchema.parse(req.body);
+
+      if (await storage.getUserByEmail(email)) {
+        return res.status(400).json({ message: "An account with this email already exists" });
+      }
+
+      const user = await storage.createUser({
+        uid: `local:${nanoid()}`,
+        email,
+        displayName: displayName || email.split("@")[0],
+        passwordHash: await hashPassword(password),
+        timeZone: timeZone ?? null,
+      });
+
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid registration data", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/login", (req: Request, res: Response, next: NextFunction) => {
+    passport.authenticate("local", (error: unknown, user: SelectUser | false, info?: { message: string }) => {
+      if (error) return next(error);
+
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Invalid email or password" });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => res.sendStatus(200));
+    });
+  });
+
+  app.get("/api/auth/me", requireUser, (req: Request, res: Response) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  app.patch("/api/auth/me/time-zone", requireUser, async (req: Request, res: Response) => {
+    try {
+      const { timeZone } = updateTimeZoneSchema.parse(req.body);
+      const user = await storage.updateUserTimeZone(req.user!.id, timeZone);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      return res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid time zone", details: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to update time zone" });
+    }
+  });
+}
+
+// Require a logged-in session or a valid bearer token. The user does not need
+// to be registered yet when authenticating with a token.
+export async function requireToken(req: Request, res: Response, next: NextFunction) {
+  // A cookie session already proves who the caller is
+  if (req.isAuthenticated?.() && req.user) {
+    req.auth = { uid: req.user.uid, email: req.user.email, name: req.user.displayName };
+    return next();
+  }
+
+  const token = getBearerToken(req);
+
+  if (!token) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+
+  if (!tokenVerifier) {
+    return res.status(500).json({ message: "No token verifier is configured" });
+  }
+
+  try {
+    req.auth = await tokenVerifier.verify(token);
+  } catch (error) {
+    return res.status(401).json({
+      message: "Invalid authentication token",
+      details: error instanceof Error ? error.message : undefined
+    });
+  }
+
+  try {
+    req.user = await storage.getUserByUid(req.auth.uid);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Require a valid bearer token belonging to a registered user
+export async function requireUser(req: Request, res: Response, next: NextFunction) {
+  await requireToken(req, res, (error?: unknown) => {
+    if (error) {
+      return next(error);
+    }
+
+    if (!req.user) {
+      return res.status(401).json({ message: "User is not registered" });
+    }
+
+    next();
+  });
+}
+
+// Require the current user to be a member of the relationship named by a route param.
+// Must run after requireUser.
+export function requireRelationshipMember(paramName = "relationshipId") {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const relationshipId = parseInt(req.params[paramName], 10);
+
+    if (isNaN(relationshipId)) {
+      return res.status(400).json({ message: "Invalid relationship ID" });
+    }
+
+    try {
+      req.membership = await storage.getMembership(req.user!.id, relationshipId);
+
+      if (!req.membership) {
+        return res.status(403).json({ message: "You are not a member of this relationship" });
+      }
+
+      req.relationship = await storage.getRelationshipById(relationshipId);
+
+      if (!req.relationship) {
+        return res.status(404).json({ message: "Relationship not found" });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Like requireRelationshipMember, but only lets the relationship's owner through
+export function requireRelationshipOwner(paramName = "relationshipId") {
+  const requireMember = requireRelationshipMember(paramName);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    requireMember(req, res, (error?: unknown) => {
+      if (error) {
+        return next(error);
+      }
+
+      if (req.membership!.role !== "owner") {
+        return res.status(403).json({ message: "Only the relationship owner can do this" });
+      }
+
+      next();
+    });
+  };
+}
@@ -1,15 +1,32 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePg } from 'drizzle-orm/node-postgres';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import pg from "pg";
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
-}
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Connections are created on demand so the in-memory storage backend can run
+// without DATABASE_URL. Set DATABASE_DRIVER=pg to talk to a plain Postgres
+// server (e.g. a local instance) instead of Neon's websocket proxy.
+export function createDatabase(connectionString = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+  if (process.env.DATABASE_DRIVER === "pg") {
+    const pool = new pg.Pool({ connectionString });
+    const db: Database = drizzleNodePg({ client: pool, schema });
+    return { pool, db };
+  }
+
+  const pool = new Pool({ connectionString });
+  const db: Database = drizzle({ client: pool, schema });
+  return { pool, db };
+}
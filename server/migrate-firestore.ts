@@ -0,0 +1,323 @@
+// One-time migration of Firestore data to the shape firestore.rules checks.
+// Run it before deploying those rules (deploy.sh does) with a service account
+// that can write to Firestore:
+//
+//   FIREBASE_SERVICE_ACCOUNT='{...}' npm run migrate:firestore
+//
+// - Memberships are re-keyed to "<relationshipId>_<userId>", duplicates are
+//   dropped, and every membership gets a role. Relationships from before roles
+//   existed get their earliest member as owner.
+// - Relationships get the memberCount and createdBy the rules count and
+//   recognise the owner by.
+// - A relationship's legacy invite code becomes an invite that never expires,
+//   unless the relationship already issued invites, which retired that code.
+// - Invites get a copy of their relationship's name and mode for the join
+//   page, which can't read the relationship.
+//
+// Data already in this shape is left alone, so running it again changes
+// nothing. It talks to the Firestore REST API directly, as the rules don't
+// apply to a service account.
+
+import { createSign } from "crypto";
+
+interface ServiceAccount {
+  project_id?: string;
+  client_email: string;
+  private_key: string;
+}
+
+// A Firestore value as the REST API encodes it, e.g. { stringValue: "..." }
+type FirestoreValue = Record<string, unknown>;
+
+interface FirestoreDocument {
+  name: string;
+  fields?: Record<string, FirestoreValue>;
+  createTime: string;
+}
+
+type Write =
+  | { update: { name: string; fields: Record<string, FirestoreValue> }; updateMask?: { fieldPaths: string[] } }
+  | { delete: string };
+
+const MAX_WRITES_PER_COMMIT = 500;
+
+async function getAccessToken(serviceAccount: ServiceAccount): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const header = Buffer.from(JSON.stringify({ alg: "RS256", typ: "JWT" })).toString("base64url");
+  const payload = Buffer.from(JSON.stringify({
+    iss: serviceAccount.client_email,
+    scope: "https://www.googleapis.com/auth/datastore",
+    aud: "https://oauth2.googleapis.com/token",
+    iat: now,
+    exp: now + 60 * 60
+  })).toString("base64url");
+  const signature = createSign("RSA-SHA256").update(`${header}.${payload}`).sign(serviceAccount.private_key, "base64url");
+
+  const response = await fetch("https://oauth2.googleapis.com/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion: `${header}.${payload}.${signature}`
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Could not get an access token: ${response.status} ${await response.text()}`);
+  }
+
+  return (await response.json() as { access_token: string }).access_token;
+}
+
+class FirestoreClient {
+  private readonly documentsPath: string;
+
+  constructor(projectId: string, private readonly accessToken: string) {
+    this.documentsPath = `projects/${projectId}/databases/(default)/documents`;
+  }
+
+  documentName(collection: string, id: string): string {
+    return `${this.documentsPath}/${collection}/${id}`;
+  }
+
+  async list(collection: string): Promise<FirestoreDocument[]> {
+    const documents: FirestoreDocument[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({ pageSize: "300" });
+
+      if (pageToken) {
+        params.set("pageToken", pageToken);
+      }
+
+      const page = await this.request("GET", `${this.documentsPath}/${collection}?${params}`) as {
+        documents?: FirestoreDocument[];
+        nextPageToken?: string;
+      };
+      documents.push(...(page.documents ?? []));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return documents;
+  }
+
+  async commit(writes: Write[]): Promise<void> {
+    for (let start = 0; start < writes.length; start += MAX_WRITES_PER_COMMIT) {
+      await this.request("POST", `${this.documentsPath}:commit`, {
+        writes: writes.slice(start, start + MAX_WRITES_PER_COMMIT)
+      });
+    }
+  }
+
+  private async request(method: string, path: string, body?: unknown): Promise<unknown> {
+    const response = await fetch(`https://firestore.googleapis.com/v1/${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        ...(body ? { "Content-Type": "application/json" } : {})
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      throw new Error(`Firestore ${method} ${path} failed: ${response.status} ${await response.text()}`);
+    }
+
+    return response.json();
+  }
+}
+
+function documentId(document: FirestoreDocument): string {
+  return document.name.slice(document.name.lastIndexOf("/") + 1);
+}
+
+function getString(document: FirestoreDocument, field: string): string | null {
+  const value = document.fields?.[field]?.stringValue;
+  return typeof value === "string" ? value : null;
+}
+
+function getInteger(document: FirestoreDocument, field: string): number | null {
+  const value = document.fields?.[field]?.integerValue;
+  return value === undefined ? null : Number(value);
+}
+
+// When a membership was made, for finding the earliest member
+function getCreatedAt(document: FirestoreDocument): string {
+  const value = document.fields?.createdAt?.timestampValue;
+  return typeof value === "string" ? value : document.createTime;
+}
+
+interface ResolvedMembership {
+  id: string;
+  userId: string;
+  role: "owner" | "member";
+}
+
+// Re-key, dedupe and give roles to the memberships of one relationship
+function migrateMemberships(
+  firestore: FirestoreClient,
+  relationshipId: string,
+  documents: FirestoreDocument[],
+  writes: Write[]
+): ResolvedMembership[] {
+  const byUser = new Map<string, FirestoreDocument[]>();
+
+  for (const document of documents) {
+    const userId = getString(document, "userId");
+
+    if (userId) {
+      byUser.set(userId, [...(byUser.get(userId) ?? []), document]);
+    }
+  }
+
+  // One membership per member: the keyed one if it exists, else the earliest
+  const kept = Array.from(byUser, ([userId, userDocuments]) => {
+    const id = `${relationshipId}_${userId}`;
+    const sorted = [...userDocuments].sort((a, b) => getCreatedAt(a).localeCompare(getCreatedAt(b)));
+    const document = userDocuments.find(d => documentId(d) === id) ?? sorted[0];
+    const createdAt = getCreatedAt(sorted[0]);
+
+    for (const duplicate of userDocuments) {
+      if (documentId(duplicate) !== id) {
+        writes.push({ delete: duplicate.name });
+      }
+    }
+
+    return { id, userId, document, createdAt };
+  }).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const hasOwner = kept.some(m => getString(m.document, "role") === "owner");
+
+  return kept.map((m, index) => {
+    const role = getString(m.document, "role") === "owner" || (!hasOwner && index === 0) ? "owner" : "member";
+
+    if (documentId(m.document) !== m.id || getString(m.document, "role") !== role) {
+      writes.push({
+        update: {
+          name: firestore.documentName("userRelationships", m.id),
+          fields: { ...m.document.fields, role: { stringValue: role } }
+        }
+      });
+    }
+
+    return { id: m.id, userId: m.userId, role };
+  });
+}
+
+async function main() {
+  const json = process.env.FIREBASE_SERVICE_ACCOUNT;
+
+  if (!json) {
+    throw new Error("FIREBASE_SERVICE_ACCOUNT is not set");
+  }
+
+  const serviceAccount = JSON.parse(json) as ServiceAccount;
+  const projectId = process.env.FIREBASE_PROJECT_ID || serviceAccount.project_id;
+
+  if (!projectId) {
+    throw new Error("Set FIREBASE_PROJECT_ID or use a service account with a project_id");
+  }
+
+  const firestore = new FirestoreClient(projectId, await getAccessToken(serviceAccount));
+  const [relationships, memberships, invites] = await Promise.all([
+    firestore.list("relationships"),
+    firestore.list("userRelationships"),
+    firestore.list("invites")
+  ]);
+  const writes: Write[] = [];
+
+  const membershipsByRelationship = new Map<string, FirestoreDocument[]>();
+
+  for (const membership of memberships) {
+    const relationshipId = getString(membership, "relationshipId");
+
+    if (relationshipId) {
+      membershipsByRelationship.set(relationshipId, [...(membershipsByRelationship.get(relationshipId) ?? []), membership]);
+    }
+  }
+
+  const invitedRelationshipIds = new Set(invites.map(invite => getString(invite, "relationshipId")));
+  const relationshipsById = new Map(relationships.map(relationship => [documentId(relationship), relationship]));
+  let migratedInviteCodes = 0;
+
+  for (const relationship of relationships) {
+    const relationshipId = documentId(relationship);
+    const members = migrateMemberships(
+      firestore,
+      relationshipId,
+      membershipsByRelationship.get(relationshipId) ?? [],
+      writes
+    );
+    const owner = members.find(m => m.role === "owner");
+    const createdBy = getString(relationship, "createdBy") ?? owner?.userId ?? null;
+
+    if (getInteger(relationship, "memberCount") !== members.length || getString(relationship, "createdBy") !== createdBy) {
+      writes.push({
+        update: {
+          name: relationship.name,
+          fields: {
+            memberCount: { integerValue: String(members.length) },
+            ...(createdBy ? { createdBy: { stringValue: createdBy } } : {})
+          }
+        },
+        updateMask: { fieldPaths: createdBy ? ["memberCount", "createdBy"] : ["memberCount"] }
+      });
+    }
+
+    const inviteCode = getString(relationship, "inviteCode");
+
+    if (inviteCode && owner && !invitedRelationshipIds.has(relationshipId)) {
+      writes.push({
+        update: {
+          name: firestore.documentName("invites", inviteCode),
+          fields: {
+            relationshipId: { stringValue: relationshipId },
+            createdBy: { stringValue: owner.userId },
+            createdByName: { nullValue: null },
+            relationshipName: relationship.fields?.name ?? { nullValue: null },
+            relationshipMode: relationship.fields?.mode ?? { stringValue: "couple" },
+            expiresAt: { nullValue: null },
+            maxUses: { nullValue: null },
+            useCount: { integerValue: "0" },
+            revokedAt: { nullValue: null },
+            createdAt: { timestampValue: new Date().toISOString() }
+          }
+        }
+      });
+      migratedInviteCodes++;
+    }
+  }
+
+  for (const invite of invites) {
+    const relationship = relationshipsById.get(getString(invite, "relationshipId") ?? "");
+
+    if (relationship && (!invite.fields?.relationshipName || !invite.fields?.relationshipMode)) {
+      writes.push({
+        update: {
+          name: invite.name,
+          fields: {
+            relationshipName: relationship.fields?.name ?? { nullValue: null },
+            relationshipMode: relationship.fields?.mode ?? { stringValue: "couple" }
+          }
+        },
+        updateMask: { fieldPaths: ["relationshipName", "relationshipMode"] }
+      });
+    }
+  }
+
+  await firestore.commit(writes);
+
+  console.log(
+    `Checked ${relationships.length} relationships and ${memberships.length} memberships; ` +
+    `wrote ${writes.length} changes, including ${migratedInviteCodes} legacy invite codes`
+  );
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,64 @@
+// One-time migration to ledger-derived reaction counts. Run it once after
+// `npm run db:push` adds memories.legacy_thumbs_ups:
+//
+//   npm run migrate:reactions
+//
+// Thumbs-ups from before the reactions ledger have no rows in it. For each
+// memory this keeps whatever the memory showed beyond its ledger rows as
+// legacyThumbsUps, then recounts reactionCounts and thumbsUpCount from the
+// ledger. A memory's counts already match its ledger plus legacyThumbsUps
+// afterwards, so running it again changes nothing.
+
+import { and, asc, count, eq } from "drizzle-orm";
+import { memories, reactions } from "@shared/schema";
+import { createDatabase } from "./db";
+import { recountReactions } from "./storage";
+
+async function main() {
+  const { db, pool } = createDatabase();
+
+  try {
+    const memoryIds = await db.select({ id: memories.id }).from(memories).orderBy(asc(memories.id));
+    let carriedOver = 0;
+
+    for (const { id } of memoryIds) {
+      await db.transaction(async (tx) => {
+        const [memory] = await tx
+          .select()
+          .from(memories)
+          .where(eq(memories.id, id))
+          .for("update");
+
+        if (!memory) {
+          return;
+        }
+
+        const [ledger] = await tx
+          .select({ count: count() })
+          .from(reactions)
+          .where(and(eq(reactions.memoryId, id), eq(reactions.type, "thumbs_up")));
+        const shown = memory.reactionCounts?.thumbs_up ?? memory.thumbsUpCount;
+        const legacyThumbsUps = Math.max(shown - ledger.count, 0);
+
+        await tx.update(memories).set({ legacyThumbsUps }).where(eq(memories.id, id));
+        await recountReactions(tx, id);
+
+        if (legacyThumbsUps > 0) {
+          carriedOver++;
+        }
+      });
+    }
+
+    console.log(`Recounted ${memoryIds.length} memories; ${carriedOver} keep thumbs-ups from before the ledger`);
+  } finally {
+    await pool.end();
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  }
+);
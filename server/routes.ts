@@ -1,27 +1,145 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { nanoid } from "nanoid";
+import { storage, RelationshipFullError, InviteError, UploadQuotaError, GiftLimitError, ReactionError, RerollError } from "./storage";
+import {
+  requireToken,
+  requireUser,
+  requireRelationshipMember,
+  requireRelationshipOwner,
+  setupSessionAuth,
+  toPublicUser
+} from "./auth";
+import { setupUploads } from "./uploads";
 import { 
-  insertUserSchema, 
+  registerUserSchema, 
   insertMemorySchema, 
+  memoryRetirementSchema,
+  createGiftSchema,
+  reactionRequestSchema,
+  createCommentSchema,
   insertDailyMemorySchema,
-  MemoryType
+  memberLimitSchema,
+  updateTimeZoneSchema,
+  updateNicknameSchema,
+  departureSchema,
+  createInviteSchema,
+  getInviteStatus,
+  getMemberLimit,
+  COUPLE_MEMBER_LIMIT,
+  MemoryType,
+  type DepartureMemoryPolicy,
+  type Invite,
+  type InsertNotification,
+  type Memory,
+  type InvitePreview,
+  type PublicUser,
+  type Relationship,
+  type RelationshipEventType,
+  type UploadStatus
 } from "@shared/schema";
+import { quotaPolicySchema, getUploadAllowance, getUploadSlotKeys } from "@shared/quota";
+import { selectionConfigSchema, resolveSelectionConfig } from "@shared/selection";
+import { REACTION_DAILY_LIMITS } from "@shared/reactions";
+import { addDays, dayKeySchema, getDayKey, resolveTimeZone, timeZoneSchema } from "@shared/day-key";
 import { z } from "zod";
 
+// Take a member out of a relationship, apply the chosen memory policy and
+// record who did it, in one storage transaction. Exported memories are
+// returned so they can be downloaded; undefined if they weren't a member.
+async function departRelationship(options: {
+  relationshipId: number;
+  userId: number;
+  actorUserId: number;
+  type: RelationshipEventType;
+  memoryPolicy: DepartureMemoryPolicy;
+}): Promise<Memory[] | undefined> {
+  const { relationshipId, userId, actorUserId, type, memoryPolicy } = options;
+  
+  const hiddenMemories = await storage.departRelationship({
+    relationshipId,
+    type,
+    actorUserId,
+    subjectUserId: userId,
+    memoryPolicy
+  });
+  
+  if (!hiddenMemories) {
+    return undefined;
+  }
+  
+  return memoryPolicy === "exported" ? hiddenMemories : [];
+}
+
+// Let the relationship's members know what happened, except whoever caused it.
+// Pass recipientIds to narrow it down to, say, a memory's author. The action
+// itself has already succeeded, so a failure here is logged, not returned.
+async function notifyMembers(
+  notification: Omit<InsertNotification, "userId">,
+  causedByUserId: number,
+  recipientIds?: number[]
+): Promise<void> {
+  try {
+    const members = await storage.getRelationshipMembers(notification.relationshipId);
+    const userIds = members
+      .map(member => member.user.id)
+      .filter(userId => userId !== causedByUserId && (!recipientIds || recipientIds.includes(userId)));
+    
+    await storage.createNotifications(userIds.map(userId => ({ ...notification, userId })));
+  } catch (error) {
+    console.error("Failed to send notifications:", error);
+  }
+}
+
+// Find what an invite code points at: an invite, or the relationship's legacy
+// code for relationships that have never issued an invite
+async function resolveInviteCode(code: string): Promise<{ invite?: Invite; relationship?: Relationship }> {
+  const invite = await storage.getInviteByCode(code);
+  
+  if (invite) {
+    return { invite, relationship: await storage.getRelationshipById(invite.relationshipId) };
+  }
+  
+  const relationship = await storage.getRelationshipByInviteCode(code);
+  
+  if (!relationship) {
+    return {};
+  }
+  
+  const issuedInvites = await storage.getInvitesByRelationship(relationship.id);
+  return issuedInvites.length > 0 ? {} : { relationship };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Session login (register/login/logout/me)
+  setupSessionAuth(app);
+  
+  // Photos and voice notes when there's no Firebase Storage
+  setupUploads(app);
+  
   // User routes
-  app.post("/api/auth/user", async (req: Request, res: Response) => {
+  app.post("/api/auth/user", requireToken, async (req: Request, res: Response) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
-      const existingUser = await storage.getUserByUid(userData.uid);
+      // The token decides who is being registered, never the request body
+      if (req.body.uid && req.body.uid !== req.auth!.uid) {
+        return res.status(403).json({ message: "Cannot register a different user" });
+      }
       
-      if (existingUser) {
-        return res.json(existingUser);
+      if (req.user) {
+        // Accounts from before time zones were stored pick one up on next sign-in
+        const timeZone = timeZoneSchema.safeParse(req.body.timeZone);
+        if (!req.user.timeZone && timeZone.success) {
+          const updatedUser = await storage.updateUserTimeZone(req.user.id, timeZone.data);
+          return res.json(toPublicUser(updatedUser ?? req.user));
+        }
+        
+        return res.json(toPublicUser(req.user));
       }
       
+      const userData = registerUserSchema.parse({ ...req.body, uid: req.auth!.uid });
+      
       const newUser = await storage.createUser(userData);
-      return res.json(newUser);
+      return res.json(toPublicUser(newUser));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid user data", details: error.errors });
@@ -30,63 +148,184 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/auth/user/:uid", async (req: Request, res: Response) => {
+  app.get("/api/auth/user/:uid", requireUser, async (req: Request, res: Response) => {
     try {
       const { uid } = req.params;
-      const user = await storage.getUserByUid(uid);
       
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      if (uid !== req.user!.uid) {
+        return res.status(403).json({ message: "Cannot read another user's profile" });
       }
       
-      return res.json(user);
+      return res.json(toPublicUser(req.user!));
     } catch (error) {
       return res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
   // Relationship routes
-  app.post("/api/relationships", async (req: Request, res: Response) => {
+  app.post("/api/relationships", requireUser, async (req: Request, res: Response) => {
     try {
-      const { uid, name } = req.body;
-      
-      if (!uid) {
-        return res.status(400).json({ message: "User ID is required" });
-      }
-      
-      const user = await storage.getUserByUid(uid);
+      const { name } = req.body;
+      const user = req.user!;
+      const { mode, memberLimit } = memberLimitSchema.parse({ 
+        mode: req.body.mode ?? "couple", 
+        memberLimit: req.body.memberLimit 
+      });
       
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      // Days are counted in the creator's time zone unless told otherwise
+      const timeZone = timeZoneSchema.nullable().parse(req.body.timeZone ?? user.timeZone ?? null);
       
       // Create a new relationship (allowing multiple relationships), with optional name
-      const relationship = await storage.createRelationship(name);
+      const relationship = await storage.createRelationship(name, { 
+        mode, 
+        memberLimit: mode === "group" ? memberLimit : null,
+        timeZone
+      });
       
-      // Add user to relationship
-      await storage.addUserToRelationship(user.id, relationship.id);
+      // The creator owns the relationship
+      await storage.addUserToRelationship(user.id, relationship.id, "owner");
       
       return res.json(relationship);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid relationship data", details: error.errors });
+      }
       return res.status(500).json({ message: "Failed to create relationship" });
     }
   });
+
+  // Every relationship the current user is in
+  app.get("/api/relationships", requireUser, async (req: Request, res: Response) => {
+    try {
+      const relationships = await storage.getUserRelationships(req.user!.id);
+      
+      return res.json(relationships);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch relationships" });
+    }
+  });
+
+  app.get("/api/relationships/:id", requireUser, requireRelationshipMember("id"), async (req: Request, res: Response) => {
+    return res.json(req.relationship);
+  });
   
-  app.patch("/api/relationships/:id/name", async (req: Request, res: Response) => {
+  app.patch("/api/relationships/:id/name", requireUser, requireRelationshipOwner("id"), async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
       const { name } = req.body;
       
       if (!name) {
         return res.status(400).json({ message: "Relationship name is required" });
       }
       
-      const relationshipId = parseInt(id);
-      if (isNaN(relationshipId)) {
-        return res.status(400).json({ message: "Invalid relationship ID" });
+      const updatedRelationship = await storage.updateRelationshipName(req.relationship!.id, name);
+      
+      if (!updatedRelationship) {
+        return res.status(404).json({ message: "Relationship not found" });
       }
       
-      const updatedRelationship = await storage.updateRelationshipName(relationshipId, name);
+      return res.json(updatedRelationship);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to update relationship name" });
+    }
+  });
+
+  app.get("/api/relationships/:id/members", requireUser, requireRelationshipMember("id"), async (req: Request, res: Response) => {
+    try {
+      const members = await storage.getRelationshipMembers(req.relationship!.id);
+      
+      return res.json(members);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch relationship members" });
+    }
+  });
+
+  // What the current user goes by in the relationship
+  app.patch("/api/relationships/:id/nickname", requireUser, requireRelationshipMember("id"), async (req: Request, res: Response) => {
+    try {
+      const { nickname } = updateNicknameSchema.parse(req.body);
+      const membership = await storage.updateMemberNickname(req.user!.id, req.relationship!.id, nickname);
+      
+      if (!membership) {
+        return res.status(404).json({ message: "Membership not found" });
+      }
+      
+      return res.json({ nickname: membership.nickname });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid nickname", details: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to update nickname" });
+    }
+  });
+
+  // How much of the current upload period the current user has used
+  app.get("/api/relationships/:id/upload-status", requireUser, requireRelationshipMember("id"), async (req: Request, res: Response) => {
+    try {
+      const relationship = req.relationship!;
+      const today = getDayKey(new Date(), resolveTimeZone(relationship.timeZone));
+      const allowance = getUploadAllowance(relationship.quotaPolicy, today);
+      
+      // Unlimited days claim no slots, so there's nothing to count
+      const slots = await storage.getClaimedUploadSlots(req.user!.id, relationship.id, getUploadSlotKeys(allowance));
+      const latestSlot = slots[slots.length - 1];
+      const remaining = allowance.limit === null ? null : allowance.limit - slots.length;
+      
+      const status: UploadStatus = {
+        allowance,
+        used: slots.length,
+        remaining,
+        limitReached: remaining !== null && remaining <= 0,
+        latestMemory: latestSlot ? (await storage.getMemoryById(latestSlot.memoryId)) ?? null : null
+      };
+      
+      return res.json(status);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch upload status" });
+    }
+  });
+
+  app.get("/api/relationships/:id/reactions/remaining", requireUser, requireRelationshipMember("id"), async (req: Request, res: Response) => {
+    try {
+      const relationship = req.relationship!;
+      const today = getDayKey(new Date(), resolveTimeZone(relationship.timeZone));
+      const remaining = await storage.getRemainingReactions(req.user!.id, relationship.id, today);
+      
+      return res.json({ remaining, limits: REACTION_DAILY_LIMITS });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch remaining reactions" });
+    }
+  });
+
+  // Comments per memory, for the timeline
+  app.get("/api/relationships/:id/comment-counts", requireUser, requireRelationshipMember("id"), async (req: Request, res: Response) => {
+    try {
+      const counts = await storage.getCommentCounts(req.relationship!.id);
+      
+      return res.json(counts);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch comment counts" });
+    }
+  });
+
+  // Read receipt: everything shared so far counts as seen by the current user.
+  // Authors see who's caught up through lastSeenAt on the members list.
+  app.post("/api/relationships/:id/seen", requireUser, requireRelationshipMember("id"), async (req: Request, res: Response) => {
+    try {
+      const membership = await storage.markMemoriesSeen(req.user!.id, req.relationship!.id);
+      
+      if (!membership) {
+        return res.status(404).json({ message: "Membership not found" });
+      }
+      
+      return res.json({ lastSeenAt: membership.lastSeenAt });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to mark memories as seen" });
+    }
+  });
+
+  app.post("/api/relationships/:id/invite-code", requireUser, requireRelationshipOwner("id"), async (req: Request, res: Response) => {
+    try {
+      const updatedRelationship = await storage.regenerateInviteCode(req.relationship!.id);
       
       if (!updatedRelationship) {
         return res.status(404).json({ message: "Relationship not found" });
@@ -94,20 +333,236 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       return res.json(updatedRelationship);
     } catch (error) {
-      return res.status(500).json({ message: "Failed to update relationship name" });
+      return res.status(500).json({ message: "Failed to regenerate invite code" });
+    }
+  });
+
+  app.patch("/api/relationships/:id/member-limit", requireUser, requireRelationshipOwner("id"), async (req: Request, res: Response) => {
+    try {
+      const { mode, memberLimit } = memberLimitSchema.parse(req.body);
+      const relationshipId = req.relationship!.id;
+      
+      // Never shrink below the people already in the relationship
+      const members = await storage.getRelationshipMembers(relationshipId);
+      const newLimit = getMemberLimit({ mode, memberLimit: memberLimit ?? null });
+      
+      if (members.length > newLimit) {
+        return res.status(409).json({ 
+          message: mode === "couple"
+            ? `A couple can only have ${COUPLE_MEMBER_LIMIT} members`
+            : `This relationship already has ${members.length} members`
+        });
+      }
+      
+      const updatedRelationship = await storage.updateRelationshipMemberLimit(
+        relationshipId, 
+        mode, 
+        mode === "group" ? memberLimit ?? null : null
+      );
+      
+      if (!updatedRelationship) {
+        return res.status(404).json({ message: "Relationship not found" });
+      }
+      
+      return res.json(updatedRelationship);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid member limit", details: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to update member limit" });
+    }
+  });
+
+  app.patch("/api/relationships/:id/quota-policy", requireUser, requireRelationshipOwner("id"), async (req: Request, res: Response) => {
+    try {
+      const quotaPolicy = quotaPolicySchema.parse(req.body);
+      const updatedRelationship = await storage.updateRelationshipQuotaPolicy(req.relationship!.id, quotaPolicy);
+      
+      if (!updatedRelationship) {
+        return res.status(404).json({ message: "Relationship not found" });
+      }
+      
+      return res.json(updatedRelationship);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid quota policy", details: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to update quota policy" });
     }
   });
 
-  app.get("/api/relationships/user/:uid", async (req: Request, res: Response) => {
+  app.patch("/api/relationships/:id/selection-config", requireUser, requireRelationshipOwner("id"), async (req: Request, res: Response) => {
+    try {
+      const selectionConfig = selectionConfigSchema.parse(req.body);
+      const updatedRelationship = await storage.updateRelationshipSelectionConfig(req.relationship!.id, selectionConfig);
+      
+      if (!updatedRelationship) {
+        return res.status(404).json({ message: "Relationship not found" });
+      }
+      
+      return res.json(updatedRelationship);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid selection config", details: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to update selection config" });
+    }
+  });
+
+  app.patch("/api/relationships/:id/time-zone", requireUser, requireRelationshipOwner("id"), async (req: Request, res: Response) => {
+    try {
+      const { timeZone } = updateTimeZoneSchema.parse(req.body);
+      const updatedRelationship = await storage.updateRelationshipTimeZone(req.relationship!.id, timeZone);
+      
+      if (!updatedRelationship) {
+        return res.status(404).json({ message: "Relationship not found" });
+      }
+      
+      return res.json(updatedRelationship);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid time zone", details: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to update time zone" });
+    }
+  });
+
+  app.post("/api/relationships/:id/invites", requireUser, requireRelationshipOwner("id"), async (req: Request, res: Response) => {
+    try {
+      const { expiresInHours, maxUses } = createInviteSchema.parse(req.body ?? {});
+      
+      const invite = await storage.createInvite({
+        relationshipId: req.relationship!.id,
+        code: nanoid(12),
+        createdByUserId: req.user!.id,
+        expiresAt: expiresInHours === null ? null : new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+        maxUses
+      });
+      
+      return res.json(invite);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid invite options", details: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to create invite" });
+    }
+  });
+
+  app.get("/api/relationships/:id/invites", requireUser, requireRelationshipOwner("id"), async (req: Request, res: Response) => {
+    try {
+      const invites = await storage.getInvitesByRelationship(req.relationship!.id);
+      
+      return res.json(invites);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch invites" });
+    }
+  });
+
+  app.post("/api/relationships/:id/invites/:inviteId/revoke", requireUser, requireRelationshipOwner("id"), async (req: Request, res: Response) => {
+    try {
+      const inviteId = parseInt(req.params.inviteId, 10);
+      
+      if (isNaN(inviteId)) {
+        return res.status(400).json({ message: "Invalid invite ID" });
+      }
+      
+      // Make sure the invite belongs to this relationship
+      const invites = await storage.getInvitesByRelationship(req.relationship!.id);
+      
+      if (!invites.some(invite => invite.id === inviteId)) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      
+      const invite = await storage.revokeInvite(inviteId);
+      
+      return res.json(invite);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to revoke invite" });
+    }
+  });
+
+  app.post("/api/relationships/:id/leave", requireUser, requireRelationshipMember("id"), async (req: Request, res: Response) => {
+    try {
+      const { memoryPolicy } = departureSchema.parse(req.body);
+      const relationshipId = req.relationship!.id;
+      
+      const exportedMemories = await departRelationship({
+        relationshipId,
+        userId: req.user!.id,
+        actorUserId: req.user!.id,
+        type: "member_left",
+        memoryPolicy
+      });
+      
+      // Left in a concurrent request
+      if (!exportedMemories) {
+        return res.status(404).json({ message: "You are not a member of this relationship" });
+      }
+      
+      return res.json({ relationshipId, memoryPolicy, exportedMemories });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid memory policy", details: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to leave relationship" });
+    }
+  });
+
+  app.delete("/api/relationships/:id/members/:userId", requireUser, requireRelationshipOwner("id"), async (req: Request, res: Response) => {
+    try {
+      const memberId = parseInt(req.params.userId, 10);
+      
+      if (isNaN(memberId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      if (memberId === req.user!.id) {
+        return res.status(400).json({ message: "Owners leave a relationship instead of removing themselves" });
+      }
+      
+      const { memoryPolicy } = departureSchema.parse(req.body);
+      const relationshipId = req.relationship!.id;
+      
+      const exportedMemories = await departRelationship({
+        relationshipId,
+        userId: memberId,
+        actorUserId: req.user!.id,
+        type: "member_removed",
+        memoryPolicy
+      });
+      
+      if (!exportedMemories) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      
+      return res.json({ relationshipId, memoryPolicy, exportedMemories });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid memory policy", details: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  app.get("/api/relationships/:id/events", requireUser, requireRelationshipMember("id"), async (req: Request, res: Response) => {
+    try {
+      const events = await storage.getRelationshipEvents(req.relationship!.id);
+      
+      return res.json(events);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch relationship events" });
+    }
+  });
+
+  app.get("/api/relationships/user/:uid", requireUser, async (req: Request, res: Response) => {
     try {
       const { uid } = req.params;
-      const user = await storage.getUserByUid(uid);
       
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      if (uid !== req.user!.uid) {
+        return res.status(403).json({ message: "Cannot read another user's relationships" });
       }
       
-      const relationship = await storage.getUserRelationship(user.id);
+      const relationship = await storage.getUserRelationship(req.user!.id);
       
       if (!relationship) {
         return res.status(404).json({ message: "Relationship not found" });
@@ -119,30 +574,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/relationships/join", async (req: Request, res: Response) => {
+  // Public: lets the /join/:code landing page show who is inviting before sign-in
+  app.get("/api/invites/:code", async (req: Request, res: Response) => {
+    try {
+      const { invite, relationship } = await resolveInviteCode(req.params.code);
+      
+      if (!relationship) {
+        return res.status(404).json({ message: "Invalid invite code" });
+      }
+      
+      // Legacy codes have no creator, so the owner stands in as the inviter
+      let inviter: PublicUser | undefined;
+      
+      if (invite) {
+        inviter = await storage.getUserById(invite.createdByUserId);
+      } else {
+        const members = await storage.getRelationshipMembers(relationship.id);
+        inviter = members.find(member => member.role === "owner")?.user;
+      }
+      
+      const preview: InvitePreview = {
+        status: invite ? getInviteStatus(invite) : "valid",
+        expiresAt: invite?.expiresAt ?? null,
+        relationship: { name: relationship.name, mode: relationship.mode },
+        inviter: inviter ? { displayName: inviter.displayName, photoURL: inviter.photoURL } : null
+      };
+      
+      return res.json(preview);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch invite" });
+    }
+  });
+
+  // Revoke an invite by its code (owner only)
+  app.post("/api/invites/:code/revoke", requireUser, async (req: Request, res: Response) => {
     try {
-      const { uid, inviteCode } = req.body;
+      const invite = await storage.getInviteByCode(req.params.code);
+      
+      if (!invite) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      
+      const membership = await storage.getMembership(req.user!.id, invite.relationshipId);
       
-      if (!uid || !inviteCode) {
-        return res.status(400).json({ message: "User ID and invite code are required" });
+      if (membership?.role !== "owner") {
+        return res.status(403).json({ message: "Only the relationship owner can do this" });
       }
       
-      const user = await storage.getUserByUid(uid);
+      const revokedInvite = await storage.revokeInvite(invite.id);
       
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      return res.json(revokedInvite);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to revoke invite" });
+    }
+  });
+
+  app.post("/api/relationships/join", requireUser, async (req: Request, res: Response) => {
+    try {
+      const { inviteCode } = req.body;
+      
+      if (!inviteCode) {
+        return res.status(400).json({ message: "Invite code is required" });
       }
       
-      // Find relationship by invite code
-      const relationship = await storage.getRelationshipByInviteCode(inviteCode);
+      const user = req.user!;
+      
+      let { invite, relationship } = await resolveInviteCode(inviteCode);
       
       if (!relationship) {
         return res.status(404).json({ message: "Invalid invite code" });
       }
       
       // Check if user is already in this specific relationship
-      const userRelationships = await storage.getUserRelationships(user.id);
-      const alreadyInRelationship = userRelationships.some(rel => rel.id === relationship.id);
+      const alreadyInRelationship = await storage.isUserInRelationship(user.id, relationship.id);
       
       if (alreadyInRelationship) {
         return res.status(400).json({ 
@@ -152,49 +656,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Add user to relationship
-      await storage.addUserToRelationship(user.id, relationship.id);
+      if (invite) {
+        relationship = await storage.redeemInvite(invite.id, user.id);
+      } else {
+        await storage.addUserToRelationship(user.id, relationship.id);
+      }
+      
+      await notifyMembers({
+        relationshipId: relationship.id,
+        type: "member_joined",
+        actorUserId: user.id
+      }, user.id);
       
       return res.json(relationship);
     } catch (error) {
+      if (error instanceof InviteError) {
+        return res.status(410).json({ message: error.message, reason: error.status });
+      }
+      if (error instanceof RelationshipFullError) {
+        return res.status(409).json({ message: error.message });
+      }
       return res.status(500).json({ message: "Failed to join relationship" });
     }
   });
 
+  // Notification routes
+  app.get("/api/notifications", requireUser, async (req: Request, res: Response) => {
+    try {
+      const feed = await storage.getNotifications(req.user!.id);
+      
+      return res.json(feed);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", requireUser, async (req: Request, res: Response) => {
+    try {
+      const updated = await storage.markAllNotificationsRead(req.user!.id);
+      
+      return res.json({ updated });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  });
+
+  app.post("/api/notifications/:notificationId/read", requireUser, async (req: Request, res: Response) => {
+    try {
+      const notificationId = parseInt(req.params.notificationId, 10);
+      
+      if (isNaN(notificationId)) {
+        return res.status(400).json({ message: "Invalid notification ID" });
+      }
+      
+      const notification = await storage.markNotificationRead(notificationId, req.user!.id);
+      
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      
+      return res.json(notification);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
   // Memory routes
-  app.post("/api/memories", async (req: Request, res: Response) => {
+  app.post("/api/memories", requireUser, async (req: Request, res: Response) => {
     try {
-      const memoryData = insertMemorySchema.parse(req.body);
+      // Memories are always authored by the authenticated user
+      const memoryData = insertMemorySchema.parse({ ...req.body, userId: req.user!.id });
       
       // Validate the memory type
       if (!MemoryType.safeParse(memoryData.type).success) {
         return res.status(400).json({ message: "Invalid memory type" });
       }
       
-      // No need to check user existence here as we'll validate with the memories
+      const isMember = await storage.isUserInRelationship(req.user!.id, memoryData.relationshipId);
+      
+      if (!isMember) {
+        return res.status(403).json({ message: "You are not a member of this relationship" });
+      }
       
-      const today = new Date();
-      const todaysMemories = await storage.getMemoriesByUserAndDate(memoryData.userId, today);
+      const relationship = await storage.getRelationshipById(memoryData.relationshipId);
       
-      if (todaysMemories.length > 0) {
-        return res.status(400).json({ message: "User has already uploaded a memory today" });
+      if (!relationship) {
+        return res.status(404).json({ message: "Relationship not found" });
       }
       
-      // Create the memory
-      const memory = await storage.createMemory(memoryData);
+      const today = getDayKey(new Date(), resolveTimeZone(relationship.timeZone));
+      const allowance = getUploadAllowance(relationship.quotaPolicy, today);
+      const memory = await storage.createMemoryWithinQuota(memoryData, allowance);
+      
+      await notifyMembers({
+        relationshipId: memory.relationshipId,
+        type: "memory_uploaded",
+        actorUserId: memory.userId,
+        memoryId: memory.id
+      }, memory.userId);
       
       return res.json(memory);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid memory data", details: error.errors });
       }
+      if (error instanceof UploadQuotaError) {
+        return res.status(409).json({ message: error.message, reason: "quota_exceeded" });
+      }
       return res.status(500).json({ message: "Failed to create memory" });
     }
   });
 
-  app.get("/api/memories/relationship/:relationshipId", async (req: Request, res: Response) => {
+  app.get("/api/memories/relationship/:relationshipId", requireUser, requireRelationshipMember(), async (req: Request, res: Response) => {
     try {
-      const { relationshipId } = req.params;
-      const memories = await storage.getMemoriesByRelationship(parseInt(relationshipId, 10));
+      const memories = await storage.getMemoriesByRelationship(req.relationship!.id);
       
       return res.json(memories);
     } catch (error) {
@@ -202,53 +777,410 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/memories/:memoryId/react", async (req: Request, res: Response) => {
+  // What the other members shared since the current user last caught up
+  app.get("/api/memories/relationship/:relationshipId/new", requireUser, requireRelationshipMember(), async (req: Request, res: Response) => {
+    try {
+      const memories = await storage.getNewMemories(req.user!.id, req.relationship!.id);
+      
+      return res.json(memories);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch new memories" });
+    }
+  });
+
+  // Reactions count against the member's daily budget for their type, per
+  // relationship day. Without a type it's a thumbs-up.
+  app.post("/api/memories/:memoryId/react", requireUser, async (req: Request, res: Response) => {
     try {
-      const { memoryId } = req.params;
-      const memory = await storage.incrementThumbsUp(parseInt(memoryId, 10));
+      const memoryId = parseInt(req.params.memoryId, 10);
+      
+      if (isNaN(memoryId)) {
+        return res.status(400).json({ message: "Invalid memory ID" });
+      }
+      
+      const { type } = reactionRequestSchema.parse(req.body ?? {});
+      const existingMemory = await storage.getMemoryById(memoryId);
+      
+      if (!existingMemory || existingMemory.hiddenAt) {
+        return res.status(404).json({ message: "Memory not found" });
+      }
+      
+      const isMember = await storage.isUserInRelationship(req.user!.id, existingMemory.relationshipId);
+      
+      if (!isMember) {
+        return res.status(403).json({ message: "You are not a member of this relationship" });
+      }
+      
+      const relationship = await storage.getRelationshipById(existingMemory.relationshipId);
+      
+      if (!relationship) {
+        return res.status(404).json({ message: "Relationship not found" });
+      }
+      
+      const memory = await storage.addReaction({
+        userId: req.user!.id,
+        memoryId,
+        relationshipId: relationship.id,
+        type,
+        dayKey: getDayKey(new Date(), resolveTimeZone(relationship.timeZone))
+      });
+      
+      await notifyMembers({
+        relationshipId: relationship.id,
+        type: "memory_reacted",
+        actorUserId: req.user!.id,
+        memoryId,
+        reactionType: type
+      }, req.user!.id, [memory.userId]);
       
       return res.json(memory);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reaction", details: error.errors });
+      }
+      if (error instanceof ReactionError) {
+        return res.status(409).json({ message: error.message, reason: error.reason });
+      }
       return res.status(500).json({ message: "Failed to react to memory" });
     }
   });
 
+  // Undo today's reaction of a type (?type=, thumbs-up by default), which also
+  // gives it back to the daily budget. Earlier days' reactions stay put.
+  app.delete("/api/memories/:memoryId/react", requireUser, async (req: Request, res: Response) => {
+    try {
+      const memoryId = parseInt(req.params.memoryId, 10);
+      
+      if (isNaN(memoryId)) {
+        return res.status(400).json({ message: "Invalid memory ID" });
+      }
+      
+      const { type } = reactionRequestSchema.parse(req.query);
+      const existingMemory = await storage.getMemoryById(memoryId);
+      
+      if (!existingMemory || existingMemory.hiddenAt) {
+        return res.status(404).json({ message: "Memory not found" });
+      }
+      
+      const isMember = await storage.isUserInRelationship(req.user!.id, existingMemory.relationshipId);
+      
+      if (!isMember) {
+        return res.status(403).json({ message: "You are not a member of this relationship" });
+      }
+      
+      const relationship = await storage.getRelationshipById(existingMemory.relationshipId);
+      
+      if (!relationship) {
+        return res.status(404).json({ message: "Relationship not found" });
+      }
+      
+      const today = getDayKey(new Date(), resolveTimeZone(relationship.timeZone));
+      const memory = await storage.removeReaction(req.user!.id, memoryId, type, today);
+      
+      if (!memory) {
+        return res.status(404).json({ message: "You haven't left this reaction on this memory today" });
+      }
+      
+      return res.json(memory);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reaction", details: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to undo reaction" });
+    }
+  });
+
+  app.get("/api/memories/:memoryId/reactions", requireUser, async (req: Request, res: Response) => {
+    try {
+      const memoryId = parseInt(req.params.memoryId, 10);
+      
+      if (isNaN(memoryId)) {
+        return res.status(400).json({ message: "Invalid memory ID" });
+      }
+      
+      const existingMemory = await storage.getMemoryById(memoryId);
+      
+      if (!existingMemory || existingMemory.hiddenAt) {
+        return res.status(404).json({ message: "Memory not found" });
+      }
+      
+      const isMember = await storage.isUserInRelationship(req.user!.id, existingMemory.relationshipId);
+      
+      if (!isMember) {
+        return res.status(403).json({ message: "You are not a member of this relationship" });
+      }
+      
+      const reactors = await storage.getMemoryReactors(memoryId);
+      
+      return res.json(reactors);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch reactions" });
+    }
+  });
+
+  // Comments follow their memory: members only, and gone with a hidden memory
+  app.get("/api/memories/:memoryId/comments", requireUser, async (req: Request, res: Response) => {
+    try {
+      const memoryId = parseInt(req.params.memoryId, 10);
+      
+      if (isNaN(memoryId)) {
+        return res.status(400).json({ message: "Invalid memory ID" });
+      }
+      
+      const existingMemory = await storage.getMemoryById(memoryId);
+      
+      if (!existingMemory || existingMemory.hiddenAt) {
+        return res.status(404).json({ message: "Memory not found" });
+      }
+      
+      const isMember = await storage.isUserInRelationship(req.user!.id, existingMemory.relationshipId);
+      
+      if (!isMember) {
+        return res.status(403).json({ message: "You are not a member of this relationship" });
+      }
+      
+      const thread = await storage.getCommentsByMemory(memoryId);
+      
+      return res.json(thread);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  app.post("/api/memories/:memoryId/comments", requireUser, async (req: Request, res: Response) => {
+    try {
+      const memoryId = parseInt(req.params.memoryId, 10);
+      
+      if (isNaN(memoryId)) {
+        return res.status(400).json({ message: "Invalid memory ID" });
+      }
+      
+      const { content, audioUrl } = createCommentSchema.parse(req.body);
+      const existingMemory = await storage.getMemoryById(memoryId);
+      
+      if (!existingMemory || existingMemory.hiddenAt) {
+        return res.status(404).json({ message: "Memory not found" });
+      }
+      
+      const isMember = await storage.isUserInRelationship(req.user!.id, existingMemory.relationshipId);
+      
+      if (!isMember) {
+        return res.status(403).json({ message: "You are not a member of this relationship" });
+      }
+      
+      const comment = await storage.createComment({
+        memoryId,
+        relationshipId: existingMemory.relationshipId,
+        userId: req.user!.id,
+        content,
+        audioUrl: audioUrl || null
+      });
+      
+      // The author hears about every comment, and so does everyone in the thread
+      const thread = await storage.getCommentsByMemory(memoryId);
+      
+      await notifyMembers({
+        relationshipId: existingMemory.relationshipId,
+        type: "memory_commented",
+        actorUserId: req.user!.id,
+        memoryId
+      }, req.user!.id, [existingMemory.userId, ...thread.map(threadComment => threadComment.userId)]);
+      
+      return res.json(comment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid comment data", details: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to add comment" });
+    }
+  });
+
+  // Take a memory out of the daily rotation, or put it back; either member may
+  app.patch("/api/memories/:memoryId/retired", requireUser, async (req: Request, res: Response) => {
+    try {
+      const memoryId = parseInt(req.params.memoryId, 10);
+      
+      if (isNaN(memoryId)) {
+        return res.status(400).json({ message: "Invalid memory ID" });
+      }
+      
+      const { retired } = memoryRetirementSchema.parse(req.body);
+      const existingMemory = await storage.getMemoryById(memoryId);
+      
+      if (!existingMemory || existingMemory.hiddenAt) {
+        return res.status(404).json({ message: "Memory not found" });
+      }
+      
+      const isMember = await storage.isUserInRelationship(req.user!.id, existingMemory.relationshipId);
+      
+      if (!isMember) {
+        return res.status(403).json({ message: "You are not a member of this relationship" });
+      }
+      
+      const memory = await storage.setMemoryRetired(memoryId, retired ? req.user!.id : null);
+      
+      return res.json(memory);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid retirement data", details: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to update memory" });
+    }
+  });
+
+  // Hand-pick a memory for tomorrow's board; one gift per member per day
+  app.post("/api/memories/:memoryId/gift", requireUser, async (req: Request, res: Response) => {
+    try {
+      const memoryId = parseInt(req.params.memoryId, 10);
+      
+      if (isNaN(memoryId)) {
+        return res.status(400).json({ message: "Invalid memory ID" });
+      }
+      
+      const { note } = createGiftSchema.parse(req.body);
+      const existingMemory = await storage.getMemoryById(memoryId);
+      
+      if (!existingMemory || existingMemory.hiddenAt) {
+        return res.status(404).json({ message: "Memory not found" });
+      }
+      
+      const isMember = await storage.isUserInRelationship(req.user!.id, existingMemory.relationshipId);
+      
+      if (!isMember) {
+        return res.status(403).json({ message: "You are not a member of this relationship" });
+      }
+      
+      if (existingMemory.retiredAt) {
+        return res.status(409).json({ message: "This memory is retired from the daily rotation", reason: "retired" });
+      }
+      
+      const relationship = await storage.getRelationshipById(existingMemory.relationshipId);
+      
+      if (!relationship) {
+        return res.status(404).json({ message: "Relationship not found" });
+      }
+      
+      const today = getDayKey(new Date(), resolveTimeZone(relationship.timeZone));
+      const gift = await storage.createMemoryGift({
+        relationshipId: relationship.id,
+        memoryId,
+        fromUserId: req.user!.id,
+        note: note || null,
+        boardDayKey: addDays(today, 1)
+      });
+      
+      return res.json(gift);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid gift data", details: error.errors });
+      }
+      if (error instanceof GiftLimitError) {
+        return res.status(409).json({ message: error.message, reason: "gift_limit" });
+      }
+      return res.status(500).json({ message: "Failed to gift memory" });
+    }
+  });
+
   // Daily memories routes
-  app.get("/api/daily-memories/:relationshipId", async (req: Request, res: Response) => {
+  app.get("/api/daily-memories/:relationshipId", requireUser, requireRelationshipMember(), async (req: Request, res: Response) => {
     try {
-      const { relationshipId } = req.params;
-      const today = new Date();
+      const relationshipId = req.relationship!.id;
+      const timeZone = resolveTimeZone(req.relationship!.timeZone);
+      const today = getDayKey(new Date(), timeZone);
       
-      // Check if daily memories exist for today
-      let dailyMemories = await storage.getDailyMemoriesByRelationshipAndDate(
-        parseInt(relationshipId, 10),
-        today
-      );
+      // Today's board, drawn by whichever member asks for it first
+      const board = await storage.getOrDrawDailyBoard(req.relationship!, today);
       
-      // If no memories selected for today, select 3 random ones
-      if (dailyMemories.length === 0) {
-        const randomMemories = await storage.selectRandomMemoriesForDay(
-          parseInt(relationshipId, 10),
-          3
-        );
-        
-        // Save these as today's daily memories
-        for (const memory of randomMemories) {
-          await storage.createDailyMemory({
-            relationshipId: parseInt(relationshipId, 10),
-            memoryId: memory.id
-          });
-        }
-        
-        dailyMemories = randomMemories;
+      if (board.drawn && board.memories.length > 0) {
+        await notifyMembers({ relationshipId, type: "board_ready" }, req.user!.id);
       }
       
-      return res.json(dailyMemories);
+      return res.json(board.memories);
     } catch (error) {
       return res.status(500).json({ message: "Failed to fetch daily memories" });
     }
   });
 
+  // Swap today's board for a fresh draw, paid for from the member's rerolls
+  app.post("/api/daily-memories/:relationshipId/reroll", requireUser, requireRelationshipMember(), async (req: Request, res: Response) => {
+    try {
+      const today = getDayKey(new Date(), resolveTimeZone(req.relationship!.timeZone));
+      const memories = await storage.rerollDailyBoard(req.relationship!, today, req.user!.id);
+      
+      return res.json(memories);
+    } catch (error) {
+      if (error instanceof RerollError) {
+        return res.status(409).json({ message: error.message, reason: error.reason });
+      }
+      return res.status(500).json({ message: "Failed to reroll daily memories" });
+    }
+  });
+
+  // Rerolls the current user has left today
+  app.get("/api/daily-memories/:relationshipId/rerolls", requireUser, requireRelationshipMember(), async (req: Request, res: Response) => {
+    try {
+      const relationship = req.relationship!;
+      const today = getDayKey(new Date(), resolveTimeZone(relationship.timeZone));
+      const { rerollsPerDay } = resolveSelectionConfig(relationship.selectionConfig);
+      const used = await storage.getRerollsUsed(req.user!.id, relationship.id, today);
+      
+      return res.json({ remaining: Math.max(0, rerollsPerDay - used), rerollsPerDay });
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch remaining rerolls" });
+    }
+  });
+
+  // Gifts on today's board, so it can show who picked what
+  app.get("/api/daily-memories/:relationshipId/gifts", requireUser, requireRelationshipMember(), async (req: Request, res: Response) => {
+    try {
+      const today = getDayKey(new Date(), resolveTimeZone(req.relationship!.timeZone));
+      const gifts = await storage.getMemoryGiftsForDay(req.relationship!.id, today);
+      
+      return res.json(gifts);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch gifts" });
+    }
+  });
+
+  // Gifts made today, which land on tomorrow's board
+  app.get("/api/daily-memories/:relationshipId/gifts/tomorrow", requireUser, requireRelationshipMember(), async (req: Request, res: Response) => {
+    try {
+      const today = getDayKey(new Date(), resolveTimeZone(req.relationship!.timeZone));
+      const gifts = await storage.getMemoryGiftsForDay(req.relationship!.id, addDays(today, 1));
+      
+      return res.json(gifts);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch gifts" });
+    }
+  });
+
+  // Board history: which days had a board, then every board shown on one of them
+  app.get("/api/daily-memories/:relationshipId/history", requireUser, requireRelationshipMember(), async (req: Request, res: Response) => {
+    try {
+      const timeZone = resolveTimeZone(req.relationship!.timeZone);
+      const days = await storage.getBoardHistoryDays(req.relationship!.id, timeZone);
+      
+      return res.json(days);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to fetch board history" });
+    }
+  });
+
+  app.get("/api/daily-memories/:relationshipId/history/:date", requireUser, requireRelationshipMember(), async (req: Request, res: Response) => {
+    try {
+      const date = dayKeySchema.parse(req.params.date);
+      const timeZone = resolveTimeZone(req.relationship!.timeZone);
+      const boards = await storage.getBoardHistory(req.relationship!.id, date, timeZone);
+      
+      return res.json(boards);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date", details: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to fetch board history" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -0,0 +1,409 @@
+// Selection simulator: replays the daily board draw (shared/selection.ts) over
+// a relationship's memories for a number of days, with members reacting to
+// what they see, and reports how evenly the memories came up. Run it with
+// different configs to compare them before changing a relationship's settings.
+//
+//   npm run simulate -- --source memory --memories 60
+//   npm run simulate -- --source postgres --relationship 12 --days 180
+//   npm run simulate -- --source json --file memories.json --config '{"cooldownDays":0}' --config '{"cooldownDays":7}'
+//
+// Sources:
+// memory   - a fresh MemStorage relationship seeded with --memories memories
+// postgres - a relationship from DATABASE_URL, including its board history
+// json     - a memory list as returned by /api/memories/relationship/:id or
+//            the exportedMemories of a departure
+//
+// Options:
+// --days N          days to simulate, starting tomorrow (default 90)
+// --config JSON     partial selection config; repeat to compare several
+//                   (default: the relationship's own config)
+// --members N       members reacting each day (default 2)
+// --reactions N     reactions each member leaves a day, at most (default 2)
+// --seed TEXT       seed for the simulated reactions (default "simulation")
+// --time-zone ZONE  time zone for json sources (default UTC)
+// --per-memory      also print a line per memory
+//
+// Reactions are simulated, not replayed: each memory gets a fixed appeal and
+// members react to it with that probability whenever it is on the board, until
+// they run out for the day. Each reaction's type is picked at random, so
+// reactionWeights configs can be compared. A few favourites and a long tail of
+// memories that only get the occasional reaction is what real boards look like.
+
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { MemStorage, DrizzleStorage, type IStorage } from "./storage";
+import { createDatabase } from "./db";
+import { MemoryType, type Memory } from "@shared/schema";
+import {
+  ReactionType,
+  adjustReactionCounts,
+  getTotalReactions,
+  resolveReactionCounts,
+  type ReactionCounts
+} from "@shared/reactions";
+import { addDays, getDayKey, getDaysBetween, resolveTimeZone } from "@shared/day-key";
+import {
+  type SelectionConfig,
+  createRandom,
+  describeSelectionConfig,
+  getLastShownDayKeys,
+  getSelectionSeed,
+  resolveSelectionConfig,
+  selectMemories,
+  selectionConfigSchema
+} from "@shared/selection";
+
+interface SimulationMemory {
+  id: string | number;
+  type: string;
+  createdDayKey: string;
+  reactionCounts: ReactionCounts;
+  retired: boolean;
+}
+
+interface LoadedRelationship {
+  relationshipId: number;
+  timeZone: string;
+  selectionConfig: SelectionConfig | null;
+  memories: SimulationMemory[];
+  shows: { memoryId: string | number; dayKey: string }[]; // Boards from before the simulation
+}
+
+interface SimulationOptions {
+  days: number;
+  start: string;
+  members: number;
+  reactionsPerDay: number;
+  seed: string;
+}
+
+interface MemoryReport {
+  memory: SimulationMemory;
+  eligibleDays: number;
+  appearances: number;
+  longestGap: number; // Longest run of eligible days without appearing
+  reactionsGained: number;
+}
+
+// Storage returns dates, JSON exports return them as strings
+type MemoryLike = Pick<Memory, "type" | "thumbsUpCount"> & {
+  id: string | number;
+  reactionCounts?: ReactionCounts | null; // Missing from exports made before reaction types
+  createdAt: Date | string;
+  retiredAt?: Date | string | null;
+};
+
+function toSimulationMemory(memory: MemoryLike, timeZone: string): SimulationMemory {
+  return {
+    id: memory.id,
+    type: memory.type,
+    createdDayKey: getDayKey(new Date(memory.createdAt), timeZone),
+    reactionCounts: resolveReactionCounts(memory.reactionCounts, memory.thumbsUpCount),
+    retired: !!memory.retiredAt
+  };
+}
+
+async function loadFromStorage(storage: IStorage, relationshipId: number): Promise<LoadedRelationship> {
+  const relationship = await storage.getRelationshipById(relationshipId);
+
+  if (!relationship) {
+    throw new Error(`Relationship ${relationshipId} not found`);
+  }
+
+  const timeZone = resolveTimeZone(relationship.timeZone);
+  const memories = await storage.getMemoriesByRelationship(relationshipId);
+  const history = await storage.getDailyMemoriesByRelationship(relationshipId);
+
+  return {
+    relationshipId,
+    timeZone,
+    selectionConfig: relationship.selectionConfig,
+    memories: memories.map(memory => toSimulationMemory(memory, timeZone)),
+    shows: history.map(entry => ({ memoryId: entry.memoryId, dayKey: getDayKey(entry.date, timeZone) }))
+  };
+}
+
+async function loadFromJson(file: string, timeZone: string): Promise<LoadedRelationship> {
+  const data = JSON.parse(await readFile(file, "utf8"));
+  const memories: MemoryLike[] = Array.isArray(data) ? data : data.exportedMemories ?? data.memories;
+
+  if (!Array.isArray(memories)) {
+    throw new Error(`${file} should hold a list of memories`);
+  }
+
+  return {
+    relationshipId: Number((memories[0] as Partial<Memory> | undefined)?.relationshipId ?? 0),
+    timeZone,
+    selectionConfig: null,
+    memories: memories.map(memory => toSimulationMemory({ ...memory, thumbsUpCount: memory.thumbsUpCount ?? 0 }, timeZone)),
+    shows: []
+  };
+}
+
+// A new relationship with two members and count memories, some already liked.
+// MemStorage stamps memories with the current time, so the whole collection
+// becomes eligible from tomorrow, like a couple who just imported everything.
+async function seedMemStorage(storage: MemStorage, count: number, random: () => number): Promise<number> {
+  const relationship = await storage.createRelationship("Simulation");
+  const userIds: number[] = [];
+
+  for (const name of ["Alex", "Sam"]) {
+    const user = await storage.createUser({
+      uid: `local:simulation-${name.toLowerCase()}`,
+      displayName: name,
+      email: `${name.toLowerCase()}@simulation.local`
+    });
+    await storage.addUserToRelationship(user.id, relationship.id);
+    userIds.push(user.id);
+  }
+
+  const types = MemoryType.options;
+  const today = getDayKey(new Date(), resolveTimeZone(relationship.timeZone));
+  let daysBack = 0;
+
+  for (let i = 0; i < count; i++) {
+    const memory = await storage.createMemory({
+      userId: userIds[i % userIds.length],
+      relationshipId: relationship.id,
+      type: types[Math.floor(random() * types.length)],
+      content: `Memory ${i + 1}`
+    });
+
+    // Members take turns reacting, each reaction on its own earlier day so
+    // the daily budgets never get in the way
+    const reactions = Math.floor(random() * random() * 6);
+    for (let j = 0; j < reactions; j++) {
+      await storage.addReaction({
+        userId: userIds[j % userIds.length],
+        memoryId: memory.id,
+        relationshipId: relationship.id,
+        type: ReactionType.options[Math.floor(random() * ReactionType.options.length)],
+        dayKey: addDays(today, -++daysBack)
+      });
+    }
+  }
+
+  return relationship.id;
+}
+
+// Eligible days the memory went without appearing, at most
+function getLongestGap(eligibleFrom: string, end: string, shownOn: string[]): number {
+  let longest = 0;
+  let previous = addDays(eligibleFrom, -1);
+
+  for (const dayKey of shownOn) {
+    longest = Math.max(longest, getDaysBetween(previous, dayKey) - 1);
+    previous = dayKey;
+  }
+
+  return Math.max(longest, getDaysBetween(previous, end));
+}
+
+function simulate(relationship: LoadedRelationship, config: SelectionConfig, options: SimulationOptions): MemoryReport[] {
+  // Every config is simulated with the same appeal per memory, so runs compare fairly
+  const appealRandom = createRandom(`${options.seed}:appeal`);
+  const reactionRandom = createRandom(`${options.seed}:reactions`);
+  const memories = relationship.memories.map(memory => ({
+    ...memory,
+    reactionCounts: { ...memory.reactionCounts },
+    appeal: appealRandom() * appealRandom()
+  }));
+
+  const lastShown = getLastShownDayKeys(relationship.shows);
+  const shownOn = new Map<string, string[]>();
+  const end = addDays(options.start, options.days - 1);
+
+  for (let day = 0; day < options.days; day++) {
+    const dayKey = addDays(options.start, day);
+    const candidates = memories
+      .filter(memory => memory.createdDayKey < dayKey)
+      .map(memory => ({
+        id: memory.id,
+        type: memory.type,
+        reactionCounts: memory.reactionCounts,
+        createdDayKey: memory.createdDayKey,
+        lastShownDayKey: lastShown.get(String(memory.id)) ?? null,
+        retired: memory.retired,
+        gifted: false,
+        memory
+      }));
+
+    const picks = selectMemories(candidates, config, getSelectionSeed(relationship.relationshipId, dayKey), dayKey);
+
+    for (const { candidate } of picks) {
+      const key = String(candidate.id);
+      lastShown.set(key, dayKey);
+      shownOn.set(key, [...(shownOn.get(key) ?? []), dayKey]);
+    }
+
+    for (let member = 0; member < options.members; member++) {
+      let used = 0;
+
+      for (const { candidate } of picks) {
+        if (used < options.reactionsPerDay && reactionRandom() < candidate.memory.appeal) {
+          const type = ReactionType.options[Math.floor(reactionRandom() * ReactionType.options.length)];
+          candidate.memory.reactionCounts = adjustReactionCounts(candidate.memory.reactionCounts, type, 1);
+          used++;
+        }
+      }
+    }
+  }
+
+  return memories
+    .filter(memory => !memory.retired)
+    .map(memory => {
+      const eligibleFrom = memory.createdDayKey < options.start ? options.start : addDays(memory.createdDayKey, 1);
+      const days = shownOn.get(String(memory.id)) ?? [];
+      const original = relationship.memories.find(m => m.id === memory.id)!;
+
+      return {
+        memory,
+        eligibleDays: getDaysBetween(eligibleFrom, end) + 1,
+        appearances: days.length,
+        longestGap: getLongestGap(eligibleFrom, end, days),
+        reactionsGained: getTotalReactions(memory.reactionCounts) - getTotalReactions(original.reactionCounts)
+      };
+    })
+    .filter(report => report.eligibleDays > 0);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  if (sorted.length === 0) return 0;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function printReport(reports: MemoryReport[], perMemory: boolean) {
+  if (reports.length === 0) {
+    console.log("  No memories were eligible during the simulation.");
+    return;
+  }
+
+  const appearances = reports.map(report => report.appearances);
+  const gaps = reports.map(report => report.longestGap);
+  const shown = reports.filter(report => report.appearances > 0).length;
+  const worst = reports.reduce((a, b) => (b.longestGap > a.longestGap ? b : a));
+
+  console.log(`  Coverage: ${(shown / reports.length * 100).toFixed(1)}% (${shown}/${reports.length} memories shown at least once)`);
+  console.log(`  Appearances per memory: min ${Math.min(...appearances)} · median ${median(appearances)} · max ${Math.max(...appearances)}`);
+  console.log(`  Longest gap: median ${median(gaps)} days · worst ${worst.longestGap} days (memory ${worst.memory.id})`);
+
+  if (!perMemory) return;
+
+  console.log("");
+  console.log("  memory      type   reactions  shown  frequency  longest gap");
+
+  for (const report of [...reports].sort((a, b) => b.appearances - a.appearances)) {
+    const reactions = `${getTotalReactions(report.memory.reactionCounts) - report.reactionsGained}+${report.reactionsGained}`;
+    const frequency = `${(report.appearances / report.eligibleDays * 100).toFixed(1)}%`;
+
+    console.log([
+      `  ${String(report.memory.id).padEnd(10)}`,
+      report.memory.type.padEnd(6),
+      reactions.padStart(10),
+      String(report.appearances).padStart(6),
+      frequency.padStart(10),
+      `${report.longestGap} days`.padStart(12)
+    ].join(" "));
+  }
+}
+
+function parseWholeNumber(value: string, name: string, min: number = 1): number {
+  const parsed = Number(value);
+
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`--${name} must be a whole number of at least ${min}`);
+  }
+
+  return parsed;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      source: { type: "string", default: "memory" },
+      relationship: { type: "string" },
+      file: { type: "string" },
+      memories: { type: "string", default: "40" },
+      days: { type: "string", default: "90" },
+      config: { type: "string", multiple: true },
+      members: { type: "string", default: "2" },
+      reactions: { type: "string", default: "2" },
+      seed: { type: "string", default: "simulation" },
+      "time-zone": { type: "string", default: "UTC" },
+      "per-memory": { type: "boolean", default: false },
+    },
+  });
+
+  let relationship: LoadedRelationship;
+
+  switch (values.source) {
+    case "memory": {
+      const storage = new MemStorage();
+      const relationshipId = await seedMemStorage(storage, parseWholeNumber(values.memories!, "memories"), createRandom(values.seed!));
+      relationship = await loadFromStorage(storage, relationshipId);
+      break;
+    }
+    case "postgres": {
+      if (!values.relationship) {
+        throw new Error("--relationship is required for the postgres source");
+      }
+
+      const { db, pool } = createDatabase();
+
+      try {
+        relationship = await loadFromStorage(new DrizzleStorage(db, pool), parseWholeNumber(values.relationship, "relationship"));
+      } finally {
+        await pool.end();
+      }
+      break;
+    }
+    case "json": {
+      if (!values.file) {
+        throw new Error("--file is required for the json source");
+      }
+
+      relationship = await loadFromJson(values.file, resolveTimeZone(values["time-zone"]));
+      break;
+    }
+    default:
+      throw new Error(`Unknown --source "${values.source}". Expected "memory", "postgres" or "json".`);
+  }
+
+  const baseConfig = resolveSelectionConfig(relationship.selectionConfig);
+  const configs = (values.config ?? [JSON.stringify(baseConfig)]).map(config => {
+    const partial = JSON.parse(config);
+    return selectionConfigSchema.parse({
+      ...baseConfig,
+      ...partial,
+      reactionWeights: { ...baseConfig.reactionWeights, ...partial.reactionWeights }
+    });
+  });
+
+  const options: SimulationOptions = {
+    days: parseWholeNumber(values.days!, "days"),
+    start: addDays(getDayKey(new Date(), relationship.timeZone), 1),
+    members: parseWholeNumber(values.members!, "members"),
+    reactionsPerDay: parseWholeNumber(values.reactions!, "reactions", 0),
+    seed: values.seed!
+  };
+
+  console.log(`Relationship ${relationship.relationshipId} · ${relationship.memories.length} memories · ${options.days} days from ${options.start}`);
+
+  for (const config of configs) {
+    console.log("");
+    console.log(`Config: ${describeSelectionConfig(config)}`);
+    console.log(`  ${JSON.stringify(config)}`);
+    printReport(simulate(relationship, config, options), values["per-memory"]!);
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -4,35 +4,338 @@ import {
   userRelationships, type UserRelationship, type InsertUserRelationship,
   memories, type Memory, type InsertMemory,
   dailyMemories, type DailyMemory, type InsertDailyMemory,
-  MemoryType
+  dailyBoards, type DailyBoard,
+  relationshipEvents, type RelationshipEvent, type InsertRelationshipEvent,
+  invites, type Invite, type InsertInvite,
+  uploadSlots, type UploadSlot,
+  memoryGifts, type MemoryGift, type InsertMemoryGift,
+  reactions, type Reaction, type InsertReaction,
+  comments, type Comment, type InsertComment, type CommentWithAuthor,
+  notifications, type Notification, type InsertNotification, type NotificationWithActor,
+  NOTIFICATION_FEED_LIMIT,
+  MemoryType,
+  getMemberLimit,
+  getInviteStatus,
+  INVITE_STATUS_MESSAGES,
+  REACTION_ERROR_MESSAGES,
+  REROLL_ERROR_MESSAGES,
+  type ReactionErrorReason,
+  type RerollErrorReason,
+  type MemoryReactor,
+  type InviteStatus,
+  type RelationshipMember,
+  type BoardHistoryEntry,
+  type BoardMemory,
+  type DepartureMemoryPolicy,
+  type RelationshipMode,
+  type RelationshipRole
 } from "@shared/schema";
+import {
+  getUploadSlotKeys,
+  getQuotaExceededMessage,
+  type QuotaPolicy,
+  type UploadAllowance
+} from "@shared/quota";
+import { getDayKey, getDayRange, resolveTimeZone } from "@shared/day-key";
+import {
+  type SelectionConfig,
+  getLastShownDayKeys,
+  getSelectionSeed,
+  resolveSelectionConfig,
+  selectMemories
+} from "@shared/selection";
+import {
+  EMPTY_REACTION_COUNTS,
+  REACTION_DAILY_LIMITS,
+  resolveReactionCounts,
+  type ReactionCounts,
+  type ReactionType
+} from "@shared/reactions";
+import { and, asc, count, desc, eq, gt, gte, inArray, isNull, lt, max, ne, sql } from "drizzle-orm";
 import { nanoid } from "nanoid";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import type pg from "pg";
+import { createDatabase, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Thrown by addUserToRelationship when the relationship's member cap is reached
+export class RelationshipFullError extends Error {
+  constructor(public limit: number) {
+    super(`This relationship is full (${limit} members maximum)`);
+    this.name = "RelationshipFullError";
+  }
+}
+
+// Thrown by redeemInvite when the invite can no longer be used
+export class InviteError extends Error {
+  constructor(public status: Exclude<InviteStatus, "valid">) {
+    super(INVITE_STATUS_MESSAGES[status]);
+    this.name = "InviteError";
+  }
+}
+
+// Thrown by createMemoryWithinQuota when every slot in the period is taken
+export class UploadQuotaError extends Error {
+  constructor(public allowance: UploadAllowance) {
+    super(getQuotaExceededMessage(allowance));
+    this.name = "UploadQuotaError";
+  }
+}
+
+// Thrown by addReaction when the thumbs-up isn't allowed
+export class ReactionError extends Error {
+  constructor(public reason: ReactionErrorReason) {
+    super(REACTION_ERROR_MESSAGES[reason]);
+    this.name = "ReactionError";
+  }
+}
+
+// Thrown by rerollDailyBoard when the board can't be rerolled
+export class RerollError extends Error {
+  constructor(public reason: RerollErrorReason) {
+    super(REROLL_ERROR_MESSAGES[reason]);
+    this.name = "RerollError";
+  }
+}
+
+// Thrown by createMemoryGift when the member already gifted a memory today
+export class GiftLimitError extends Error {
+  constructor() {
+    super("You've already gifted a memory today. You can gift another tomorrow.");
+    this.name = "GiftLimitError";
+  }
+}
+
+export interface CreateRelationshipOptions {
+  mode?: RelationshipMode;
+  memberLimit?: number | null;
+  timeZone?: string | null;
+}
 
 export interface IStorage {
+  // Where login sessions are persisted
+  sessionStore: session.Store;
+
   // User operations
+  getUserById(id: number): Promise<User | undefined>;
   getUserByUid(uid: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserTimeZone(id: number, timeZone: string): Promise<User | undefined>;
 
   // Relationship operations
   getRelationshipById(id: number): Promise<Relationship | undefined>;
   getRelationshipByInviteCode(code: string): Promise<Relationship | undefined>;
   getUserRelationship(userId: number): Promise<Relationship | undefined>;
   getUserRelationships(userId: number): Promise<Relationship[]>;
-  createRelationship(name?: string): Promise<Relationship>;
+  createRelationship(name?: string, options?: CreateRelationshipOptions): Promise<Relationship>;
   updateRelationshipName(id: number, name: string): Promise<Relationship | undefined>;
-  addUserToRelationship(userId: number, relationshipId: number): Promise<UserRelationship>;
+  updateRelationshipMemberLimit(id: number, mode: RelationshipMode, memberLimit: number | null): Promise<Relationship | undefined>;
+  updateRelationshipQuotaPolicy(id: number, quotaPolicy: QuotaPolicy): Promise<Relationship | undefined>;
+  updateRelationshipSelectionConfig(id: number, selectionConfig: SelectionConfig): Promise<Relationship | undefined>;
+  updateRelationshipTimeZone(id: number, timeZone: string): Promise<Relationship | undefined>;
+  regenerateInviteCode(id: number): Promise<Relationship | undefined>;
+  addUserToRelationship(userId: number, relationshipId: number, role?: RelationshipRole): Promise<UserRelationship>;
+  isUserInRelationship(userId: number, relationshipId: number): Promise<boolean>;
+  // Removes the membership; if the owner leaves, the longest-standing member takes over
+  removeUserFromRelationship(userId: number, relationshipId: number): Promise<boolean>;
+  // Removes the member (as removeUserFromRelationship), hides their memories
+  // unless the policy keeps them and records the event, all in one step.
+  // Returns the memories it hid, or undefined if they weren't a member.
+  departRelationship(event: InsertRelationshipEvent & { memoryPolicy: DepartureMemoryPolicy }): Promise<Memory[] | undefined>;
+  getMembership(userId: number, relationshipId: number): Promise<UserRelationship | undefined>;
+  getRelationshipMembers(relationshipId: number): Promise<RelationshipMember[]>;
+  // Moves the member's read receipt up to now
+  markMemoriesSeen(userId: number, relationshipId: number): Promise<UserRelationship | undefined>;
+  updateMemberNickname(userId: number, relationshipId: number, nickname: string): Promise<UserRelationship | undefined>;
+  
+  // Relationship event operations
+  createRelationshipEvent(event: InsertRelationshipEvent): Promise<RelationshipEvent>;
+  getRelationshipEvents(relationshipId: number): Promise<RelationshipEvent[]>;
+  
+  // Invite operations
+  createInvite(invite: InsertInvite): Promise<Invite>;
+  getInviteByCode(code: string): Promise<Invite | undefined>;
+  getInvitesByRelationship(relationshipId: number): Promise<Invite[]>;
+  revokeInvite(id: number): Promise<Invite | undefined>;
+  // Checks the invite, adds the user and counts the use in one step.
+  // Throws InviteError or RelationshipFullError.
+  redeemInvite(inviteId: number, userId: number): Promise<Relationship>;
 
   // Memory operations
+  getMemoryById(id: number): Promise<Memory | undefined>;
+  // Hidden memories are left out
   getMemoriesByRelationship(relationshipId: number): Promise<Memory[]>;
+  // What the other members shared since the member last caught up, newest first
+  getNewMemories(userId: number, relationshipId: number): Promise<Memory[]>;
   getMemoriesByUser(userId: number): Promise<Memory[]>;
-  getMemoriesByUserAndDate(userId: number, date: Date): Promise<Memory[]>;
+  // dayKey is a calendar day in timeZone (see shared/day-key.ts)
+  getMemoriesByUserAndDate(userId: number, dayKey: string, timeZone: string): Promise<Memory[]>;
   createMemory(memory: InsertMemory): Promise<Memory>;
-  incrementThumbsUp(memoryId: number): Promise<Memory>;
+  // Claims a free upload slot for the author and inserts the memory together
+  createMemoryWithinQuota(memory: InsertMemory, allowance: UploadAllowance): Promise<Memory>;
+  // The slots among slotKeys the member has claimed, in the order they were claimed
+  getClaimedUploadSlots(userId: number, relationshipId: number, slotKeys: string[]): Promise<UploadSlot[]>;
+  // Pass the retiring member's ID, or null to put the memory back in rotation
+  setMemoryRetired(memoryId: number, retiredByUserId: number | null): Promise<Memory>;
+  hideUserMemoriesInRelationship(userId: number, relationshipId: number): Promise<Memory[]>;
   
   // Daily memory operations
-  getDailyMemoriesByRelationshipAndDate(relationshipId: number, date: Date): Promise<Memory[]>;
+  // The board currently shown on dayKey: its latest reroll
+  getDailyMemoriesByRelationshipAndDate(relationshipId: number, dayKey: string, timeZone: string): Promise<BoardMemory[]>;
+  getDailyMemoriesByRelationship(relationshipId: number): Promise<DailyMemory[]>;
+  // Days that had a board, newest first
+  getBoardHistoryDays(relationshipId: number, timeZone: string): Promise<string[]>;
+  // Every board shown on dayKey, rerolls included, in the order they were drawn
+  getBoardHistory(relationshipId: number, dayKey: string, timeZone: string): Promise<BoardHistoryEntry[]>;
   createDailyMemory(dailyMemory: InsertDailyMemory): Promise<DailyMemory>;
-  selectRandomMemoriesForDay(relationshipId: number, count: number): Promise<Memory[]>;
+  // Picks the board for dayKey through the shared draw (see shared/selection.ts)
+  selectMemoriesForDay(relationship: Relationship, dayKey: string, reroll?: number): Promise<BoardMemory[]>;
+  // The board for dayKey, drawn and saved first if nobody has yet. drawn is
+  // only true for the one call that claimed the day and saved its board
+  getOrDrawDailyBoard(relationship: Relationship, dayKey: string): Promise<{ memories: BoardMemory[]; drawn: boolean }>;
+  // Draws the next board for dayKey, charges it to the member's rerolls and
+  // saves it in one step. Throws RerollError if there is no board to reroll
+  // yet or the member has no rerolls left.
+  rerollDailyBoard(relationship: Relationship, dayKey: string, userId: number): Promise<BoardMemory[]>;
+  // How many of dayKey's boards the member rerolled
+  getRerollsUsed(userId: number, relationshipId: number, dayKey: string): Promise<number>;
+  
+  // Gift operations
+  // Throws GiftLimitError if the member already gifted a memory to that board
+  createMemoryGift(gift: InsertMemoryGift): Promise<MemoryGift>;
+  getMemoryGiftsForDay(relationshipId: number, boardDayKey: string): Promise<MemoryGift[]>;
+  
+  // Reaction operations
+  // Records a reaction and returns the memory with its updated reactionCounts.
+  // Throws ReactionError if the member already left that reaction on it that
+  // day or has none of that type left.
+  addReaction(reaction: InsertReaction): Promise<Memory>;
+  // Takes back a reaction from dayKey; undefined if there wasn't one
+  removeReaction(userId: number, memoryId: number, type: ReactionType, dayKey: string): Promise<Memory | undefined>;
+  // Everyone who reacted to the memory, oldest first
+  getMemoryReactors(memoryId: number): Promise<MemoryReactor[]>;
+  getRemainingReactions(userId: number, relationshipId: number, dayKey: string): Promise<Record<ReactionType, number>>;
+  
+  // Comment operations
+  createComment(comment: InsertComment): Promise<Comment>;
+  // A memory's thread, oldest first
+  getCommentsByMemory(memoryId: number): Promise<CommentWithAuthor[]>;
+  // Comments per memory ID; memories without comments are left out
+  getCommentCounts(relationshipId: number): Promise<Record<number, number>>;
+  
+  // Notification operations
+  createNotifications(notifications: InsertNotification[]): Promise<Notification[]>;
+  // The user's feed, newest first (up to NOTIFICATION_FEED_LIMIT)
+  getNotifications(userId: number): Promise<NotificationWithActor[]>;
+  // Only marks the user's own notifications
+  markNotificationRead(id: number, userId: number): Promise<Notification | undefined>;
+  // Returns how many were unread
+  markAllNotificationsRead(userId: number): Promise<number>;
+}
+
+// Relationships created before roles existed have no owner; treat their
+// earliest member as the owner so someone can still manage them
+function resolveImplicitOwner(memberships: UserRelationship[]): UserRelationship[] {
+  if (memberships.length === 0 || memberships.some(m => m.role === "owner")) {
+    return memberships;
+  }
+  
+  const earliest = memberships.reduce((first, m) => (m.id < first.id ? m : first));
+  return memberships.map(m => (m === earliest ? { ...m, role: "owner" } : m));
+}
+
+// The member who should become owner once the current owner is gone
+function findSuccessor(remaining: UserRelationship[]): UserRelationship | undefined {
+  if (remaining.length === 0 || remaining.some(m => m.role === "owner")) {
+    return undefined;
+  }
+  
+  return remaining.reduce((first, m) => (m.id < first.id ? m : first));
+}
+
+// Other members' memories shared since the member's read receipt. Members who
+// haven't caught up since receipts arrived fall back to the old shared flag.
+function isNewToMember(memory: Memory, membership: UserRelationship): boolean {
+  if (memory.userId === membership.userId) {
+    return false;
+  }
+
+  return membership.lastSeenAt
+    ? memory.createdAt > membership.lastSeenAt
+    : memory.isNew;
+}
+
+// Today's board for any backend: memories shared before the day, drawn with
+// the same seed and config the Firestore client uses
+function selectBoardForDay(
+  relationship: Relationship, 
+  allMemories: Memory[], 
+  history: DailyMemory[], 
+  gifts: MemoryGift[], 
+  dayKey: string,
+  reroll: number = 0
+): BoardMemory[] {
+  const timeZone = resolveTimeZone(relationship.timeZone);
+  const giftedIds = new Set(gifts.map(gift => gift.memoryId));
+  const lastShown = getLastShownDayKeys(history.map(entry => ({
+    memoryId: entry.memoryId,
+    dayKey: getDayKey(entry.date, timeZone)
+  })));
+  
+  const candidates = allMemories
+    .map(memory => ({
+      id: memory.id,
+      type: memory.type,
+      reactionCounts: resolveReactionCounts(memory.reactionCounts),
+      createdDayKey: getDayKey(memory.createdAt, timeZone),
+      lastShownDayKey: lastShown.get(String(memory.id)) ?? null,
+      retired: memory.retiredAt !== null,
+      gifted: giftedIds.has(memory.id),
+      memory
+    }))
+    .filter(candidate => candidate.createdDayKey < dayKey);
+  
+  const config = resolveSelectionConfig(relationship.selectionConfig);
+  const seed = getSelectionSeed(relationship.id, dayKey, reroll);
+  return selectMemories(candidates, config, seed, dayKey).map(({ candidate, explanation }) => ({
+    ...candidate.memory,
+    selection: explanation
+  }));
+}
+
+// A day's rows that belong to its latest board; rerolls replace what's shown
+function keepLatestReroll<T extends { reroll: number }>(rows: T[]): T[] {
+  const latest = Math.max(...rows.map(row => row.reroll));
+  return rows.filter(row => row.reroll === latest);
+}
+
+// Rows of one day's history (ordered by ID) grouped into the boards they made up
+function groupBoardHistory(rows: { dailyMemory: DailyMemory; memory: Memory }[], dayKey: string): BoardHistoryEntry[] {
+  const boards = new Map<number, BoardHistoryEntry>();
+  
+  for (const { dailyMemory, memory } of rows) {
+    let board = boards.get(dailyMemory.reroll);
+    
+    if (!board) {
+      board = { date: dayKey, reroll: dailyMemory.reroll, memories: [] };
+      boards.set(dailyMemory.reroll, board);
+    }
+    
+    board.memories.push(memory);
+  }
+  
+  return Array.from(boards.values()).sort((a, b) => a.reroll - b.reroll);
+}
+
+// Distinct day keys, newest first
+function getHistoryDays(dates: Date[], timeZone: string): string[] {
+  const days = new Set(dates.map(date => getDayKey(date, timeZone)));
+  return Array.from(days).sort().reverse();
 }
 
 export class MemStorage implements IStorage {
@@ -41,13 +344,30 @@ export class MemStorage implements IStorage {
   private userRelationships: Map<number, UserRelationship>;
   private memories: Map<number, Memory>;
   private dailyMemories: Map<number, DailyMemory>;
+  private dailyBoards: Map<number, DailyBoard>;
+  private relationshipEvents: Map<number, RelationshipEvent>;
+  private invites: Map<number, Invite>;
+  private uploadSlots: Map<number, UploadSlot>;
+  private memoryGifts: Map<number, MemoryGift>;
+  private reactions: Map<number, Reaction>;
+  private comments: Map<number, Comment>;
+  private notifications: Map<number, Notification>;
   private currentId: { 
     user: number; 
     relationship: number; 
     userRelationship: number; 
     memory: number; 
     dailyMemory: number;
+    dailyBoard: number;
+    relationshipEvent: number;
+    invite: number;
+    uploadSlot: number;
+    memoryGift: number;
+    reaction: number;
+    comment: number;
+    notification: number;
   };
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
@@ -55,29 +375,70 @@ export class MemStorage implements IStorage {
     this.userRelationships = new Map();
     this.memories = new Map();
     this.dailyMemories = new Map();
+    this.dailyBoards = new Map();
+    this.relationshipEvents = new Map();
+    this.invites = new Map();
+    this.uploadSlots = new Map();
+    this.memoryGifts = new Map();
+    this.reactions = new Map();
+    this.comments = new Map();
+    this.notifications = new Map();
     this.currentId = {
       user: 1,
       relationship: 1,
       userRelationship: 1,
       memory: 1,
-      dailyMemory: 1
+      dailyMemory: 1,
+      dailyBoard: 1,
+      relationshipEvent: 1,
+      invite: 1,
+      uploadSlot: 1,
+      memoryGift: 1,
+      reaction: 1,
+      comment: 1,
+      notification: 1
     };
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // prune expired sessions daily
+    });
   }
 
   // User operations
+  async getUserById(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
   async getUserByUid(uid: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(user => user.uid === uid);
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentId.user++;
-    // Ensure photoURL is never undefined (convert to null if needed)
+    // Ensure optional fields are never undefined (convert to null if needed)
     const photoURL = insertUser.photoURL === undefined ? null : insertUser.photoURL;
-    const user: User = { ...insertUser, id, photoURL };
+    const passwordHash = insertUser.passwordHash === undefined ? null : insertUser.passwordHash;
+    const timeZone = insertUser.timeZone === undefined ? null : insertUser.timeZone;
+    const user: User = { ...insertUser, id, photoURL, passwordHash, timeZone };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUserTimeZone(id: number, timeZone: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    
+    if (!user) {
+      return undefined;
+    }
+    
+    const updatedUser = { ...user, timeZone };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   // Relationship operations
   async getRelationshipById(id: number): Promise<Relationship | undefined> {
     return this.relationships.get(id);
@@ -121,12 +482,22 @@ export class MemStorage implements IStorage {
     return relationships;
   }
 
-  async createRelationship(name?: string): Promise<Relationship> {
+  async createRelationship(name?: string, options: CreateRelationshipOptions = {}): Promise<Relationship> {
     const id = this.currentId.relationship++;
     const inviteCode = nanoid(10);
     const createdAt = new Date();
     
-    const relationship: Relationship = { id, inviteCode, createdAt, name: name || null };
+    const relationship: Relationship = { 
+      id, 
+      inviteCode, 
+      createdAt, 
+      name: name || null,
+      mode: options.mode || "couple",
+      memberLimit: options.memberLimit ?? null,
+      quotaPolicy: null,
+      selectionConfig: null,
+      timeZone: options.timeZone ?? null
+    };
     this.relationships.set(id, relationship);
     
     return relationship;
@@ -144,13 +515,99 @@ export class MemStorage implements IStorage {
     return updatedRelationship;
   }
 
-  async addUserToRelationship(userId: number, relationshipId: number): Promise<UserRelationship> {
+  async updateRelationshipMemberLimit(
+    id: number, 
+    mode: RelationshipMode, 
+    memberLimit: number | null
+  ): Promise<Relationship | undefined> {
+    const relationship = this.relationships.get(id);
+    
+    if (!relationship) {
+      return undefined;
+    }
+    
+    const updatedRelationship = { ...relationship, mode, memberLimit };
+    this.relationships.set(id, updatedRelationship);
+    return updatedRelationship;
+  }
+
+  async updateRelationshipQuotaPolicy(id: number, quotaPolicy: QuotaPolicy): Promise<Relationship | undefined> {
+    const relationship = this.relationships.get(id);
+    
+    if (!relationship) {
+      return undefined;
+    }
+    
+    const updatedRelationship = { ...relationship, quotaPolicy };
+    this.relationships.set(id, updatedRelationship);
+    return updatedRelationship;
+  }
+
+  async updateRelationshipSelectionConfig(id: number, selectionConfig: SelectionConfig): Promise<Relationship | undefined> {
+    const relationship = this.relationships.get(id);
+    
+    if (!relationship) {
+      return undefined;
+    }
+    
+    const updatedRelationship = { ...relationship, selectionConfig };
+    this.relationships.set(id, updatedRelationship);
+    return updatedRelationship;
+  }
+
+  async updateRelationshipTimeZone(id: number, timeZone: string): Promise<Relationship | undefined> {
+    const relationship = this.relationships.get(id);
+    
+    if (!relationship) {
+      return undefined;
+    }
+    
+    const updatedRelationship = { ...relationship, timeZone };
+    this.relationships.set(id, updatedRelationship);
+    return updatedRelationship;
+  }
+
+  async regenerateInviteCode(id: number): Promise<Relationship | undefined> {
+    const relationship = this.relationships.get(id);
+    
+    if (!relationship) {
+      return undefined;
+    }
+    
+    const updatedRelationship = { ...relationship, inviteCode: nanoid(10) };
+    this.relationships.set(id, updatedRelationship);
+    return updatedRelationship;
+  }
+
+  async addUserToRelationship(
+    userId: number, 
+    relationshipId: number, 
+    role: RelationshipRole = "member"
+  ): Promise<UserRelationship> {
+    const relationship = this.relationships.get(relationshipId);
+    
+    if (!relationship) {
+      throw new Error(`Relationship with ID ${relationshipId} not found`);
+    }
+    
+    // Enforce the member cap
+    const limit = getMemberLimit(relationship);
+    const memberCount = this.getMembershipsOf(relationshipId).length;
+    
+    if (memberCount >= limit) {
+      throw new RelationshipFullError(limit);
+    }
+    
     const id = this.currentId.userRelationship++;
     
     const userRelationship: UserRelationship = { 
       id, 
       userId, 
-      relationshipId 
+      relationshipId,
+      role,
+      joinedAt: new Date(),
+      lastSeenAt: null,
+      nickname: null
     };
     
     this.userRelationships.set(id, userRelationship);
@@ -158,27 +615,225 @@ export class MemStorage implements IStorage {
     return userRelationship;
   }
 
+  async isUserInRelationship(userId: number, relationshipId: number): Promise<boolean> {
+    return !!(await this.getMembership(userId, relationshipId));
+  }
+
+  async removeUserFromRelationship(userId: number, relationshipId: number): Promise<boolean> {
+    const memberships = resolveImplicitOwner(this.getMembershipsOf(relationshipId));
+    const membership = memberships.find(ur => ur.userId === userId);
+    
+    if (!membership) {
+      return false;
+    }
+    
+    this.userRelationships.delete(membership.id);
+    
+    // Hand ownership over (this also persists an implicit owner role)
+    const remaining = memberships.filter(ur => ur.id !== membership.id);
+    const successor = membership.role === "owner" ? findSuccessor(remaining) : undefined;
+    
+    if (successor) {
+      this.userRelationships.set(successor.id, { ...successor, role: "owner" });
+    }
+    
+    return true;
+  }
+
+  async departRelationship(event: InsertRelationshipEvent & { memoryPolicy: DepartureMemoryPolicy }): Promise<Memory[] | undefined> {
+    if (!(await this.removeUserFromRelationship(event.subjectUserId, event.relationshipId))) {
+      return undefined;
+    }
+    
+    const hiddenMemories = event.memoryPolicy === "kept"
+      ? []
+      : await this.hideUserMemoriesInRelationship(event.subjectUserId, event.relationshipId);
+    
+    await this.createRelationshipEvent(event);
+    
+    return hiddenMemories;
+  }
+
+  async getMembership(userId: number, relationshipId: number): Promise<UserRelationship | undefined> {
+    return resolveImplicitOwner(this.getMembershipsOf(relationshipId)).find(
+      (ur) => ur.userId === userId
+    );
+  }
+
+  async getRelationshipMembers(relationshipId: number): Promise<RelationshipMember[]> {
+    const members: RelationshipMember[] = [];
+    
+    for (const membership of resolveImplicitOwner(this.getMembershipsOf(relationshipId))) {
+      const user = this.users.get(membership.userId);
+      if (user) {
+        const { passwordHash, ...publicUser } = user;
+        members.push({ 
+          user: publicUser, 
+          role: membership.role as RelationshipRole, 
+          joinedAt: membership.joinedAt,
+          lastSeenAt: membership.lastSeenAt,
+          nickname: membership.nickname
+        });
+      }
+    }
+    
+    return members;
+  }
+
+  async markMemoriesSeen(userId: number, relationshipId: number): Promise<UserRelationship | undefined> {
+    const membership = this.getMembershipsOf(relationshipId).find(ur => ur.userId === userId);
+    
+    if (!membership) {
+      return undefined;
+    }
+    
+    const updatedMembership = { ...membership, lastSeenAt: new Date() };
+    this.userRelationships.set(membership.id, updatedMembership);
+    
+    return updatedMembership;
+  }
+
+  async updateMemberNickname(userId: number, relationshipId: number, nickname: string): Promise<UserRelationship | undefined> {
+    const membership = this.getMembershipsOf(relationshipId).find(ur => ur.userId === userId);
+    
+    if (!membership) {
+      return undefined;
+    }
+    
+    const updatedMembership = { ...membership, nickname };
+    this.userRelationships.set(membership.id, updatedMembership);
+    
+    return updatedMembership;
+  }
+
+  private getMembershipsOf(relationshipId: number): UserRelationship[] {
+    return Array.from(this.userRelationships.values()).filter(
+      (ur) => ur.relationshipId === relationshipId
+    );
+  }
+
+  // Relationship event operations
+  async createRelationshipEvent(insertEvent: InsertRelationshipEvent): Promise<RelationshipEvent> {
+    const id = this.currentId.relationshipEvent++;
+    
+    const event: RelationshipEvent = {
+      id,
+      relationshipId: insertEvent.relationshipId,
+      type: insertEvent.type,
+      actorUserId: insertEvent.actorUserId,
+      subjectUserId: insertEvent.subjectUserId,
+      memoryPolicy: insertEvent.memoryPolicy ?? null,
+      createdAt: new Date()
+    };
+    
+    this.relationshipEvents.set(id, event);
+    
+    return event;
+  }
+
+  async getRelationshipEvents(relationshipId: number): Promise<RelationshipEvent[]> {
+    return Array.from(this.relationshipEvents.values())
+      .filter(event => event.relationshipId === relationshipId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  // Invite operations
+  async createInvite(insertInvite: InsertInvite): Promise<Invite> {
+    const id = this.currentId.invite++;
+    
+    const invite: Invite = {
+      id,
+      relationshipId: insertInvite.relationshipId,
+      code: insertInvite.code,
+      createdByUserId: insertInvite.createdByUserId,
+      expiresAt: insertInvite.expiresAt ?? null,
+      maxUses: insertInvite.maxUses ?? null,
+      useCount: 0,
+      revokedAt: null,
+      createdAt: new Date()
+    };
+    
+    this.invites.set(id, invite);
+    
+    return invite;
+  }
+
+  async getInviteByCode(code: string): Promise<Invite | undefined> {
+    return Array.from(this.invites.values()).find(invite => invite.code === code);
+  }
+
+  async getInvitesByRelationship(relationshipId: number): Promise<Invite[]> {
+    return Array.from(this.invites.values())
+      .filter(invite => invite.relationshipId === relationshipId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async revokeInvite(id: number): Promise<Invite | undefined> {
+    const invite = this.invites.get(id);
+    
+    if (!invite) {
+      return undefined;
+    }
+    
+    const updatedInvite = { ...invite, revokedAt: invite.revokedAt ?? new Date() };
+    this.invites.set(id, updatedInvite);
+    return updatedInvite;
+  }
+
+  async redeemInvite(inviteId: number, userId: number): Promise<Relationship> {
+    const invite = this.invites.get(inviteId);
+    
+    if (!invite) {
+      throw new Error(`Invite with ID ${inviteId} not found`);
+    }
+    
+    const status = getInviteStatus(invite);
+    
+    if (status !== "valid") {
+      throw new InviteError(status);
+    }
+    
+    await this.addUserToRelationship(userId, invite.relationshipId);
+    this.invites.set(inviteId, { ...invite, useCount: invite.useCount + 1 });
+    
+    return this.relationships.get(invite.relationshipId)!;
+  }
+
   // Memory operations
+  async getMemoryById(id: number): Promise<Memory | undefined> {
+    return this.memories.get(id);
+  }
+
   async getMemoriesByRelationship(relationshipId: number): Promise<Memory[]> {
     return Array.from(this.memories.values()).filter(
-      (memory) => memory.relationshipId === relationshipId
+      (memory) => memory.relationshipId === relationshipId && !memory.hiddenAt
     );
   }
 
+  async getNewMemories(userId: number, relationshipId: number): Promise<Memory[]> {
+    const membership = await this.getMembership(userId, relationshipId);
+    
+    if (!membership) {
+      return [];
+    }
+    
+    const memories = await this.getMemoriesByRelationship(relationshipId);
+    
+    return memories
+      .filter(memory => isNewToMember(memory, membership))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
   async getMemoriesByUser(userId: number): Promise<Memory[]> {
     return Array.from(this.memories.values()).filter(
       (memory) => memory.userId === userId
     );
   }
 
-  async getMemoriesByUserAndDate(userId: number, date: Date): Promise<Memory[]> {
-    // Format date to compare only year, month, day
-    const dateString = date.toISOString().split('T')[0];
-    
-    return Array.from(this.memories.values()).filter(memory => {
-      const memoryDate = new Date(memory.createdAt).toISOString().split('T')[0];
-      return memory.userId === userId && memoryDate === dateString;
-    });
+  async getMemoriesByUserAndDate(userId: number, dayKey: string, timeZone: string): Promise<Memory[]> {
+    return Array.from(this.memories.values()).filter(memory =>
+      memory.userId === userId && getDayKey(memory.createdAt, timeZone) === dayKey
+    );
   }
 
   async createMemory(insertMemory: InsertMemory): Promise<Memory> {
@@ -197,7 +852,12 @@ export class MemStorage implements IStorage {
       caption: insertMemory.caption ?? null,
       imageUrl: insertMemory.imageUrl ?? null,
       thumbsUpCount,
-      isNew: insertMemory.isNew ?? true
+      legacyThumbsUps: 0,
+      reactionCounts: null,
+      isNew: true,
+      hiddenAt: null,
+      retiredAt: null,
+      retiredByUserId: null
     };
     
     this.memories.set(id, memory);
@@ -205,46 +865,127 @@ export class MemStorage implements IStorage {
     return memory;
   }
 
-  async incrementThumbsUp(memoryId: number): Promise<Memory> {
+  async createMemoryWithinQuota(insertMemory: InsertMemory, allowance: UploadAllowance): Promise<Memory> {
+    if (allowance.limit === null) {
+      return this.createMemory(insertMemory);
+    }
+    
+    const takenKeys = new Set(
+      Array.from(this.uploadSlots.values())
+        .filter(slot =>
+          slot.userId === insertMemory.userId &&
+          slot.relationshipId === insertMemory.relationshipId
+        )
+        .map(slot => slot.slotKey)
+    );
+    const slotKey = getUploadSlotKeys(allowance).find(key => !takenKeys.has(key));
+    
+    if (!slotKey) {
+      throw new UploadQuotaError(allowance);
+    }
+    
+    const memory = await this.createMemory(insertMemory);
+    const id = this.currentId.uploadSlot++;
+    
+    this.uploadSlots.set(id, {
+      id,
+      userId: insertMemory.userId,
+      relationshipId: insertMemory.relationshipId,
+      slotKey,
+      memoryId: memory.id,
+      createdAt: new Date()
+    });
+    
+    return memory;
+  }
+
+  async getClaimedUploadSlots(userId: number, relationshipId: number, slotKeys: string[]): Promise<UploadSlot[]> {
+    return Array.from(this.uploadSlots.values())
+      .filter(slot =>
+        slot.userId === userId &&
+        slot.relationshipId === relationshipId &&
+        slotKeys.includes(slot.slotKey)
+      )
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async setMemoryRetired(memoryId: number, retiredByUserId: number | null): Promise<Memory> {
     const memory = this.memories.get(memoryId);
     
     if (!memory) {
       throw new Error(`Memory with ID ${memoryId} not found`);
     }
     
-    const updatedMemory = { 
-      ...memory, 
-      thumbsUpCount: memory.thumbsUpCount + 1 
+    const updatedMemory = {
+      ...memory,
+      retiredAt: retiredByUserId === null ? null : new Date(),
+      retiredByUserId
     };
     
     this.memories.set(memoryId, updatedMemory);
     
     return updatedMemory;
   }
+
+  async hideUserMemoriesInRelationship(userId: number, relationshipId: number): Promise<Memory[]> {
+    const hiddenAt = new Date();
+    const hidden: Memory[] = [];
+    
+    for (const memory of Array.from(this.memories.values())) {
+      if (memory.userId === userId && memory.relationshipId === relationshipId && !memory.hiddenAt) {
+        const updatedMemory = { ...memory, hiddenAt };
+        this.memories.set(memory.id, updatedMemory);
+        hidden.push(updatedMemory);
+      }
+    }
+    
+    return hidden;
+  }
   
   // Daily memory operations
-  async getDailyMemoriesByRelationshipAndDate(relationshipId: number, date: Date): Promise<Memory[]> {
-    // Format date to compare only year, month, day
-    const dateString = date.toISOString().split('T')[0];
-    
-    // Find all daily memory entries for this relationship and date
-    const dailyMemoryEntries = Array.from(this.dailyMemories.values()).filter(dailyMemory => {
-      const memoryDate = new Date(dailyMemory.date).toISOString().split('T')[0];
-      return dailyMemory.relationshipId === relationshipId && memoryDate === dateString;
-    });
+  async getDailyMemoriesByRelationshipAndDate(relationshipId: number, dayKey: string, timeZone: string): Promise<BoardMemory[]> {
+    // Find the daily memory entries of the day's latest board
+    const dailyMemoryEntries = keepLatestReroll(Array.from(this.dailyMemories.values()).filter(dailyMemory =>
+      dailyMemory.relationshipId === relationshipId && getDayKey(dailyMemory.date, timeZone) === dayKey
+    ));
     
     // Get the actual memory objects
-    const memories: Memory[] = [];
+    const memories: BoardMemory[] = [];
     for (const entry of dailyMemoryEntries) {
       const memory = this.memories.get(entry.memoryId);
-      if (memory) {
-        memories.push(memory);
+      if (memory && !memory.hiddenAt) {
+        memories.push({ ...memory, selection: entry.selection });
       }
     }
     
     return memories;
   }
 
+  async getDailyMemoriesByRelationship(relationshipId: number): Promise<DailyMemory[]> {
+    return Array.from(this.dailyMemories.values()).filter(
+      (dailyMemory) => dailyMemory.relationshipId === relationshipId
+    );
+  }
+
+  async getBoardHistoryDays(relationshipId: number, timeZone: string): Promise<string[]> {
+    const history = await this.getDailyMemoriesByRelationship(relationshipId);
+    return getHistoryDays(history.map(dailyMemory => dailyMemory.date), timeZone);
+  }
+
+  async getBoardHistory(relationshipId: number, dayKey: string, timeZone: string): Promise<BoardHistoryEntry[]> {
+    const history = await this.getDailyMemoriesByRelationship(relationshipId);
+    const rows: { dailyMemory: DailyMemory; memory: Memory }[] = [];
+    
+    for (const dailyMemory of history) {
+      const memory = this.memories.get(dailyMemory.memoryId);
+      if (memory && !memory.hiddenAt && getDayKey(dailyMemory.date, timeZone) === dayKey) {
+        rows.push({ dailyMemory, memory });
+      }
+    }
+    
+    return groupBoardHistory(rows, dayKey);
+  }
+
   async createDailyMemory(insertDailyMemory: InsertDailyMemory): Promise<DailyMemory> {
     const id = this.currentId.dailyMemory++;
     const date = new Date();
@@ -252,7 +993,9 @@ export class MemStorage implements IStorage {
     const dailyMemory: DailyMemory = { 
       ...insertDailyMemory, 
       id, 
-      date 
+      date,
+      reroll: insertDailyMemory.reroll ?? 0,
+      selection: insertDailyMemory.selection ?? null
     };
     
     this.dailyMemories.set(id, dailyMemory);
@@ -260,52 +1003,1300 @@ export class MemStorage implements IStorage {
     return dailyMemory;
   }
 
-  async selectRandomMemoriesForDay(relationshipId: number, count: number): Promise<Memory[]> {
-    // Get all memories for this relationship
-    const allMemories = await this.getMemoriesByRelationship(relationshipId);
+  async selectMemoriesForDay(relationship: Relationship, dayKey: string, reroll: number = 0): Promise<BoardMemory[]> {
+    const allMemories = await this.getMemoriesByRelationship(relationship.id);
+    const history = await this.getDailyMemoriesByRelationship(relationship.id);
+    const gifts = await this.getMemoryGiftsForDay(relationship.id, dayKey);
     
-    if (allMemories.length === 0) {
-      return [];
+    return selectBoardForDay(relationship, allMemories, history, gifts, dayKey, reroll);
+  }
+
+  async getOrDrawDailyBoard(relationship: Relationship, dayKey: string): Promise<{ memories: BoardMemory[]; drawn: boolean }> {
+    const timeZone = resolveTimeZone(relationship.timeZone);
+    const existing = await this.getDailyMemoriesByRelationshipAndDate(relationship.id, dayKey, timeZone);
+    
+    if (existing.length > 0) {
+      return { memories: existing, drawn: false };
     }
     
-    // Apply weighted selection based on thumbs-up count
-    const selectedMemories: Memory[] = [];
-    const remainingMemories = [...allMemories];
+    const alreadyClaimed = Array.from(this.dailyBoards.values()).some(board =>
+      board.relationshipId === relationship.id &&
+      board.dayKey === dayKey &&
+      board.reroll === 0
+    );
     
-    // Select at most 'count' memories or as many as available
-    const memoriesToSelect = Math.min(count, remainingMemories.length);
+    if (alreadyClaimed) {
+      return { memories: existing, drawn: false };
+    }
+    
+    const id = this.currentId.dailyBoard++;
+    this.dailyBoards.set(id, { id, relationshipId: relationship.id, dayKey, reroll: 0, rerolledByUserId: null, createdAt: new Date() });
+    
+    const selectedMemories = await this.selectMemoriesForDay(relationship, dayKey);
+    
+    for (const memory of selectedMemories) {
+      await this.createDailyMemory({
+        relationshipId: relationship.id,
+        memoryId: memory.id,
+        selection: memory.selection
+      });
+    }
+    
+    return { memories: selectedMemories, drawn: true };
+  }
+
+  async rerollDailyBoard(relationship: Relationship, dayKey: string, userId: number): Promise<BoardMemory[]> {
+    const timeZone = resolveTimeZone(relationship.timeZone);
+    const boards = Array.from(this.dailyBoards.values()).filter(board =>
+      board.relationshipId === relationship.id && board.dayKey === dayKey
+    );
+    const boardRerolls = Array.from(this.dailyMemories.values())
+      .filter(dailyMemory => dailyMemory.relationshipId === relationship.id && getDayKey(dailyMemory.date, timeZone) === dayKey)
+      .map(dailyMemory => dailyMemory.reroll)
+      .concat(boards.map(board => board.reroll));
+    
+    if (boardRerolls.length === 0) {
+      throw new RerollError("no_board");
+    }
+    
+    const used = boards.filter(board => board.rerolledByUserId === userId).length;
+    
+    if (used >= resolveSelectionConfig(relationship.selectionConfig).rerollsPerDay) {
+      throw new RerollError("reroll_limit");
+    }
+    
+    const reroll = Math.max(...boardRerolls) + 1;
+    const id = this.currentId.dailyBoard++;
+    this.dailyBoards.set(id, { id, relationshipId: relationship.id, dayKey, reroll, rerolledByUserId: userId, createdAt: new Date() });
+    
+    const selectedMemories = await this.selectMemoriesForDay(relationship, dayKey, reroll);
+    
+    for (const memory of selectedMemories) {
+      await this.createDailyMemory({
+        relationshipId: relationship.id,
+        memoryId: memory.id,
+        reroll,
+        selection: memory.selection
+      });
+    }
+    
+    return selectedMemories;
+  }
+
+  async getRerollsUsed(userId: number, relationshipId: number, dayKey: string): Promise<number> {
+    return Array.from(this.dailyBoards.values()).filter(board =>
+      board.relationshipId === relationshipId &&
+      board.dayKey === dayKey &&
+      board.rerolledByUserId === userId
+    ).length;
+  }
+  
+  // Gift operations
+  async createMemoryGift(insertGift: InsertMemoryGift): Promise<MemoryGift> {
+    const alreadyGifted = Array.from(this.memoryGifts.values()).some(gift =>
+      gift.fromUserId === insertGift.fromUserId &&
+      gift.relationshipId === insertGift.relationshipId &&
+      gift.boardDayKey === insertGift.boardDayKey
+    );
     
-    for (let i = 0; i < memoriesToSelect; i++) {
-      if (remainingMemories.length === 0) break;
+    if (alreadyGifted) {
+      throw new GiftLimitError();
+    }
+    
+    const id = this.currentId.memoryGift++;
+    const gift: MemoryGift = {
+      ...insertGift,
+      id,
+      note: insertGift.note ?? null,
+      createdAt: new Date()
+    };
+    
+    this.memoryGifts.set(id, gift);
+    
+    return gift;
+  }
+
+  async getMemoryGiftsForDay(relationshipId: number, boardDayKey: string): Promise<MemoryGift[]> {
+    return Array.from(this.memoryGifts.values()).filter(gift =>
+      gift.relationshipId === relationshipId && gift.boardDayKey === boardDayKey
+    );
+  }
+  
+  // Reaction operations
+  async addReaction(insertReaction: InsertReaction): Promise<Memory> {
+    const memory = this.memories.get(insertReaction.memoryId);
+    
+    if (!memory) {
+      throw new Error(`Memory with ID ${insertReaction.memoryId} not found`);
+    }
+    
+    const sameDay = Array.from(this.reactions.values()).filter(reaction =>
+      reaction.userId === insertReaction.userId &&
+      reaction.relationshipId === insertReaction.relationshipId &&
+      reaction.type === insertReaction.type &&
+      reaction.dayKey === insertReaction.dayKey
+    );
+    
+    if (sameDay.some(reaction => reaction.memoryId === insertReaction.memoryId)) {
+      throw new ReactionError("already_reacted");
+    }
+    
+    const takenSlots = new Set(sameDay.map(reaction => reaction.slot));
+    const slot = Array.from({ length: REACTION_DAILY_LIMITS[insertReaction.type] }, (_, index) => index)
+      .find(index => !takenSlots.has(index));
+    
+    if (slot === undefined) {
+      throw new ReactionError("daily_limit");
+    }
+    
+    const id = this.currentId.reaction++;
+    this.reactions.set(id, { ...insertReaction, id, slot, createdAt: new Date() });
+    
+    return this.recountReactions(memory);
+  }
+
+  async removeReaction(userId: number, memoryId: number, type: ReactionType, dayKey: string): Promise<Memory | undefined> {
+    const reaction = Array.from(this.reactions.values()).find(reaction =>
+      reaction.userId === userId && reaction.memoryId === memoryId && reaction.type === type && reaction.dayKey === dayKey
+    );
+    const memory = this.memories.get(memoryId);
+    
+    if (!reaction || !memory) {
+      return undefined;
+    }
+    
+    this.reactions.delete(reaction.id);
+    
+    return this.recountReactions(memory);
+  }
+
+  async getMemoryReactors(memoryId: number): Promise<MemoryReactor[]> {
+    const reactors: MemoryReactor[] = [];
+    
+    for (const reaction of Array.from(this.reactions.values())) {
+      const user = this.users.get(reaction.userId);
+      if (reaction.memoryId === memoryId && user) {
+        const { passwordHash, ...publicUser } = user;
+        reactors.push({ user: publicUser, type: reaction.type, dayKey: reaction.dayKey, createdAt: reaction.createdAt });
+      }
+    }
+    
+    return reactors;
+  }
+
+  async getRemainingReactions(userId: number, relationshipId: number, dayKey: string): Promise<Record<ReactionType, number>> {
+    const sameDay = Array.from(this.reactions.values()).filter(reaction =>
+      reaction.userId === userId && reaction.relationshipId === relationshipId && reaction.dayKey === dayKey
+    );
+    
+    return getRemainingByType(sameDay.map(reaction => reaction.type));
+  }
+  
+  // Comment operations
+  async createComment(insertComment: InsertComment): Promise<Comment> {
+    const id = this.currentId.comment++;
+    const comment: Comment = {
+      ...insertComment,
+      id,
+      audioUrl: insertComment.audioUrl ?? null,
+      createdAt: new Date()
+    };
+    
+    this.comments.set(id, comment);
+    
+    return comment;
+  }
+
+  async getCommentsByMemory(memoryId: number): Promise<CommentWithAuthor[]> {
+    const thread: CommentWithAuthor[] = [];
+    
+    for (const comment of Array.from(this.comments.values())) {
+      const user = this.users.get(comment.userId);
+      if (comment.memoryId === memoryId && user) {
+        const { passwordHash, ...author } = user;
+        thread.push({ ...comment, author });
+      }
+    }
+    
+    return thread;
+  }
+
+  async getCommentCounts(relationshipId: number): Promise<Record<number, number>> {
+    const counts: Record<number, number> = {};
+    
+    for (const comment of Array.from(this.comments.values())) {
+      if (comment.relationshipId === relationshipId) {
+        counts[comment.memoryId] = (counts[comment.memoryId] ?? 0) + 1;
+      }
+    }
+    
+    return counts;
+  }
+  
+  // Notification operations
+  async createNotifications(insertNotifications: InsertNotification[]): Promise<Notification[]> {
+    return insertNotifications.map(insertNotification => {
+      const id = this.currentId.notification++;
+      const notification: Notification = {
+        ...insertNotification,
+        id,
+        actorUserId: insertNotification.actorUserId ?? null,
+        memoryId: insertNotification.memoryId ?? null,
+        reactionType: insertNotification.reactionType ?? null,
+        readAt: null,
+        createdAt: new Date()
+      };
       
-      // Calculate total weight
-      const totalWeight = remainingMemories.reduce(
-        (sum, memory) => sum + (memory.thumbsUpCount + 1), // +1 to ensure all memories have a chance
-        0
-      );
+      this.notifications.set(id, notification);
       
-      // Generate a random value between 0 and totalWeight
-      let random = Math.random() * totalWeight;
+      return notification;
+    });
+  }
+
+  async getNotifications(userId: number): Promise<NotificationWithActor[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, NOTIFICATION_FEED_LIMIT)
+      .map(notification => {
+        const user = notification.actorUserId !== null ? this.users.get(notification.actorUserId) : undefined;
+        
+        if (!user) {
+          return { ...notification, actor: null };
+        }
+        
+        const { passwordHash, ...actor } = user;
+        return { ...notification, actor };
+      });
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    
+    if (!notification || notification.userId !== userId) {
+      return undefined;
+    }
+    
+    const updatedNotification = { ...notification, readAt: notification.readAt ?? new Date() };
+    this.notifications.set(id, updatedNotification);
+    
+    return updatedNotification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const readAt = new Date();
+    let updated = 0;
+    
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId === userId && !notification.readAt) {
+        this.notifications.set(notification.id, { ...notification, readAt });
+        updated++;
+      }
+    }
+    
+    return updated;
+  }
+
+  private recountReactions(memory: Memory): Memory {
+    const groups = Array.from(this.reactions.values())
+      .filter(reaction => reaction.memoryId === memory.id)
+      .map(reaction => ({ type: reaction.type, count: 1 }));
+    const reactionCounts = tallyReactionCounts(groups, memory.legacyThumbsUps);
+    const updatedMemory = { ...memory, reactionCounts, thumbsUpCount: reactionCounts.thumbs_up };
+    
+    this.memories.set(memory.id, updatedMemory);
+    
+    return updatedMemory;
+  }
+}
+
+// What's left of each type's daily budget, given the types used that day
+function getRemainingByType(usedTypes: ReactionType[]): Record<ReactionType, number> {
+  const remaining = { ...REACTION_DAILY_LIMITS };
+  
+  for (const type of usedTypes) {
+    remaining[type] = Math.max(0, remaining[type] - 1);
+  }
+  
+  return remaining;
+}
+
+// A memory's reactionCounts from its ledger, grouped by type, plus the
+// thumbs-ups it had before the ledger
+function tallyReactionCounts(groups: { type: ReactionType; count: number }[], legacyThumbsUps: number): ReactionCounts {
+  const reactionCounts = { ...EMPTY_REACTION_COUNTS, thumbs_up: legacyThumbsUps };
+  
+  for (const group of groups) {
+    reactionCounts[group.type] += group.count;
+  }
+  
+  return reactionCounts;
+}
+
+// Recount a memory's reactions from the ledger, inside the transaction that
+// changed it
+export async function recountReactions(tx: Database, memoryId: number): Promise<Memory> {
+  const [memory] = await tx
+    .select()
+    .from(memories)
+    .where(eq(memories.id, memoryId))
+    .for("update");
+  
+  if (!memory) {
+    throw new Error(`Memory with ID ${memoryId} not found`);
+  }
+  
+  const groups = await tx
+    .select({ type: reactions.type, count: count() })
+    .from(reactions)
+    .where(eq(reactions.memoryId, memoryId))
+    .groupBy(reactions.type);
+  const reactionCounts = tallyReactionCounts(groups, memory.legacyThumbsUps);
+  const [updatedMemory] = await tx
+    .update(memories)
+    .set({ reactionCounts, thumbsUpCount: reactionCounts.thumbs_up })
+    .where(eq(memories.id, memoryId))
+    .returning();
+  
+  return updatedMemory;
+}
+
+// Remove a member inside a transaction, handing ownership over if the owner
+// leaves. False if they weren't a member.
+async function deleteMembership(tx: Database, userId: number, relationshipId: number): Promise<boolean> {
+  // Lock the relationship row so ownership hand-over can't race with joins
+  await tx
+    .select({ id: relationships.id })
+    .from(relationships)
+    .where(eq(relationships.id, relationshipId))
+    .for("update");
+  
+  const memberships = resolveImplicitOwner(await tx
+    .select()
+    .from(userRelationships)
+    .where(eq(userRelationships.relationshipId, relationshipId)));
+  const membership = memberships.find(m => m.userId === userId);
+  
+  if (!membership) {
+    return false;
+  }
+  
+  await tx.delete(userRelationships).where(eq(userRelationships.id, membership.id));
+  
+  // Hand ownership over (this also persists an implicit owner role)
+  const remaining = memberships.filter(m => m.id !== membership.id);
+  const successor = membership.role === "owner" ? findSuccessor(remaining) : undefined;
+  
+  if (successor) {
+    await tx
+      .update(userRelationships)
+      .set({ role: "owner" })
+      .where(eq(userRelationships.id, successor.id));
+  }
+  
+  return true;
+}
+
+// Hide a member's memories in a relationship, returning the ones it hid
+async function hideMemories(db: Database, userId: number, relationshipId: number): Promise<Memory[]> {
+  return db
+    .update(memories)
+    .set({ hiddenAt: new Date() })
+    .where(and(
+      eq(memories.userId, userId),
+      eq(memories.relationshipId, relationshipId),
+      isNull(memories.hiddenAt)
+    ))
+    .returning();
+}
+
+// Add a member inside a transaction, enforcing the member cap
+async function insertMembership(
+  tx: Database, 
+  userId: number, 
+  relationshipId: number, 
+  role: RelationshipRole
+): Promise<UserRelationship> {
+  // Lock the relationship row so concurrent joins can't overshoot the cap
+  const [relationship] = await tx
+    .select()
+    .from(relationships)
+    .where(eq(relationships.id, relationshipId))
+    .for("update");
+  
+  if (!relationship) {
+    throw new Error(`Relationship with ID ${relationshipId} not found`);
+  }
+  
+  const limit = getMemberLimit(relationship);
+  const [{ memberCount }] = await tx
+    .select({ memberCount: count() })
+    .from(userRelationships)
+    .where(eq(userRelationships.relationshipId, relationshipId));
+  
+  if (memberCount >= limit) {
+    throw new RelationshipFullError(limit);
+  }
+  
+  const [userRelationship] = await tx
+    .insert(userRelationships)
+    .values({ userId, relationshipId, role })
+    .returning();
+  return userRelationship;
+}
+
+export class DrizzleStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, pool: pg.Pool) {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
+  // User operations
+  async getUserById(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id)).limit(1);
+    return user;
+  }
+
+  async getUserByUid(uid: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.uid, uid)).limit(1);
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email)).limit(1);
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUserTimeZone(id: number, timeZone: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ timeZone })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Relationship operations
+  async getRelationshipById(id: number): Promise<Relationship | undefined> {
+    const [relationship] = await this.db
+      .select()
+      .from(relationships)
+      .where(eq(relationships.id, id))
+      .limit(1);
+    return relationship;
+  }
+
+  async getRelationshipByInviteCode(code: string): Promise<Relationship | undefined> {
+    const [relationship] = await this.db
+      .select()
+      .from(relationships)
+      .where(eq(relationships.inviteCode, code))
+      .limit(1);
+    return relationship;
+  }
+
+  async getUserRelationship(userId: number): Promise<Relationship | undefined> {
+    const [row] = await this.db
+      .select({ relationship: relationships })
+      .from(userRelationships)
+      .innerJoin(relationships, eq(userRelationships.relationshipId, relationships.id))
+      .where(eq(userRelationships.userId, userId))
+      .orderBy(userRelationships.id)
+      .limit(1);
+    return row?.relationship;
+  }
+
+  async getUserRelationships(userId: number): Promise<Relationship[]> {
+    const rows = await this.db
+      .select({ relationship: relationships })
+      .from(userRelationships)
+      .innerJoin(relationships, eq(userRelationships.relationshipId, relationships.id))
+      .where(eq(userRelationships.userId, userId))
+      .orderBy(userRelationships.id);
+    return rows.map(row => row.relationship);
+  }
+
+  async createRelationship(name?: string, options: CreateRelationshipOptions = {}): Promise<Relationship> {
+    const [relationship] = await this.db
+      .insert(relationships)
+      .values({ 
+        name: name || null, 
+        inviteCode: nanoid(10),
+        mode: options.mode || "couple",
+        memberLimit: options.memberLimit ?? null,
+        timeZone: options.timeZone ?? null
+      })
+      .returning();
+    return relationship;
+  }
+
+  async updateRelationshipName(id: number, name: string): Promise<Relationship | undefined> {
+    const [relationship] = await this.db
+      .update(relationships)
+      .set({ name })
+      .where(eq(relationships.id, id))
+      .returning();
+    return relationship;
+  }
+
+  async updateRelationshipMemberLimit(
+    id: number, 
+    mode: RelationshipMode, 
+    memberLimit: number | null
+  ): Promise<Relationship | undefined> {
+    const [relationship] = await this.db
+      .update(relationships)
+      .set({ mode, memberLimit })
+      .where(eq(relationships.id, id))
+      .returning();
+    return relationship;
+  }
+
+  async updateRelationshipQuotaPolicy(id: number, quotaPolicy: QuotaPolicy): Promise<Relationship | undefined> {
+    const [relationship] = await this.db
+      .update(relationships)
+      .set({ quotaPolicy })
+      .where(eq(relationships.id, id))
+      .returning();
+    return relationship;
+  }
+
+  async updateRelationshipSelectionConfig(id: number, selectionConfig: SelectionConfig): Promise<Relationship | undefined> {
+    const [relationship] = await this.db
+      .update(relationships)
+      .set({ selectionConfig })
+      .where(eq(relationships.id, id))
+      .returning();
+    return relationship;
+  }
+
+  async updateRelationshipTimeZone(id: number, timeZone: string): Promise<Relationship | undefined> {
+    const [relationship] = await this.db
+      .update(relationships)
+      .set({ timeZone })
+      .where(eq(relationships.id, id))
+      .returning();
+    return relationship;
+  }
+
+  async regenerateInviteCode(id: number): Promise<Relationship | undefined> {
+    const [relationship] = await this.db
+      .update(relationships)
+      .set({ inviteCode: nanoid(10) })
+      .where(eq(relationships.id, id))
+      .returning();
+    return relationship;
+  }
+
+  async addUserToRelationship(
+    userId: number, 
+    relationshipId: number, 
+    role: RelationshipRole = "member"
+  ): Promise<UserRelationship> {
+    return this.db.transaction(tx => insertMembership(tx, userId, relationshipId, role));
+  }
+
+  async isUserInRelationship(userId: number, relationshipId: number): Promise<boolean> {
+    return !!(await this.getMembership(userId, relationshipId));
+  }
+
+  async removeUserFromRelationship(userId: number, relationshipId: number): Promise<boolean> {
+    return this.db.transaction(tx => deleteMembership(tx, userId, relationshipId));
+  }
+
+  async departRelationship(event: InsertRelationshipEvent & { memoryPolicy: DepartureMemoryPolicy }): Promise<Memory[] | undefined> {
+    return this.db.transaction(async (tx) => {
+      if (!(await deleteMembership(tx, event.subjectUserId, event.relationshipId))) {
+        return undefined;
+      }
+      
+      const hiddenMemories = event.memoryPolicy === "kept"
+        ? []
+        : await hideMemories(tx, event.subjectUserId, event.relationshipId);
+      
+      await tx.insert(relationshipEvents).values(event);
+      
+      return hiddenMemories;
+    });
+  }
+
+  async getMembership(userId: number, relationshipId: number): Promise<UserRelationship | undefined> {
+    const memberships = await this.db
+      .select()
+      .from(userRelationships)
+      .where(eq(userRelationships.relationshipId, relationshipId));
+    return resolveImplicitOwner(memberships).find(m => m.userId === userId);
+  }
+
+  async getRelationshipMembers(relationshipId: number): Promise<RelationshipMember[]> {
+    const rows = await this.db
+      .select({ membership: userRelationships, user: users })
+      .from(userRelationships)
+      .innerJoin(users, eq(userRelationships.userId, users.id))
+      .where(eq(userRelationships.relationshipId, relationshipId))
+      .orderBy(asc(userRelationships.id));
+    
+    const memberships = resolveImplicitOwner(rows.map(row => row.membership));
+    
+    return rows.map((row, index) => {
+      const { passwordHash, ...publicUser } = row.user;
+      return {
+        user: publicUser,
+        role: memberships[index].role as RelationshipRole,
+        joinedAt: row.membership.joinedAt,
+        lastSeenAt: row.membership.lastSeenAt,
+        nickname: row.membership.nickname
+      };
+    });
+  }
+
+  async markMemoriesSeen(userId: number, relationshipId: number): Promise<UserRelationship | undefined> {
+    const [membership] = await this.db
+      .update(userRelationships)
+      .set({ lastSeenAt: new Date() })
+      .where(and(
+        eq(userRelationships.userId, userId),
+        eq(userRelationships.relationshipId, relationshipId)
+      ))
+      .returning();
+    return membership;
+  }
+
+  async updateMemberNickname(userId: number, relationshipId: number, nickname: string): Promise<UserRelationship | undefined> {
+    const [membership] = await this.db
+      .update(userRelationships)
+      .set({ nickname })
+      .where(and(
+        eq(userRelationships.userId, userId),
+        eq(userRelationships.relationshipId, relationshipId)
+      ))
+      .returning();
+    return membership;
+  }
+
+  // Relationship event operations
+  async createRelationshipEvent(insertEvent: InsertRelationshipEvent): Promise<RelationshipEvent> {
+    const [event] = await this.db.insert(relationshipEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getRelationshipEvents(relationshipId: number): Promise<RelationshipEvent[]> {
+    return this.db
+      .select()
+      .from(relationshipEvents)
+      .where(eq(relationshipEvents.relationshipId, relationshipId))
+      .orderBy(desc(relationshipEvents.id));
+  }
+
+  // Invite operations
+  async createInvite(insertInvite: InsertInvite): Promise<Invite> {
+    const [invite] = await this.db.insert(invites).values(insertInvite).returning();
+    return invite;
+  }
+
+  async getInviteByCode(code: string): Promise<Invite | undefined> {
+    const [invite] = await this.db.select().from(invites).where(eq(invites.code, code)).limit(1);
+    return invite;
+  }
+
+  async getInvitesByRelationship(relationshipId: number): Promise<Invite[]> {
+    return this.db
+      .select()
+      .from(invites)
+      .where(eq(invites.relationshipId, relationshipId))
+      .orderBy(desc(invites.id));
+  }
+
+  async revokeInvite(id: number): Promise<Invite | undefined> {
+    const [invite] = await this.db
+      .update(invites)
+      .set({ revokedAt: sql`coalesce(${invites.revokedAt}, now())` })
+      .where(eq(invites.id, id))
+      .returning();
+    return invite;
+  }
+
+  async redeemInvite(inviteId: number, userId: number): Promise<Relationship> {
+    return this.db.transaction(async (tx) => {
+      // Lock the invite so two people can't both take its last use
+      const [invite] = await tx
+        .select()
+        .from(invites)
+        .where(eq(invites.id, inviteId))
+        .for("update");
+      
+      if (!invite) {
+        throw new Error(`Invite with ID ${inviteId} not found`);
+      }
+      
+      const status = getInviteStatus(invite);
+      
+      if (status !== "valid") {
+        throw new InviteError(status);
+      }
+      
+      await insertMembership(tx, userId, invite.relationshipId, "member");
+      
+      await tx
+        .update(invites)
+        .set({ useCount: sql`${invites.useCount} + 1` })
+        .where(eq(invites.id, inviteId));
+      
+      const [relationship] = await tx
+        .select()
+        .from(relationships)
+        .where(eq(relationships.id, invite.relationshipId));
+      return relationship;
+    });
+  }
+
+  // Memory operations
+  async getMemoryById(id: number): Promise<Memory | undefined> {
+    const [memory] = await this.db.select().from(memories).where(eq(memories.id, id)).limit(1);
+    return memory;
+  }
+
+  async getMemoriesByRelationship(relationshipId: number): Promise<Memory[]> {
+    return this.db
+      .select()
+      .from(memories)
+      .where(and(
+        eq(memories.relationshipId, relationshipId),
+        isNull(memories.hiddenAt)
+      ))
+      .orderBy(memories.id);
+  }
+
+  async getNewMemories(userId: number, relationshipId: number): Promise<Memory[]> {
+    const membership = await this.getMembership(userId, relationshipId);
+    
+    if (!membership) {
+      return [];
+    }
+    
+    return this.db
+      .select()
+      .from(memories)
+      .where(and(
+        eq(memories.relationshipId, relationshipId),
+        isNull(memories.hiddenAt),
+        ne(memories.userId, userId),
+        membership.lastSeenAt
+          ? gt(memories.createdAt, membership.lastSeenAt)
+          : eq(memories.isNew, true)
+      ))
+      .orderBy(desc(memories.createdAt));
+  }
+
+  async getMemoriesByUser(userId: number): Promise<Memory[]> {
+    return this.db
+      .select()
+      .from(memories)
+      .where(eq(memories.userId, userId))
+      .orderBy(memories.id);
+  }
+
+  async getMemoriesByUserAndDate(userId: number, dayKey: string, timeZone: string): Promise<Memory[]> {
+    const { start, end } = getDayRange(dayKey, timeZone);
+    
+    return this.db
+      .select()
+      .from(memories)
+      .where(and(
+        eq(memories.userId, userId),
+        gte(memories.createdAt, start),
+        lt(memories.createdAt, end)
+      ))
+      .orderBy(memories.id);
+  }
+
+  async createMemory(insertMemory: InsertMemory): Promise<Memory> {
+    const [memory] = await this.db.insert(memories).values(insertMemory).returning();
+    return memory;
+  }
+
+  async createMemoryWithinQuota(insertMemory: InsertMemory, allowance: UploadAllowance): Promise<Memory> {
+    if (allowance.limit === null) {
+      return this.createMemory(insertMemory);
+    }
+    
+    return this.db.transaction(async (tx) => {
+      const [memory] = await tx.insert(memories).values(insertMemory).returning();
+      
+      // Try each slot in order. A slot already held (or being claimed by a
+      // concurrent upload) makes the insert a no-op, so we move on to the next
+      for (const slotKey of getUploadSlotKeys(allowance)) {
+        const [slot] = await tx
+          .insert(uploadSlots)
+          .values({
+            userId: insertMemory.userId,
+            relationshipId: insertMemory.relationshipId,
+            slotKey,
+            memoryId: memory.id
+          })
+          .onConflictDoNothing()
+          .returning();
+        
+        if (slot) {
+          return memory;
+        }
+      }
+      
+      // Rolls the memory insert back with it
+      throw new UploadQuotaError(allowance);
+    });
+  }
+
+  async getClaimedUploadSlots(userId: number, relationshipId: number, slotKeys: string[]): Promise<UploadSlot[]> {
+    if (slotKeys.length === 0) {
+      return [];
+    }
+    
+    return this.db
+      .select()
+      .from(uploadSlots)
+      .where(and(
+        eq(uploadSlots.userId, userId),
+        eq(uploadSlots.relationshipId, relationshipId),
+        inArray(uploadSlots.slotKey, slotKeys)
+      ))
+      .orderBy(asc(uploadSlots.id));
+  }
+
+  async setMemoryRetired(memoryId: number, retiredByUserId: number | null): Promise<Memory> {
+    const [memory] = await this.db
+      .update(memories)
+      .set({
+        retiredAt: retiredByUserId === null ? null : new Date(),
+        retiredByUserId
+      })
+      .where(eq(memories.id, memoryId))
+      .returning();
+    
+    if (!memory) {
+      throw new Error(`Memory with ID ${memoryId} not found`);
+    }
+    
+    return memory;
+  }
+
+  async hideUserMemoriesInRelationship(userId: number, relationshipId: number): Promise<Memory[]> {
+    return hideMemories(this.db, userId, relationshipId);
+  }
+
+  // Daily memory operations
+  async getDailyMemoriesByRelationshipAndDate(relationshipId: number, dayKey: string, timeZone: string): Promise<BoardMemory[]> {
+    const { start, end } = getDayRange(dayKey, timeZone);
+    
+    const rows = await this.db
+      .select({ memory: memories, selection: dailyMemories.selection, reroll: dailyMemories.reroll })
+      .from(dailyMemories)
+      .innerJoin(memories, eq(dailyMemories.memoryId, memories.id))
+      .where(and(
+        eq(dailyMemories.relationshipId, relationshipId),
+        gte(dailyMemories.date, start),
+        lt(dailyMemories.date, end),
+        isNull(memories.hiddenAt)
+      ))
+      .orderBy(dailyMemories.id);
+    return keepLatestReroll(rows).map(row => ({ ...row.memory, selection: row.selection }));
+  }
+
+  async getDailyMemoriesByRelationship(relationshipId: number): Promise<DailyMemory[]> {
+    return this.db
+      .select()
+      .from(dailyMemories)
+      .where(eq(dailyMemories.relationshipId, relationshipId))
+      .orderBy(dailyMemories.id);
+  }
+
+  async getBoardHistoryDays(relationshipId: number, timeZone: string): Promise<string[]> {
+    const rows = await this.db
+      .selectDistinct({ date: dailyMemories.date })
+      .from(dailyMemories)
+      .where(eq(dailyMemories.relationshipId, relationshipId));
+    return getHistoryDays(rows.map(row => row.date), timeZone);
+  }
+
+  async getBoardHistory(relationshipId: number, dayKey: string, timeZone: string): Promise<BoardHistoryEntry[]> {
+    const { start, end } = getDayRange(dayKey, timeZone);
+    
+    const rows = await this.db
+      .select({ dailyMemory: dailyMemories, memory: memories })
+      .from(dailyMemories)
+      .innerJoin(memories, eq(dailyMemories.memoryId, memories.id))
+      .where(and(
+        eq(dailyMemories.relationshipId, relationshipId),
+        gte(dailyMemories.date, start),
+        lt(dailyMemories.date, end),
+        isNull(memories.hiddenAt)
+      ))
+      .orderBy(dailyMemories.id);
+    return groupBoardHistory(rows, dayKey);
+  }
+
+  async createDailyMemory(insertDailyMemory: InsertDailyMemory): Promise<DailyMemory> {
+    const [dailyMemory] = await this.db.insert(dailyMemories).values(insertDailyMemory).returning();
+    return dailyMemory;
+  }
+
+  async selectMemoriesForDay(relationship: Relationship, dayKey: string, reroll: number = 0): Promise<BoardMemory[]> {
+    const allMemories = await this.getMemoriesByRelationship(relationship.id);
+    const history = await this.getDailyMemoriesByRelationship(relationship.id);
+    const gifts = await this.getMemoryGiftsForDay(relationship.id, dayKey);
+    
+    return selectBoardForDay(relationship, allMemories, history, gifts, dayKey, reroll);
+  }
+
+  async getOrDrawDailyBoard(relationship: Relationship, dayKey: string): Promise<{ memories: BoardMemory[]; drawn: boolean }> {
+    const timeZone = resolveTimeZone(relationship.timeZone);
+    const existing = await this.getDailyMemoriesByRelationshipAndDate(relationship.id, dayKey, timeZone);
+    
+    if (existing.length > 0) {
+      return { memories: existing, drawn: false };
+    }
+    
+    const drawn = await this.db.transaction(async (tx) => {
+      // A concurrent request claiming the same day waits on the unique
+      // constraint until this one commits, then finds the claim taken
+      const [claim] = await tx
+        .insert(dailyBoards)
+        .values({ relationshipId: relationship.id, dayKey })
+        .onConflictDoNothing()
+        .returning();
+      
+      if (!claim) {
+        return false;
+      }
+      
+      const selectedMemories = await this.selectMemoriesForDay(relationship, dayKey);
+      
+      if (selectedMemories.length > 0) {
+        await tx.insert(dailyMemories).values(selectedMemories.map(memory => ({
+          relationshipId: relationship.id,
+          memoryId: memory.id,
+          selection: memory.selection
+        })));
+      }
+      
+      return true;
+    });
+    
+    // Read back whichever board was saved, ours or the one that beat us to it
+    const memories = await this.getDailyMemoriesByRelationshipAndDate(relationship.id, dayKey, timeZone);
+    return { memories, drawn };
+  }
+
+  async rerollDailyBoard(relationship: Relationship, dayKey: string, userId: number): Promise<BoardMemory[]> {
+    const { start, end } = getDayRange(dayKey, resolveTimeZone(relationship.timeZone));
+    const { rerollsPerDay } = resolveSelectionConfig(relationship.selectionConfig);
+    
+    return this.db.transaction(async (tx) => {
+      // Each pass sees the claims committed before it, so a lost race only
+      // means another reroll got in first and we go for the one after it
+      for (;;) {
+        // Boards from before claims only left their rows
+        const [claimed] = await tx
+          .select({ reroll: max(dailyBoards.reroll) })
+          .from(dailyBoards)
+          .where(and(eq(dailyBoards.relationshipId, relationship.id), eq(dailyBoards.dayKey, dayKey)));
+        const [shown] = await tx
+          .select({ reroll: max(dailyMemories.reroll) })
+          .from(dailyMemories)
+          .where(and(
+            eq(dailyMemories.relationshipId, relationship.id),
+            gte(dailyMemories.date, start),
+            lt(dailyMemories.date, end)
+          ));
+        
+        if (claimed.reroll === null && shown.reroll === null) {
+          throw new RerollError("no_board");
+        }
+        
+        const [used] = await tx
+          .select({ count: count() })
+          .from(dailyBoards)
+          .where(and(
+            eq(dailyBoards.relationshipId, relationship.id),
+            eq(dailyBoards.dayKey, dayKey),
+            eq(dailyBoards.rerolledByUserId, userId)
+          ));
+        
+        if (used.count >= rerollsPerDay) {
+          throw new RerollError("reroll_limit");
+        }
+        
+        const reroll = Math.max(claimed.reroll ?? 0, shown.reroll ?? 0) + 1;
+        const [claim] = await tx
+          .insert(dailyBoards)
+          .values({ relationshipId: relationship.id, dayKey, reroll, rerolledByUserId: userId })
+          .onConflictDoNothing()
+          .returning();
+        
+        if (!claim) {
+          continue;
+        }
+        
+        const selectedMemories = await this.selectMemoriesForDay(relationship, dayKey, reroll);
+        
+        if (selectedMemories.length > 0) {
+          await tx.insert(dailyMemories).values(selectedMemories.map(memory => ({
+            relationshipId: relationship.id,
+            memoryId: memory.id,
+            reroll,
+            selection: memory.selection
+          })));
+        }
+        
+        return selectedMemories;
+      }
+    });
+  }
+
+  async getRerollsUsed(userId: number, relationshipId: number, dayKey: string): Promise<number> {
+    const [used] = await this.db
+      .select({ count: count() })
+      .from(dailyBoards)
+      .where(and(
+        eq(dailyBoards.relationshipId, relationshipId),
+        eq(dailyBoards.dayKey, dayKey),
+        eq(dailyBoards.rerolledByUserId, userId)
+      ));
+    return used.count;
+  }
+  
+  // Gift operations
+  async createMemoryGift(insertGift: InsertMemoryGift): Promise<MemoryGift> {
+    // The unique constraint turns a second gift for the same board into a no-op
+    const [gift] = await this.db
+      .insert(memoryGifts)
+      .values(insertGift)
+      .onConflictDoNothing()
+      .returning();
+    
+    if (!gift) {
+      throw new GiftLimitError();
+    }
+    
+    return gift;
+  }
+
+  async getMemoryGiftsForDay(relationshipId: number, boardDayKey: string): Promise<MemoryGift[]> {
+    return this.db
+      .select()
+      .from(memoryGifts)
+      .where(and(
+        eq(memoryGifts.relationshipId, relationshipId),
+        eq(memoryGifts.boardDayKey, boardDayKey)
+      ))
+      .orderBy(asc(memoryGifts.id));
+  }
+  
+  // Reaction operations
+  async addReaction(insertReaction: InsertReaction): Promise<Memory> {
+    return this.db.transaction(async (tx) => {
+      const hasReacted = async () => {
+        const [existing] = await tx
+          .select({ id: reactions.id })
+          .from(reactions)
+          .where(and(
+            eq(reactions.userId, insertReaction.userId),
+            eq(reactions.memoryId, insertReaction.memoryId),
+            eq(reactions.type, insertReaction.type),
+            eq(reactions.dayKey, insertReaction.dayKey)
+          ));
+        return !!existing;
+      };
       
-      // Find the memory that corresponds to this random value
-      let selectedIndex = 0;
-      for (let j = 0; j < remainingMemories.length; j++) {
-        random -= (remainingMemories[j].thumbsUpCount + 1);
-        if (random <= 0) {
-          selectedIndex = j;
-          break;
+      if (await hasReacted()) {
+        throw new ReactionError("already_reacted");
+      }
+      
+      // Try each slot in order; one held by an earlier (or concurrent)
+      // reaction makes the insert a no-op, so we move on to the next
+      for (let slot = 0; slot < REACTION_DAILY_LIMITS[insertReaction.type]; slot++) {
+        const [reaction] = await tx
+          .insert(reactions)
+          .values({ ...insertReaction, slot })
+          .onConflictDoNothing()
+          .returning();
+        
+        if (reaction) {
+          return recountReactions(tx, insertReaction.memoryId);
+        }
+        
+        // The no-op may have come from the one-per-day constraint instead:
+        // the same reaction sent twice at once. That one has committed by now.
+        if (await hasReacted()) {
+          throw new ReactionError("already_reacted");
         }
       }
       
-      // Add the selected memory to our result
-      selectedMemories.push(remainingMemories[selectedIndex]);
+      throw new ReactionError("daily_limit");
+    });
+  }
+
+  async removeReaction(userId: number, memoryId: number, type: ReactionType, dayKey: string): Promise<Memory | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [reaction] = await tx
+        .delete(reactions)
+        .where(and(
+          eq(reactions.userId, userId),
+          eq(reactions.memoryId, memoryId),
+          eq(reactions.type, type),
+          eq(reactions.dayKey, dayKey)
+        ))
+        .returning();
       
-      // Remove the selected memory from remaining options
-      remainingMemories.splice(selectedIndex, 1);
+      if (!reaction) {
+        return undefined;
+      }
+      
+      return recountReactions(tx, memoryId);
+    });
+  }
+
+  async getMemoryReactors(memoryId: number): Promise<MemoryReactor[]> {
+    const rows = await this.db
+      .select({ reaction: reactions, user: users })
+      .from(reactions)
+      .innerJoin(users, eq(reactions.userId, users.id))
+      .where(eq(reactions.memoryId, memoryId))
+      .orderBy(asc(reactions.id));
+    
+    return rows.map(row => {
+      const { passwordHash, ...publicUser } = row.user;
+      return { user: publicUser, type: row.reaction.type, dayKey: row.reaction.dayKey, createdAt: row.reaction.createdAt };
+    });
+  }
+
+  async getRemainingReactions(userId: number, relationshipId: number, dayKey: string): Promise<Record<ReactionType, number>> {
+    const sameDay = await this.db
+      .select({ type: reactions.type })
+      .from(reactions)
+      .where(and(
+        eq(reactions.userId, userId),
+        eq(reactions.relationshipId, relationshipId),
+        eq(reactions.dayKey, dayKey)
+      ));
+    
+    return getRemainingByType(sameDay.map(reaction => reaction.type));
+  }
+  
+  // Comment operations
+  async createComment(insertComment: InsertComment): Promise<Comment> {
+    const [comment] = await this.db
+      .insert(comments)
+      .values(insertComment)
+      .returning();
+    
+    return comment;
+  }
+
+  async getCommentsByMemory(memoryId: number): Promise<CommentWithAuthor[]> {
+    const rows = await this.db
+      .select({ comment: comments, user: users })
+      .from(comments)
+      .innerJoin(users, eq(comments.userId, users.id))
+      .where(eq(comments.memoryId, memoryId))
+      .orderBy(asc(comments.id));
+    
+    return rows.map(row => {
+      const { passwordHash, ...author } = row.user;
+      return { ...row.comment, author };
+    });
+  }
+
+  async getCommentCounts(relationshipId: number): Promise<Record<number, number>> {
+    const rows = await this.db
+      .select({ memoryId: comments.memoryId, comments: count() })
+      .from(comments)
+      .where(eq(comments.relationshipId, relationshipId))
+      .groupBy(comments.memoryId);
+    
+    return Object.fromEntries(rows.map(row => [row.memoryId, row.comments]));
+  }
+  
+  // Notification operations
+  async createNotifications(insertNotifications: InsertNotification[]): Promise<Notification[]> {
+    if (insertNotifications.length === 0) {
+      return [];
     }
     
-    return selectedMemories;
+    return this.db
+      .insert(notifications)
+      .values(insertNotifications)
+      .returning();
+  }
+
+  async getNotifications(userId: number): Promise<NotificationWithActor[]> {
+    const rows = await this.db
+      .select({ notification: notifications, user: users })
+      .from(notifications)
+      .leftJoin(users, eq(notifications.actorUserId, users.id))
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.id))
+      .limit(NOTIFICATION_FEED_LIMIT);
+    
+    return rows.map(row => {
+      if (!row.user) {
+        return { ...row.notification, actor: null };
+      }
+      
+      const { passwordHash, ...actor } = row.user;
+      return { ...row.notification, actor };
+    });
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const [notification] = await this.db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(
+        eq(notifications.id, id),
+        eq(notifications.userId, userId)
+      ))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const updated = await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt)
+      ))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+}
+
+// STORAGE_BACKEND selects where data lives: "memory" (default, lost on restart)
+// or "postgres" (uses DATABASE_URL, see db.ts)
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND || "memory";
+  
+  switch (backend) {
+    case "memory":
+      return new MemStorage();
+    case "postgres": {
+      const { db, pool } = createDatabase();
+      return new DrizzleStorage(db, pool);
+    }
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}". Expected "memory" or "postgres".`);
   }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
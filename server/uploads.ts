@@ -0,0 +1,60 @@
+import express, { type Express, type Request, type Response } from "express";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { nanoid } from "nanoid";
+import { requireUser } from "./auth";
+
+// Photos and voice notes for installs without Firebase Storage (session
+// sign-in). Files are written to UPLOAD_DIR and served back to signed-in users
+// under /uploads; names are random, so only the members who got a memory's URL
+// can find its file.
+const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || "uploads");
+
+const MAX_UPLOAD_SIZE = "25mb";
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/heic": ".heic",
+  "audio/webm": ".webm",
+  "audio/ogg": ".ogg",
+  "audio/mpeg": ".mp3",
+  "audio/mp4": ".m4a",
+  "audio/wav": ".wav",
+};
+
+export function setupUploads(app: Express) {
+  app.post(
+    "/api/uploads",
+    requireUser,
+    express.raw({ type: Object.keys(EXTENSIONS), limit: MAX_UPLOAD_SIZE }),
+    async (req: Request, res: Response) => {
+      try {
+        // Codec parameters, e.g. "audio/webm;codecs=opus", don't change the file type
+        const contentType = (req.headers["content-type"] ?? "").split(";")[0].trim();
+        const extension = EXTENSIONS[contentType];
+
+        if (!extension || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Upload an image or audio file" });
+        }
+
+        const filename = `${nanoid(24)}${extension}`;
+        await mkdir(UPLOAD_DIR, { recursive: true });
+        await writeFile(path.join(UPLOAD_DIR, filename), req.body);
+
+        return res.status(201).json({ url: `/uploads/${filename}` });
+      } catch (error) {
+        return res.status(500).json({ message: "Failed to store upload" });
+      }
+    }
+  );
+
+  app.use("/uploads", requireUser, express.static(UPLOAD_DIR, { index: false }));
+
+  // Keep missing files from falling through to the client app
+  app.use("/uploads", (_req: Request, res: Response) => {
+    res.status(404).json({ message: "File not found" });
+  });
+}
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getDayKey, getDayRange } from "./day-key";
+
+test("a day runs from local midnight to local midnight", () => {
+  const { start, end } = getDayRange("2024-06-01", "Asia/Kolkata");
+
+  assert.equal(start.toISOString(), "2024-05-31T18:30:00.000Z");
+  assert.equal(end.toISOString(), "2024-06-01T18:30:00.000Z");
+});
+
+test("a day is an hour short when DST begins", () => {
+  const { start, end } = getDayRange("2024-03-10", "America/New_York");
+
+  assert.equal(start.toISOString(), "2024-03-10T05:00:00.000Z");
+  assert.equal(end.toISOString(), "2024-03-11T04:00:00.000Z");
+});
+
+test("a day starts at the DST change when the change skips midnight", () => {
+  // Santiago went from 00:00 (UTC-4) straight to 01:00 (UTC-3)
+  const { start, end } = getDayRange("2024-09-08", "America/Santiago");
+
+  assert.equal(start.toISOString(), "2024-09-08T04:00:00.000Z");
+  assert.equal(end.toISOString(), "2024-09-09T03:00:00.000Z");
+  assert.equal(getDayKey(start, "America/Santiago"), "2024-09-08");
+  assert.equal(getDayKey(new Date(start.getTime() - 1000), "America/Santiago"), "2024-09-07");
+  assert.equal(getDayRange("2024-09-07", "America/Santiago").end.toISOString(), start.toISOString());
+});
@@ -0,0 +1,139 @@
+import { z } from "zod";
+
+// Day keys are calendar dates written as YYYY-MM-DD. Every "today" in the app
+// (upload quotas, the daily board, new memories, reaction limits) is a day key
+// in the relationship's IANA time zone, so an upload lands on the same day no
+// matter whose browser or which server is looking at it.
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+export const dayKeySchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, "Use the YYYY-MM-DD format");
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const timeZoneSchema = z.string().min(1).refine(isValidTimeZone, "Unknown time zone");
+
+// Relationships created before time zones existed count days in UTC
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+// The time zone of whoever is running this code (the browser, on the client)
+export function getLocalTimeZone(): string {
+  return resolveTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+}
+
+// Creating formatters is slow, and the same few zones are used over and over
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+function getWallClock(date: Date, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return parts;
+}
+
+export function getDayKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getWallClock(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// Day keys are plain dates, so date arithmetic on them is done in UTC
+function parseDayKey(dayKey: string): Date {
+  return new Date(`${dayKey}T00:00:00Z`);
+}
+
+export function addDays(dayKey: string, days: number): string {
+  const date = parseDayKey(dayKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+// Whole days from one day key to another; negative if "to" comes first
+export function getDaysBetween(from: string, to: string): number {
+  return Math.round((parseDayKey(to).getTime() - parseDayKey(from).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+// 0 is Sunday, as with Date.getDay
+export function getWeekday(dayKey: string): number {
+  return parseDayKey(dayKey).getUTCDay();
+}
+
+// How far the zone's wall clock is ahead of UTC at a given instant
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getWallClock(date, timeZone);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The first instant whose local date is dayKey. Usually that's local midnight,
+// but where a DST change skips midnight (America/Santiago, for one) the day
+// starts at the change itself.
+function getStartOfDay(dayKey: string, timeZone: string): Date {
+  const utcMidnight = parseDayKey(dayKey).getTime();
+  const guess = utcMidnight - getTimeZoneOffset(new Date(utcMidnight), timeZone);
+
+  // Check the offset again at the guess in case a DST change falls in between
+  let start = utcMidnight - getTimeZoneOffset(new Date(guess), timeZone);
+
+  if (getDayKey(new Date(start), timeZone) === dayKey) {
+    return new Date(start);
+  }
+
+  // Midnight didn't happen: we landed late on the day before. Midnight under
+  // that day's offset is already past the change, so the start lies between.
+  let before = start;
+  start = utcMidnight - getTimeZoneOffset(new Date(before), timeZone);
+
+  while (start - before > 1000) {
+    const middle = before + Math.floor((start - before) / 2);
+
+    if (getDayKey(new Date(middle), timeZone) === dayKey) {
+      start = middle;
+    } else {
+      before = middle;
+    }
+  }
+
+  return new Date(Math.ceil(start / 1000) * 1000);
+}
+
+// The instants a day starts and ends in a time zone, for range queries
+export function getDayRange(dayKey: string, timeZone: string): { start: Date; end: Date } {
+  return {
+    start: getStartOfDay(dayKey, timeZone),
+    end: getStartOfDay(addDays(dayKey, 1), timeZone),
+  };
+}
@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { addDays, getWeekday } from "./day-key";
+
+// Upload quotas. The server and the Firestore client both evaluate a
+// relationship's policy through this module, so the two can't drift apart.
+//
+// Every upload claims a "slot": a key that is unique per user and relationship.
+// A period with a limit of N has N slot keys, and an upload succeeds only if it
+// can claim one of them in the same transaction as the memory write.
+
+export const MAX_DAILY_UPLOADS = 10;
+export const MAX_WEEKLY_UPLOADS = 50;
+
+export const QuotaPeriod = z.enum(["day", "week"]);
+export type QuotaPeriod = z.infer<typeof QuotaPeriod>;
+
+// Month and day of the anniversary, e.g. "06-21"
+export const anniversaryDateSchema = z.string().regex(/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, "Use the MM-DD format");
+
+export const quotaPolicySchema = z.object({
+  period: QuotaPeriod,
+  dailyLimit: z.number().int().min(1).max(MAX_DAILY_UPLOADS), // Per day, in day mode
+  weekendLimit: z.number().int().min(1).max(MAX_DAILY_UPLOADS).nullable(), // Saturdays and Sundays; null means dailyLimit
+  weeklyLimit: z.number().int().min(1).max(MAX_WEEKLY_UPLOADS), // Per Monday-to-Sunday week, in week mode
+  anniversaryDate: anniversaryDateSchema.nullable(), // No limit at all on this day
+});
+
+export type QuotaPolicy = z.infer<typeof quotaPolicySchema>;
+
+// What every relationship had before policies existed: one memory a day
+export const DEFAULT_QUOTA_POLICY: QuotaPolicy = {
+  period: "day",
+  dailyLimit: 1,
+  weekendLimit: null,
+  weeklyLimit: 7,
+  anniversaryDate: null,
+};
+
+// How many uploads a member has in the period containing a given day
+export interface UploadAllowance {
+  period: QuotaPeriod;
+  periodKey: string; // The day key, or "week:" plus the week's Monday
+  limit: number | null; // null means unlimited
+}
+
+// Relationships store null until someone edits the policy
+export function resolveQuotaPolicy(policy: QuotaPolicy | null | undefined): QuotaPolicy {
+  return { ...DEFAULT_QUOTA_POLICY, ...policy };
+}
+
+function isWeekend(dayKey: string): boolean {
+  const weekday = getWeekday(dayKey);
+  return weekday === 0 || weekday === 6;
+}
+
+function getWeekStartKey(dayKey: string): string {
+  const daysSinceMonday = (getWeekday(dayKey) + 6) % 7;
+  return addDays(dayKey, -daysSinceMonday);
+}
+
+// dayKey is today in the relationship's time zone (see shared/day-key.ts)
+export function getUploadAllowance(policy: QuotaPolicy | null | undefined, dayKey: string): UploadAllowance {
+  const resolved = resolveQuotaPolicy(policy);
+
+  // Anniversary uploads don't count against the week either
+  if (resolved.anniversaryDate && dayKey.slice(5) === resolved.anniversaryDate) {
+    return { period: "day", periodKey: dayKey, limit: null };
+  }
+
+  if (resolved.period === "week") {
+    return { period: "week", periodKey: `week:${getWeekStartKey(dayKey)}`, limit: resolved.weeklyLimit };
+  }
+
+  const limit = isWeekend(dayKey) && resolved.weekendLimit !== null
+    ? resolved.weekendLimit
+    : resolved.dailyLimit;
+
+  return { period: "day", periodKey: dayKey, limit };
+}
+
+// The first slot of a day is the bare day key, which keeps uploads made under
+// the old one-a-day rule counting against the new policy
+export function getUploadSlotKeys(allowance: UploadAllowance): string[] {
+  if (allowance.limit === null) {
+    return [];
+  }
+
+  return Array.from({ length: allowance.limit }, (_, index) =>
+    index === 0 ? allowance.periodKey : `${allowance.periodKey}#${index + 1}`
+  );
+}
+
+export function getQuotaExceededMessage(allowance: UploadAllowance): string {
+  if (allowance.period === "week") {
+    return `You've shared all ${allowance.limit} memories for this week. Your budget resets on Monday!`;
+  }
+
+  if (allowance.limit === 1) {
+    return "You've already shared a memory today. Come back tomorrow!";
+  }
+
+  return `You've shared all ${allowance.limit} memories for today. Come back tomorrow!`;
+}
+
+function pluralizeMemories(count: number): string {
+  return count === 1 ? "1 memory" : `${count} memories`;
+}
+
+// One-line summary for the relationship settings
+export function describeQuotaPolicy(policy: QuotaPolicy | null | undefined): string {
+  const resolved = resolveQuotaPolicy(policy);
+  const parts: string[] = [];
+
+  if (resolved.period === "week") {
+    parts.push(`${pluralizeMemories(resolved.weeklyLimit)} a week`);
+  } else {
+    parts.push(`${pluralizeMemories(resolved.dailyLimit)} a day`);
+
+    if (resolved.weekendLimit !== null && resolved.weekendLimit !== resolved.dailyLimit) {
+      parts.push(`${resolved.weekendLimit} on weekends`);
+    }
+  }
+
+  if (resolved.anniversaryDate) {
+    const [month, day] = resolved.anniversaryDate.split("-").map(Number);
+    const anniversary = new Date(Date.UTC(2000, month - 1, day)).toLocaleDateString(undefined, {
+      month: "long",
+      day: "numeric",
+      timeZone: "UTC",
+    });
+    parts.push(`no limit on ${anniversary}`);
+  }
+
+  return parts.join(" · ");
+}
@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+// Reactions members can leave on a memory. The server and the Firestore client
+// both read types, budgets and counts through this module.
+//
+// Each type has its own daily budget per member and relationship, and its own
+// weight in the daily board draw (see reactionWeights in shared/selection.ts).
+//
+// Memories keep a count per type. Memories from before reaction types only
+// have a thumbsUpCount; resolveReactionCounts reads that as thumbs-ups until
+// the memory's next reaction writes the counts out.
+
+export const ReactionType = z.enum(["heart", "laugh", "cry", "thumbs_up"]);
+export type ReactionType = z.infer<typeof ReactionType>;
+
+// Per member, relationship and day
+export const REACTION_DAILY_LIMITS: Record<ReactionType, number> = {
+  heart: 1,
+  laugh: 2,
+  cry: 1,
+  thumbs_up: 2,
+};
+
+export const REACTION_EMOJI: Record<ReactionType, string> = {
+  heart: "❤️",
+  laugh: "😂",
+  cry: "😢",
+  thumbs_up: "👍",
+};
+
+export const REACTION_LABELS: Record<ReactionType, string> = {
+  heart: "Love",
+  laugh: "Laugh",
+  cry: "Cry",
+  thumbs_up: "Thumbs up",
+};
+
+export const reactionCountsSchema = z.object({
+  heart: z.number().int().min(0),
+  laugh: z.number().int().min(0),
+  cry: z.number().int().min(0),
+  thumbs_up: z.number().int().min(0),
+});
+
+export type ReactionCounts = z.infer<typeof reactionCountsSchema>;
+
+export const EMPTY_REACTION_COUNTS: ReactionCounts = {
+  heart: 0,
+  laugh: 0,
+  cry: 0,
+  thumbs_up: 0,
+};
+
+// Counts stored before a type existed lack it, and memories from before
+// reaction types have none at all, just their thumbs-up count
+export function resolveReactionCounts(
+  counts: Partial<ReactionCounts> | null | undefined,
+  legacyThumbsUpCount: number = 0
+): ReactionCounts {
+  if (!counts) {
+    return { ...EMPTY_REACTION_COUNTS, thumbs_up: Math.max(legacyThumbsUpCount, 0) };
+  }
+
+  return { ...EMPTY_REACTION_COUNTS, ...counts };
+}
+
+// Adds delta reactions of one type, never going below zero
+export function adjustReactionCounts(counts: ReactionCounts, type: ReactionType, delta: number): ReactionCounts {
+  return { ...counts, [type]: Math.max(counts[type] + delta, 0) };
+}
+
+export function getTotalReactions(counts: ReactionCounts): number {
+  return ReactionType.options.reduce((total, type) => total + counts[type], 0);
+}
@@ -1,25 +1,66 @@
-import { pgTable, text, serial, integer, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, unique, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { QuotaPolicy, UploadAllowance } from "./quota";
+import { selectionExplanationSchema, type SelectionConfig, type SelectionExplanation } from "./selection";
+import { timeZoneSchema } from "./day-key";
+import { ReactionType, type ReactionCounts } from "./reactions";
 
 // User table
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
-  uid: text("uid").notNull().unique(), // Firebase UID
+  uid: text("uid").notNull().unique(), // Firebase UID, or "local:<id>" for session-only accounts
   displayName: text("display_name").notNull(),
   email: text("email").notNull().unique(),
   photoURL: text("photo_url"),
+  passwordHash: text("password_hash"), // Only set for email/password session accounts
+  timeZone: text("time_zone"), // IANA zone; new relationships start out in their creator's zone
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
 });
 
+// Public profile data accepted from clients (never includes credentials)
+export const registerUserSchema = insertUserSchema.omit({
+  passwordHash: true,
+}).extend({
+  timeZone: timeZoneSchema.nullable().optional(),
+});
+
+export const sessionRegisterSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(6),
+  displayName: z.string().min(1).optional(),
+  timeZone: timeZoneSchema.optional(),
+});
+
+export const updateTimeZoneSchema = z.object({
+  timeZone: timeZoneSchema,
+});
+
+// Relationship modes: a couple is capped at two members, a group at memberLimit
+export const RelationshipMode = z.enum(["couple", "group"]);
+export type RelationshipMode = z.infer<typeof RelationshipMode>;
+
+// Member roles: owners can rename, rotate invite codes and remove members
+export const RelationshipRole = z.enum(["owner", "member"]);
+export type RelationshipRole = z.infer<typeof RelationshipRole>;
+
+export const COUPLE_MEMBER_LIMIT = 2;
+export const DEFAULT_GROUP_MEMBER_LIMIT = 10;
+export const MAX_GROUP_MEMBER_LIMIT = 50;
+
 // Relationship table
 export const relationships = pgTable("relationships", {
   id: serial("id").primaryKey(),
   name: text("name"),
-  inviteCode: text("invite_code").notNull().unique(),
+  inviteCode: text("invite_code").notNull().unique(), // Legacy code, only honoured until the first invite is issued
+  mode: text("mode").notNull().default("couple"), // 'couple', 'group'
+  memberLimit: integer("member_limit"), // Only used by groups; null means the default
+  quotaPolicy: jsonb("quota_policy").$type<QuotaPolicy>(), // null means DEFAULT_QUOTA_POLICY
+  timeZone: text("time_zone"), // IANA zone that decides when a day starts; null means UTC
+  selectionConfig: jsonb("selection_config").$type<SelectionConfig>(), // null means DEFAULT_SELECTION_CONFIG
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -28,15 +69,111 @@ export const insertRelationshipSchema = createInsertSchema(relationships).omit({
   createdAt: true,
 });
 
+export const memberLimitSchema = z.object({
+  mode: RelationshipMode,
+  memberLimit: z.number().int().min(2).max(MAX_GROUP_MEMBER_LIMIT).nullable().optional(),
+});
+
+// How many members a relationship may have
+export function getMemberLimit(relationship: Pick<Relationship, "mode" | "memberLimit">): number {
+  if (relationship.mode === "group") {
+    return relationship.memberLimit ?? DEFAULT_GROUP_MEMBER_LIMIT;
+  }
+  
+  return COUPLE_MEMBER_LIMIT;
+}
+
+// Invites: short-lived, limited-use codes that can be revoked
+export const invites = pgTable("invites", {
+  id: serial("id").primaryKey(),
+  relationshipId: integer("relationship_id").notNull().references(() => relationships.id),
+  code: text("code").notNull().unique(),
+  createdByUserId: integer("created_by_user_id").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at"), // null means it never expires
+  maxUses: integer("max_uses"), // null means unlimited
+  useCount: integer("use_count").notNull().default(0),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertInviteSchema = createInsertSchema(invites).omit({
+  id: true,
+  useCount: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export const DEFAULT_INVITE_EXPIRY_HOURS = 72;
+export const MAX_INVITE_EXPIRY_HOURS = 30 * 24;
+
+// Options accepted when issuing an invite
+export const createInviteSchema = z.object({
+  expiresInHours: z.number().int().min(1).max(MAX_INVITE_EXPIRY_HOURS).nullable().default(DEFAULT_INVITE_EXPIRY_HOURS),
+  maxUses: z.number().int().min(1).max(MAX_GROUP_MEMBER_LIMIT).nullable().default(1),
+});
+
+export const InviteStatus = z.enum(["valid", "expired", "revoked", "used_up"]);
+export type InviteStatus = z.infer<typeof InviteStatus>;
+
+export const INVITE_STATUS_MESSAGES: Record<Exclude<InviteStatus, "valid">, string> = {
+  expired: "This invite has expired. Ask for a new one.",
+  revoked: "This invite was revoked. Ask for a new one.",
+  used_up: "This invite has already been used. Ask for a new one.",
+};
+
+// What someone sees on the /join/:code page before signing in
+export type InvitePreview = {
+  status: InviteStatus;
+  expiresAt: Date | null;
+  relationship: { name: string | null; mode: string };
+  inviter: { displayName: string; photoURL: string | null } | null;
+};
+
+// Whether an invite can still be redeemed
+export function getInviteStatus(
+  invite: { expiresAt: Date | null; maxUses: number | null; useCount: number; revokedAt: Date | null },
+  now: Date = new Date()
+): InviteStatus {
+  if (invite.revokedAt) {
+    return "revoked";
+  }
+  
+  if (invite.expiresAt && invite.expiresAt.getTime() <= now.getTime()) {
+    return "expired";
+  }
+  
+  if (invite.maxUses !== null && invite.useCount >= invite.maxUses) {
+    return "used_up";
+  }
+  
+  return "valid";
+}
+
 // UserRelationship join table
 export const userRelationships = pgTable("user_relationships", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   relationshipId: integer("relationship_id").notNull().references(() => relationships.id),
+  role: text("role").notNull().default("member"), // 'owner', 'member'
+  joinedAt: timestamp("joined_at").notNull().defaultNow(),
+  // The member's read receipt: memories shared after this are new to them, and
+  // memories shared before it show as seen to their authors. Null until the
+  // member first catches up.
+  lastSeenAt: timestamp("last_seen_at"),
+  nickname: text("nickname"), // What the member goes by in this relationship
 });
 
 export const insertUserRelationshipSchema = createInsertSchema(userRelationships).omit({
   id: true,
+  joinedAt: true,
+  lastSeenAt: true,
+  nickname: true,
+});
+
+export const MAX_NICKNAME_LENGTH = 30;
+
+export const updateNicknameSchema = z.object({
+  nickname: z.string().trim().min(1).max(MAX_NICKNAME_LENGTH),
 });
 
 // Memory types enum
@@ -53,13 +190,182 @@ export const memories = pgTable("memories", {
   caption: text("caption"), // Optional caption for images
   imageUrl: text("image_url"), // URL to image file (specific to image type)
   createdAt: timestamp("created_at").notNull().defaultNow(),
-  thumbsUpCount: integer("thumbs_up_count").notNull().default(0),
-  isNew: boolean("is_new").notNull().default(true), // Flag to indicate a newly added memory
+  thumbsUpCount: integer("thumbs_up_count").notNull().default(0), // reactionCounts.thumbs_up, for older readers
+  // Thumbs-ups from before the reactions ledger, which has no rows for them.
+  // Set once by server/migrate-reaction-counts.ts.
+  legacyThumbsUps: integer("legacy_thumbs_ups").notNull().default(0),
+  // Per reaction type: the reactions ledger, grouped by type, plus
+  // legacyThumbsUps. Recounted in the transaction that changes the ledger;
+  // null until the memory's first reaction.
+  reactionCounts: jsonb("reaction_counts").$type<ReactionCounts>(),
+  // Before per-member read receipts: new to everyone until anyone viewed it.
+  // Only read for members who haven't caught up since (lastSeenAt null).
+  isNew: boolean("is_new").notNull().default(true),
+  hiddenAt: timestamp("hidden_at"), // Set when the author left and took their memories with them
+  retiredAt: timestamp("retired_at"), // Set when a member took the memory out of the daily rotation
+  retiredByUserId: integer("retired_by_user_id").references(() => users.id),
 });
 
 export const insertMemorySchema = createInsertSchema(memories).omit({
   id: true,
   thumbsUpCount: true,
+  legacyThumbsUps: true,
+  reactionCounts: true,
+  isNew: true,
+  createdAt: true,
+  hiddenAt: true,
+  retiredAt: true,
+  retiredByUserId: true,
+});
+
+// Retired memories stay in the timeline but never come up on a daily board
+export const memoryRetirementSchema = z.object({
+  retired: z.boolean(),
+});
+
+// The reaction ledger: one row per reaction. Members can leave each type of
+// reaction on a memory once a day, and the slot constraint enforces each
+// type's daily budget the same way upload slots do: a reaction takes one of
+// the REACTION_DAILY_LIMITS[type] slots of its day and type. Rows from before
+// reaction types were all thumbs-ups, which the type column's default records.
+export const reactions = pgTable("reactions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  memoryId: integer("memory_id").notNull().references(() => memories.id),
+  relationshipId: integer("relationship_id").notNull().references(() => relationships.id),
+  type: text("type").$type<ReactionType>().notNull().default("thumbs_up"),
+  dayKey: text("day_key").notNull(), // Day of the reaction in the relationship's time zone
+  slot: integer("slot").notNull(), // 0 to REACTION_DAILY_LIMITS[type] - 1
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("reactions_user_memory_day_type").on(table.userId, table.memoryId, table.dayKey, table.type),
+  unique("reactions_user_relationship_day_type_slot").on(table.userId, table.relationshipId, table.dayKey, table.type, table.slot),
+]);
+
+export const insertReactionSchema = createInsertSchema(reactions).omit({
+  id: true,
+  slot: true,
+  createdAt: true,
+}).extend({
+  type: ReactionType,
+});
+
+// Body of the react and undo routes; plain thumbs-up requests predate types
+export const reactionRequestSchema = z.object({
+  type: ReactionType.default("thumbs_up"),
+});
+
+export const ReactionErrorReason = z.enum(["daily_limit", "already_reacted"]);
+export type ReactionErrorReason = z.infer<typeof ReactionErrorReason>;
+
+export const REACTION_ERROR_MESSAGES: Record<ReactionErrorReason, string> = {
+  daily_limit: "You've used all your reactions of this kind for this relationship today!",
+  already_reacted: "You've already left this reaction on this memory today.",
+};
+
+export const RerollErrorReason = z.enum(["no_board", "reroll_limit"]);
+export type RerollErrorReason = z.infer<typeof RerollErrorReason>;
+
+export const REROLL_ERROR_MESSAGES: Record<RerollErrorReason, string> = {
+  no_board: "Today's board hasn't been drawn yet.",
+  reroll_limit: "You've used all your rerolls for today.",
+};
+
+// Comments members leave on a memory: text, a voice note, or both. Like
+// memory media, voice notes are uploaded by the client and stored as a URL.
+export const comments = pgTable("comments", {
+  id: serial("id").primaryKey(),
+  memoryId: integer("memory_id").notNull().references(() => memories.id),
+  relationshipId: integer("relationship_id").notNull().references(() => relationships.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  content: text("content").notNull(), // Empty for a voice note on its own
+  audioUrl: text("audio_url"), // Voice note
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCommentSchema = createInsertSchema(comments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const MAX_COMMENT_LENGTH = 1000;
+
+// What a member sends when commenting on a memory
+export const createCommentSchema = z.object({
+  content: z.string().trim().max(MAX_COMMENT_LENGTH).default(""),
+  // Firebase Storage URL, or a file uploaded to this server (see server/uploads.ts)
+  audioUrl: z.string().url().or(z.string().regex(/^\/uploads\/[\w-]+\.\w+$/)).nullable().optional(),
+}).refine(comment => comment.content.length > 0 || !!comment.audioUrl, {
+  message: "Write something or record a voice note",
+  path: ["content"],
+});
+
+export const NotificationType = z.enum([
+  "memory_uploaded",
+  "memory_reacted",
+  "memory_commented",
+  "board_ready",
+  "member_joined",
+]);
+export type NotificationType = z.infer<typeof NotificationType>;
+
+// A member's notification feed: one row per thing another member did that the
+// recipient should hear about. The daily board has no actor; whoever drew it
+// first is already looking at it.
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // Recipient
+  relationshipId: integer("relationship_id").notNull().references(() => relationships.id),
+  type: text("type").$type<NotificationType>().notNull(),
+  actorUserId: integer("actor_user_id").references(() => users.id),
+  memoryId: integer("memory_id").references(() => memories.id), // Set for memory notifications
+  reactionType: text("reaction_type").$type<ReactionType>(), // Set for reactions
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+}).extend({
+  type: NotificationType,
+  reactionType: ReactionType.nullable().optional(),
+});
+
+// The feed only goes back this far
+export const NOTIFICATION_FEED_LIMIT = 50;
+
+// Where a notification takes you. Memory notifications open the timeline at
+// the memory (?memory=, see memory-timeline.tsx); the rest open the
+// relationship's home.
+export function getNotificationLink(notification: {
+  relationshipId: number;
+  memoryId: number | string | null;
+}): string {
+  if (notification.memoryId !== null) {
+    return `/timeline/${notification.relationshipId}?memory=${encodeURIComponent(notification.memoryId)}`;
+  }
+  
+  return `/home/${notification.relationshipId}`;
+}
+
+// One row per upload a user has made against their quota (see shared/quota.ts).
+// The unique constraint is what enforces the limit: claiming a slot that is
+// already taken fails the same transaction that inserts the memory.
+export const uploadSlots = pgTable("upload_slots", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  relationshipId: integer("relationship_id").notNull().references(() => relationships.id),
+  slotKey: text("slot_key").notNull(), // From getUploadSlotKeys, e.g. "2024-06-21" or "week:2024-06-17#3"
+  memoryId: integer("memory_id").notNull().references(() => memories.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("upload_slots_user_relationship_slot").on(table.userId, table.relationshipId, table.slotKey),
+]);
+
+export const insertUploadSlotSchema = createInsertSchema(uploadSlots).omit({
+  id: true,
   createdAt: true,
 });
 
@@ -69,25 +375,180 @@ export const dailyMemories = pgTable("daily_memories", {
   relationshipId: integer("relationship_id").notNull().references(() => relationships.id),
   memoryId: integer("memory_id").notNull().references(() => memories.id),
   date: timestamp("date").notNull().defaultNow(),
+  reroll: integer("reroll").notNull().default(0), // 0 for the day's first board, then 1, 2... for rerolls
+  selection: jsonb("selection").$type<SelectionExplanation>(), // Why the draw picked it; null on older rows
 });
 
 export const insertDailyMemorySchema = createInsertSchema(dailyMemories).omit({
   id: true,
   date: true,
+}).extend({
+  selection: selectionExplanationSchema.nullable().optional(),
+});
+
+// One row per board drawn for a relationship's day. The unique constraint is
+// the claim on the draw: when partners open the app together, only the request
+// that inserts the row draws the board, and the others read that board back.
+// Rerolls claim the next reroll number the same way, and count against the
+// allowance of the member who made them.
+export const dailyBoards = pgTable("daily_boards", {
+  id: serial("id").primaryKey(),
+  relationshipId: integer("relationship_id").notNull().references(() => relationships.id),
+  dayKey: text("day_key").notNull(), // Day key in the relationship's time zone
+  reroll: integer("reroll").notNull().default(0), // Matches dailyMemories.reroll
+  rerolledByUserId: integer("rerolled_by_user_id").references(() => users.id), // Null on the day's first board
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("daily_boards_relationship_day_reroll").on(table.relationshipId, table.dayKey, table.reroll),
+]);
+
+export const insertDailyBoardSchema = createInsertSchema(dailyBoards).omit({
+  id: true,
+  createdAt: true,
+});
+
+// A past memory a member hand-picked for the next day's board, where it gets
+// a guaranteed place. The unique constraint allows one gift per member per
+// day: gifts made on a day all land on the board of the day after.
+export const memoryGifts = pgTable("memory_gifts", {
+  id: serial("id").primaryKey(),
+  relationshipId: integer("relationship_id").notNull().references(() => relationships.id),
+  memoryId: integer("memory_id").notNull().references(() => memories.id),
+  fromUserId: integer("from_user_id").notNull().references(() => users.id),
+  note: text("note"), // Optional message shown with the memory
+  boardDayKey: text("board_day_key").notNull(), // Day key of the board it lands on
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("memory_gifts_user_relationship_day").on(table.fromUserId, table.relationshipId, table.boardDayKey),
+]);
+
+export const insertMemoryGiftSchema = createInsertSchema(memoryGifts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const MAX_GIFT_NOTE_LENGTH = 200;
+
+// What a member sends when gifting a memory
+export const createGiftSchema = z.object({
+  note: z.string().trim().max(MAX_GIFT_NOTE_LENGTH).nullable().optional(),
+});
+
+// What happens to a departing member's memories:
+// kept - they stay in the relationship
+// hidden - they disappear from the relationship (but are not deleted)
+// exported - they are handed back as a download, then hidden
+export const DepartureMemoryPolicy = z.enum(["kept", "hidden", "exported"]);
+export type DepartureMemoryPolicy = z.infer<typeof DepartureMemoryPolicy>;
+
+export const RelationshipEventType = z.enum(["member_left", "member_removed"]);
+export type RelationshipEventType = z.infer<typeof RelationshipEventType>;
+
+export const departureSchema = z.object({
+  memoryPolicy: DepartureMemoryPolicy,
+});
+
+// Audit trail of membership changes
+export const relationshipEvents = pgTable("relationship_events", {
+  id: serial("id").primaryKey(),
+  relationshipId: integer("relationship_id").notNull().references(() => relationships.id),
+  type: text("type").notNull(), // 'member_left', 'member_removed'
+  actorUserId: integer("actor_user_id").notNull().references(() => users.id), // Who did it
+  subjectUserId: integer("subject_user_id").notNull().references(() => users.id), // Who left or was removed
+  memoryPolicy: text("memory_policy"), // 'kept', 'hidden', 'exported'
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertRelationshipEventSchema = createInsertSchema(relationshipEvents).omit({
+  id: true,
+  createdAt: true,
 });
 
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PublicUser = Omit<User, "passwordHash">;
 
 export type Relationship = typeof relationships.$inferSelect;
 export type InsertRelationship = z.infer<typeof insertRelationshipSchema>;
 
+export type Invite = typeof invites.$inferSelect;
+export type InsertInvite = z.infer<typeof insertInviteSchema>;
+export type CreateInviteOptions = z.infer<typeof createInviteSchema>;
+
 export type UserRelationship = typeof userRelationships.$inferSelect;
 export type InsertUserRelationship = z.infer<typeof insertUserRelationshipSchema>;
 
+export type RelationshipMember = {
+  user: PublicUser;
+  role: RelationshipRole;
+  joinedAt: Date;
+  lastSeenAt: Date | null;
+  nickname: string | null;
+};
+
 export type Memory = typeof memories.$inferSelect;
 export type InsertMemory = z.infer<typeof insertMemorySchema>;
 
+export type Reaction = typeof reactions.$inferSelect;
+export type InsertReaction = z.infer<typeof insertReactionSchema>;
+
+// Who reacted to a memory, how and when
+export type MemoryReactor = {
+  user: PublicUser;
+  type: ReactionType;
+  dayKey: string;
+  createdAt: Date;
+};
+
+export type Comment = typeof comments.$inferSelect;
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+
+// A comment in a memory's thread, with who wrote it
+export type CommentWithAuthor = Comment & {
+  author: PublicUser;
+};
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+// A notification in a member's feed, with who it's about
+export type NotificationWithActor = Notification & {
+  actor: PublicUser | null;
+};
+
+export type UploadSlot = typeof uploadSlots.$inferSelect;
+export type InsertUploadSlot = z.infer<typeof insertUploadSlotSchema>;
+
 export type DailyMemory = typeof dailyMemories.$inferSelect;
 export type InsertDailyMemory = z.infer<typeof insertDailyMemorySchema>;
+
+export type DailyBoard = typeof dailyBoards.$inferSelect;
+export type InsertDailyBoard = z.infer<typeof insertDailyBoardSchema>;
+
+export type MemoryGift = typeof memoryGifts.$inferSelect;
+export type InsertMemoryGift = z.infer<typeof insertMemoryGiftSchema>;
+
+// How much of the upload quota a member has used in the current period
+export type UploadStatus = {
+  allowance: UploadAllowance;
+  used: number;
+  remaining: number | null; // null when there is no limit today
+  limitReached: boolean;
+  latestMemory: Memory | null; // Most recent upload in the current period
+};
+
+// A memory on a daily board, with why it was picked
+export type BoardMemory = Memory & {
+  selection: SelectionExplanation | null;
+};
+
+// One board as it was shown on a day: the first draw or a reroll
+export type BoardHistoryEntry = {
+  date: string; // Day key in the relationship's time zone
+  reroll: number;
+  memories: Memory[];
+};
+
+export type RelationshipEvent = typeof relationshipEvents.$inferSelect;
+export type InsertRelationshipEvent = z.infer<typeof insertRelationshipEventSchema>;
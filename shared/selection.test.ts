@@ -0,0 +1,148 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { EMPTY_REACTION_COUNTS } from "./reactions";
+import {
+  DEFAULT_SELECTION_CONFIG,
+  getSelectionSeed,
+  getSelectionWeight,
+  getYearsAgoToday,
+  isCoolingDown,
+  selectMemories,
+  type SelectionCandidate,
+  type SelectionConfig
+} from "./selection";
+
+const TODAY = "2024-06-01";
+
+function candidate(id: number, overrides: Partial<SelectionCandidate> = {}): SelectionCandidate {
+  return {
+    id,
+    type: "image",
+    reactionCounts: { ...EMPTY_REACTION_COUNTS },
+    createdDayKey: "2024-05-01",
+    lastShownDayKey: "2024-05-20",
+    retired: false,
+    gifted: false,
+    ...overrides
+  };
+}
+
+function config(overrides: Partial<SelectionConfig> = {}): SelectionConfig {
+  return { ...DEFAULT_SELECTION_CONFIG, ...overrides };
+}
+
+function pickedIds(picks: { candidate: SelectionCandidate }[]) {
+  return picks.map(pick => pick.candidate.id);
+}
+
+test("a seed always draws the same board", () => {
+  const candidates = [
+    candidate(1),
+    candidate(2, { reactionCounts: { ...EMPTY_REACTION_COUNTS, heart: 3 } }),
+    candidate(3, { lastShownDayKey: null }),
+    candidate(4),
+    candidate(5, { type: "text" }),
+    candidate(6, { lastShownDayKey: "2024-05-31" })
+  ];
+  const boardConfig = config({ boardSize: 3 });
+
+  const first = selectMemories(candidates, boardConfig, getSelectionSeed(7, TODAY), TODAY);
+  assert.deepEqual(pickedIds(first), [2, 4, 3]);
+  assert.deepEqual(first.map(pick => pick.explanation.reason), ["weighted", "weighted", "never_shown"]);
+
+  // Listing order doesn't matter, the draw sorts by ID
+  const reversed = selectMemories([...candidates].reverse(), boardConfig, getSelectionSeed(7, TODAY), TODAY);
+  assert.deepEqual(pickedIds(reversed), [2, 4, 3]);
+
+  const rerolled = selectMemories(candidates, boardConfig, getSelectionSeed(7, TODAY, 1), TODAY);
+  assert.deepEqual(pickedIds(rerolled), [2, 1, 3]);
+});
+
+test("memories in their cooldown only fill places the others leave", () => {
+  const boardConfig = config({ boardSize: 2, cooldownDays: 3 });
+  const yesterday = candidate(1, { lastShownDayKey: "2024-05-31" });
+
+  assert.equal(isCoolingDown(yesterday, boardConfig, TODAY), true);
+  assert.equal(isCoolingDown(candidate(2, { lastShownDayKey: "2024-05-29" }), boardConfig, TODAY), true);
+  assert.equal(isCoolingDown(candidate(3, { lastShownDayKey: "2024-05-28" }), boardConfig, TODAY), false);
+  assert.equal(isCoolingDown(candidate(4, { lastShownDayKey: TODAY }), boardConfig, TODAY), false);
+  assert.equal(isCoolingDown(yesterday, config({ cooldownDays: 0 }), TODAY), false);
+
+  const rested = [candidate(2), candidate(3)];
+  const picks = selectMemories([yesterday, ...rested], boardConfig, getSelectionSeed(1, TODAY), TODAY);
+  assert.deepEqual(pickedIds(picks).sort(), [2, 3]);
+
+  const short = selectMemories([yesterday, candidate(2)], boardConfig, getSelectionSeed(1, TODAY), TODAY);
+  assert.deepEqual(short.map(pick => [pick.candidate.id, pick.explanation.reason]), [[2, "weighted"], [1, "recent"]]);
+});
+
+test("memories never shown get the boost", () => {
+  const neverShown = candidate(1, { lastShownDayKey: null });
+
+  assert.equal(getSelectionWeight(neverShown, config({ neverShownBoost: 3 }), TODAY), 3);
+  assert.equal(getSelectionWeight(candidate(2), config({ neverShownBoost: 3 }), TODAY), 1);
+
+  const [pick] = selectMemories([neverShown], config({ boardSize: 1 }), getSelectionSeed(1, TODAY), TODAY);
+  assert.equal(pick.explanation.reason, "never_shown");
+
+  const [unboosted] = selectMemories([neverShown], config({ boardSize: 1, neverShownBoost: 1 }), getSelectionSeed(1, TODAY), TODAY);
+  assert.equal(unboosted.explanation.reason, "weighted");
+});
+
+test("reactions lose half their pull every half-life", () => {
+  const hearts = { ...EMPTY_REACTION_COUNTS, heart: 2 }; // Worth 2 each by default
+  const halfLifeConfig = config({ thumbsUpHalfLifeDays: 30 });
+
+  assert.equal(getSelectionWeight(candidate(1, { reactionCounts: hearts, createdDayKey: TODAY }), halfLifeConfig, TODAY), 5);
+  assert.equal(getSelectionWeight(candidate(1, { reactionCounts: hearts, createdDayKey: "2024-05-02" }), halfLifeConfig, TODAY), 3);
+  assert.equal(getSelectionWeight(candidate(1, { reactionCounts: hearts, createdDayKey: "2024-04-02" }), halfLifeConfig, TODAY), 2);
+  assert.equal(getSelectionWeight(candidate(1, { reactionCounts: hearts, createdDayKey: "2024-04-02" }), config({ thumbsUpHalfLifeDays: null }), TODAY), 5);
+});
+
+test("one place goes to a memory shared on this day in an earlier year", () => {
+  assert.equal(getYearsAgoToday("2022-06-01", TODAY), 2);
+  assert.equal(getYearsAgoToday("2024-06-01", TODAY), null);
+  assert.equal(getYearsAgoToday("2023-06-02", TODAY), null);
+
+  // Leap-day memories come back on February 28 when there is no February 29
+  assert.equal(getYearsAgoToday("2020-02-29", "2023-02-28"), 3);
+  assert.equal(getYearsAgoToday("2020-02-29", "2024-02-28"), null);
+  assert.equal(getYearsAgoToday("2020-02-29", "2024-02-29"), 4);
+
+  const anniversary = candidate(9, { createdDayKey: "2023-06-01", lastShownDayKey: "2024-05-31" });
+  const picks = selectMemories(
+    [candidate(1), candidate(2), anniversary],
+    config({ boardSize: 2 }),
+    getSelectionSeed(1, TODAY),
+    TODAY
+  );
+
+  assert.deepEqual(picks[0].candidate.id, 9);
+  assert.equal(picks[0].explanation.reason, "anniversary");
+  assert.equal(picks[0].explanation.probability, 1);
+});
+
+test("gifted memories take the first places", () => {
+  // Gifts skip the cooldown and the text filter
+  const gift = candidate(5, { gifted: true, type: "text", lastShownDayKey: "2024-05-31" });
+  const anniversary = candidate(9, { createdDayKey: "2023-06-01" });
+
+  const picks = selectMemories(
+    [candidate(1), candidate(2), anniversary, gift],
+    config({ boardSize: 2, includeText: false }),
+    getSelectionSeed(1, TODAY),
+    TODAY
+  );
+
+  assert.deepEqual(picks.map(pick => [pick.candidate.id, pick.explanation.reason]), [[5, "gifted"], [9, "anniversary"]]);
+});
+
+test("retired memories are never picked", () => {
+  const retired = candidate(1, { retired: true, lastShownDayKey: null });
+  const retiredGift = candidate(2, { retired: true, gifted: true });
+
+  assert.deepEqual(selectMemories([retired, retiredGift], config(), getSelectionSeed(1, TODAY), TODAY), []);
+
+  const picks = selectMemories([retired, retiredGift, candidate(3)], config(), getSelectionSeed(1, TODAY), TODAY);
+  assert.deepEqual(pickedIds(picks), [3]);
+});
@@ -0,0 +1,328 @@
+import { z } from "zod";
+import { getDaysBetween } from "./day-key";
+import { ReactionType, type ReactionCounts } from "./reactions";
+
+// The daily board draw. The server and the Firestore client both pick boards
+// through this module, and the draw is seeded by relationship and day, so
+// every member (and every backend) gets the same board for the same day.
+//
+// Selection is a weighted draw without replacement. A memory's weight starts
+// at its reactions plus one, so every memory keeps a chance of showing up;
+// each reaction counts for its type's reactionWeights entry, so a heart can
+// pull harder than a thumbs-up. The weight is then shaped by a relationship's
+// selection config:
+// - memories shown in the last cooldownDays days only fill leftover places
+// - memories that have never been on a board get neverShownBoost times the weight
+// - reactions lose half their pull every thumbsUpHalfLifeDays days
+//
+// One place is kept for an "on this day" memory: one shared on the same month
+// and day in an earlier year. If there isn't one, the place goes to the
+// normal draw.
+//
+// The config also says how many memories a board shows, whether text-only
+// memories can be picked, and how many times a day each member may reroll.
+//
+// Memories a member has retired from rotation are never picked. Memories a
+// member gifted to the board (see memoryGifts in shared/schema.ts) always are:
+// they take the first places, ahead of the on-this-day memory.
+//
+// Every pick comes with a SelectionExplanation, so the board can show members
+// why a memory is on it.
+
+export const MAX_BOARD_SIZE = 12;
+export const MAX_COOLDOWN_DAYS = 30;
+export const MAX_NEVER_SHOWN_BOOST = 5;
+export const MAX_THUMBS_UP_HALF_LIFE_DAYS = 365;
+export const MAX_REROLLS_PER_DAY = 5;
+export const MAX_REACTION_WEIGHT = 5;
+
+// How much one reaction of each type adds to a memory's weight; 0 ignores the type
+export const reactionWeightsSchema = z.object({
+  heart: z.number().min(0).max(MAX_REACTION_WEIGHT),
+  laugh: z.number().min(0).max(MAX_REACTION_WEIGHT),
+  cry: z.number().min(0).max(MAX_REACTION_WEIGHT),
+  thumbs_up: z.number().min(0).max(MAX_REACTION_WEIGHT),
+});
+
+export type ReactionWeights = z.infer<typeof reactionWeightsSchema>;
+
+export const selectionConfigSchema = z.object({
+  boardSize: z.number().int().min(1).max(MAX_BOARD_SIZE), // How many memories the board shows
+  cooldownDays: z.number().int().min(0).max(MAX_COOLDOWN_DAYS), // 0 turns the cooldown off
+  neverShownBoost: z.number().min(1).max(MAX_NEVER_SHOWN_BOOST), // 1 turns the boost off
+  thumbsUpHalfLifeDays: z.number().int().min(1).max(MAX_THUMBS_UP_HALF_LIFE_DAYS).nullable(), // Applies to every reaction type; null means reactions never fade
+  reactionWeights: reactionWeightsSchema,
+  rerollsPerDay: z.number().int().min(0).max(MAX_REROLLS_PER_DAY), // Per member; 0 turns rerolls off
+  includeText: z.boolean(), // Whether text-only memories can be picked
+});
+
+export type SelectionConfig = z.infer<typeof selectionConfigSchema>;
+
+export const DEFAULT_SELECTION_CONFIG: SelectionConfig = {
+  boardSize: 4,
+  cooldownDays: 3,
+  neverShownBoost: 2,
+  thumbsUpHalfLifeDays: 90,
+  reactionWeights: {
+    heart: 2,
+    laugh: 1.5,
+    cry: 1.5,
+    thumbs_up: 1,
+  },
+  rerollsPerDay: 0,
+  includeText: true,
+};
+
+// Relationships store null until someone edits the config, and configs saved
+// before reaction types have no reactionWeights
+export function resolveSelectionConfig(config: Partial<SelectionConfig> | null | undefined): SelectionConfig {
+  return {
+    ...DEFAULT_SELECTION_CONFIG,
+    ...config,
+    reactionWeights: { ...DEFAULT_SELECTION_CONFIG.reactionWeights, ...config?.reactionWeights },
+  };
+}
+
+// One-line summary for the relationship settings
+export function describeSelectionConfig(config: SelectionConfig | null | undefined): string {
+  const resolved = resolveSelectionConfig(config);
+  const parts = [`${resolved.boardSize} memories a day`];
+
+  if (resolved.cooldownDays > 0) {
+    parts.push(`${resolved.cooldownDays}-day rest after showing`);
+  }
+
+  if (resolved.thumbsUpHalfLifeDays !== null) {
+    parts.push(`reactions fade over ${resolved.thumbsUpHalfLifeDays} days`);
+  }
+
+  if (!resolved.includeText) {
+    parts.push("no text memories");
+  }
+
+  if (resolved.rerollsPerDay > 0) {
+    parts.push(resolved.rerollsPerDay === 1 ? "1 reroll a day" : `${resolved.rerollsPerDay} rerolls a day`);
+  }
+
+  return parts.join(" · ");
+}
+
+// The fields the draw looks at; callers carry their own memory alongside
+export interface SelectionCandidate {
+  id: string | number;
+  type: string; // 'text', 'image', 'audio'
+  reactionCounts: ReactionCounts;
+  createdDayKey: string; // Day the memory was shared, in the relationship's time zone
+  lastShownDayKey: string | null; // Last day it was on a board; null if never
+  retired: boolean; // Retired from rotation by a member
+  gifted: boolean; // Hand-picked by a member for this day's board
+}
+
+// Why a memory got its place:
+// gifted - a member hand-picked it for the day
+// anniversary - it was shared on this day in an earlier year
+// never_shown - drawn while it still had the never-shown boost
+// weighted - drawn by the weighted draw
+// recent - shown within the cooldown, used to fill a board that came up short
+export const SelectionReason = z.enum(["gifted", "anniversary", "never_shown", "weighted", "recent"]);
+export type SelectionReason = z.infer<typeof SelectionReason>;
+
+export const selectionExplanationSchema = z.object({
+  reason: SelectionReason,
+  weight: z.number(), // The memory's weight when it was drawn
+  probability: z.number().min(0).max(1), // Its chance of being drawn at that point
+});
+
+export type SelectionExplanation = z.infer<typeof selectionExplanationSchema>;
+
+export interface SelectionPick<T extends SelectionCandidate> {
+  candidate: T;
+  explanation: SelectionExplanation;
+}
+
+export const SELECTION_REASON_LABELS: Record<SelectionReason, string> = {
+  gifted: "Picked by hand for today",
+  anniversary: "Shared on this day in an earlier year",
+  never_shown: "Never been on a board before",
+  weighted: "Drawn at random, with reactions raising its chances",
+  recent: "Shown recently, but the board needed more memories",
+};
+
+// Last day each memory was on a board, from a list of (memory, day) shows
+export function getLastShownDayKeys(shows: { memoryId: string | number; dayKey: string }[]): Map<string, string> {
+  const lastShown = new Map<string, string>();
+
+  for (const { memoryId, dayKey } of shows) {
+    const previous = lastShown.get(String(memoryId));
+    if (!previous || dayKey > previous) {
+      lastShown.set(String(memoryId), dayKey);
+    }
+  }
+
+  return lastShown;
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+// How many years ago today a memory was shared, or null if it wasn't shared on
+// this month and day in an earlier year. Leap-day memories come back on
+// February 28 in other years.
+export function getYearsAgoToday(createdDayKey: string, dayKey: string): number | null {
+  const createdYear = Number(createdDayKey.slice(0, 4));
+  const year = Number(dayKey.slice(0, 4));
+  const createdMonthDay = createdDayKey.slice(5);
+  const monthDay = dayKey.slice(5);
+
+  if (createdYear >= year) {
+    return null;
+  }
+
+  const matches = createdMonthDay === monthDay ||
+    (createdMonthDay === "02-29" && monthDay === "02-28" && !isLeapYear(year));
+
+  return matches ? year - createdYear : null;
+}
+
+// reroll counts the rerolls made earlier that day, so each one draws afresh
+// while the first board of the day stays the same for everyone
+export function getSelectionSeed(relationshipId: number, dayKey: string, reroll: number = 0): string {
+  return reroll === 0
+    ? `${relationshipId}:${dayKey}`
+    : `${relationshipId}:${dayKey}:reroll-${reroll}`;
+}
+
+// Shown within the cooldown window before dayKey (today's own board doesn't count)
+export function isCoolingDown(candidate: SelectionCandidate, config: SelectionConfig, dayKey: string): boolean {
+  if (candidate.lastShownDayKey === null) {
+    return false;
+  }
+
+  const daysSinceShown = getDaysBetween(candidate.lastShownDayKey, dayKey);
+  return daysSinceShown >= 1 && daysSinceShown <= config.cooldownDays;
+}
+
+// Reactions aren't dated on every backend, so they fade with the memory's age
+export function getSelectionWeight(candidate: SelectionCandidate, config: SelectionConfig, dayKey: string): number {
+  const ageInDays = Math.max(getDaysBetween(candidate.createdDayKey, dayKey), 0);
+  const decay = config.thumbsUpHalfLifeDays === null
+    ? 1
+    : Math.pow(0.5, ageInDays / config.thumbsUpHalfLifeDays);
+  const reactionScore = ReactionType.options.reduce((score, type) =>
+    score + Math.max(candidate.reactionCounts[type], 0) * config.reactionWeights[type], 0);
+  const weight = reactionScore * decay + 1;
+
+  return candidate.lastShownDayKey === null ? weight * config.neverShownBoost : weight;
+}
+
+// FNV-1a, to turn the seed string into 32 bits
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+// mulberry32: small, fast and plenty for picking a handful of memories.
+// Exported for the selection simulator (server/simulate-selection.ts).
+export function createRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Backends list memories in different orders, so the draw sorts them by ID first
+function compareIds(a: SelectionCandidate, b: SelectionCandidate): number {
+  if (typeof a.id === "number" && typeof b.id === "number") {
+    return a.id - b.id;
+  }
+
+  const left = String(a.id);
+  const right = String(b.id);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+interface WeightedDraw<T> {
+  item: T;
+  weight: number;
+  probability: number;
+}
+
+// Draws up to count candidates from pool, removing them from it
+function drawWeighted<T>(pool: T[], weights: number[], count: number, random: () => number): WeightedDraw<T>[] {
+  const drawn: WeightedDraw<T>[] = [];
+
+  while (drawn.length < count && pool.length > 0) {
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    let target = random() * totalWeight;
+    let index = 0;
+
+    // Stops on the candidate whose share of the total contains the target
+    while (index < pool.length - 1) {
+      target -= weights[index];
+      if (target < 0) break;
+      index++;
+    }
+
+    drawn.push({ item: pool[index], weight: weights[index], probability: weights[index] / totalWeight });
+    pool.splice(index, 1);
+    weights.splice(index, 1);
+  }
+
+  return drawn;
+}
+
+export function selectMemories<T extends SelectionCandidate>(
+  candidates: T[],
+  config: SelectionConfig,
+  seed: string,
+  dayKey: string
+): SelectionPick<T>[] {
+  // Gifts were picked by hand, so they skip the text filter as well as the cooldown
+  const sorted = candidates
+    .filter(candidate => !candidate.retired)
+    .filter(candidate => candidate.gifted || config.includeText || candidate.type !== "text")
+    .sort(compareIds);
+  const random = createRandom(seed);
+  const selected: SelectionPick<T>[] = [];
+  const isSelected = (candidate: T) => selected.some(pick => pick.candidate === candidate);
+
+  const draw = (pool: T[], count: number, reasonOf: (candidate: T) => SelectionReason) => {
+    const weights = pool.map(candidate => getSelectionWeight(candidate, config, dayKey));
+
+    for (const { item, weight, probability } of drawWeighted(pool, weights, count, random)) {
+      selected.push({ candidate: item, explanation: { reason: reasonOf(item), weight, probability } });
+    }
+  };
+
+  // A big group can gift more memories than the board holds; the draw settles it
+  draw(sorted.filter(candidate => candidate.gifted), config.boardSize, () => "gifted");
+
+  // The anniversary place comes next and ignores the cooldown
+  const onThisDay = sorted.filter(candidate =>
+    !isSelected(candidate) && getYearsAgoToday(candidate.createdDayKey, dayKey) !== null
+  );
+  draw(onThisDay, Math.min(config.boardSize - selected.length, 1), () => "anniversary");
+
+  const remaining = sorted.filter(candidate => !isSelected(candidate));
+  const rested = remaining.filter(candidate => !isCoolingDown(candidate, config, dayKey));
+  const coolingDown = remaining.filter(candidate => isCoolingDown(candidate, config, dayKey));
+
+  // Small collections would leave the board short, so recent memories fill the gaps
+  draw(rested, config.boardSize - selected.length, candidate =>
+    candidate.lastShownDayKey === null && config.neverShownBoost > 1 ? "never_shown" : "weighted"
+  );
+  draw(coolingDown, config.boardSize - selected.length, () => "recent");
+  return selected;
+}